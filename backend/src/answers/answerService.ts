@@ -0,0 +1,131 @@
+import { ANSWER_PROVIDER, ANSWER_TIMEOUT_MS } from '../config';
+import { answerOverrides } from '../mapping/overrideStore';
+import { AnswerLengthCheck, AppInfo, BatchAnswers, BatchQuestion } from '../types';
+import { AnswerFormatOptions } from './fieldFormatters';
+import { fitAnswer, hasLengthLimits } from './lengthLimits';
+import { copyProvider, selectAnswerProvider } from './providers';
+
+export interface AnswerContext {
+    appInfo: AppInfo;
+    siteUrl: string;
+    siteId?: string;
+    format: AnswerFormatOptions;
+}
+
+export interface BatchAnswerResult {
+    answers: BatchAnswers;
+    provider: string;
+    model: string | null;
+    // Questions answered by copy mode because the provider failed, timed out or left them empty
+    fallbackIds: number[];
+    // Length checks for questions with a character or word limit, keyed by question id
+    lengthChecks: Record<number, AnswerLengthCheck>;
+}
+
+export interface AnswerProviderStatus {
+    configured: string;
+    active: string;
+    model: string | null;
+    baseUrl: string | null;
+    timeoutMs: number;
+    fallback: string;
+    configError: string | null;
+}
+
+const selection = selectAnswerProvider();
+
+if (selection.configError) {
+    console.error(`❌ Answer provider "${ANSWER_PROVIDER}" unavailable, using copy mode: ${selection.configError}`);
+}
+
+export function getAnswerProviderStatus(): AnswerProviderStatus {
+    return {
+        configured: ANSWER_PROVIDER,
+        active: selection.provider.name,
+        model: selection.provider.model,
+        baseUrl: selection.provider.baseUrl || null,
+        timeoutMs: ANSWER_TIMEOUT_MS,
+        fallback: copyProvider.name,
+        configError: selection.configError
+    };
+}
+
+/**
+ * Answer a batch with the active provider. Questions with a user correction are answered from it
+ * without asking the provider; questions the provider fails on (error, timeout or empty answer)
+ * get the copy-mode answer instead.
+ */
+export async function getBatchAnswers(questions: BatchQuestion[], context: AnswerContext): Promise<BatchAnswerResult> {
+    const { provider } = selection;
+    const suggestions = await copyProvider.answerBatch({ ...context, questions, suggestions: {} }, AbortSignal.timeout(ANSWER_TIMEOUT_MS));
+
+    if (provider === copyProvider) {
+        console.log('📋 Using copy mode - returning exact user data');
+        return { ...fitToLimits(questions, suggestions), provider: provider.name, model: null, fallbackIds: [] };
+    }
+
+    const overridden = new Set(questions
+        .filter(question => answerOverrides.match(question.question, context.siteId))
+        .map(question => question.id));
+    const providerQuestions = questions.filter(question => !overridden.has(question.id));
+
+    let providerAnswers: BatchAnswers = {};
+    try {
+        if (providerQuestions.length > 0) {
+            console.log(`🤖 Asking ${provider.name} (${provider.model}) for ${providerQuestions.length} answers`);
+            providerAnswers = await provider.answerBatch(
+                { ...context, questions: providerQuestions, suggestions },
+                AbortSignal.timeout(ANSWER_TIMEOUT_MS)
+            );
+        }
+    } catch (error) {
+        const reason = error instanceof Error && error.name === 'TimeoutError'
+            ? `timed out after ${ANSWER_TIMEOUT_MS}ms`
+            : error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ ${provider.name} failed (${reason}); falling back to copy mode`);
+    }
+
+    const answers: BatchAnswers = {};
+    const fallbackIds: number[] = [];
+    questions.forEach(question => {
+        const answer = providerAnswers[question.id];
+        if (overridden.has(question.id)) {
+            answers[question.id] = suggestions[question.id] || '';
+        } else if (answer) {
+            answers[question.id] = answer;
+        } else {
+            answers[question.id] = suggestions[question.id] || '';
+            fallbackIds.push(question.id);
+        }
+    });
+
+    if (fallbackIds.length > 0) {
+        console.warn(`⚠️ Copy-mode fallback for question(s) ${fallbackIds.join(', ')}`);
+    }
+    return { ...fitToLimits(questions, answers), provider: provider.name, model: provider.model, fallbackIds };
+}
+
+/**
+ * Truncate answers over their question's limits at a sentence boundary and flag any still too long
+ */
+function fitToLimits(questions: BatchQuestion[], answers: BatchAnswers): Pick<BatchAnswerResult, 'answers' | 'lengthChecks'> {
+    const fitted: BatchAnswers = { ...answers };
+    const lengthChecks: Record<number, AnswerLengthCheck> = {};
+
+    questions.forEach(question => {
+        const limits = { maxLength: question.maxLength, maxWords: question.maxWords };
+        if (!hasLengthLimits(limits)) {
+            return;
+        }
+
+        const { answer, check } = fitAnswer(answers[question.id] || '', limits);
+        fitted[question.id] = answer;
+        lengthChecks[question.id] = check;
+    });
+
+    const overLimit = Object.keys(lengthChecks).filter(id => lengthChecks[Number(id)].overLimit);
+    if (overLimit.length > 0) {
+        console.warn(`⚠️ Answer(s) over the directory's length limit: question(s) ${overLimit.join(', ')}`);
+    }
+    return { answers: fitted, lengthChecks };
+}
@@ -0,0 +1,55 @@
+import { MIN_MATCH_CONFIDENCE } from '../config';
+import { FieldMatch } from '../mapping/mappingRules';
+import { AnswerAssessment, AnswerLengthCheck, AnswerStatusReason, AnswerSummary, ManualQuestion, SiteQuestion } from '../types';
+
+function statusReason(match: FieldMatch | null, answer: string, lengthCheck?: AnswerLengthCheck): AnswerStatusReason | undefined {
+    if (!match) {
+        return 'no-rule';
+    }
+    if (!match.field && match.literal === undefined && !match.template) {
+        return 'left-for-user';
+    }
+    if (!answer) {
+        return 'missing-data';
+    }
+    if (match.confidence < MIN_MATCH_CONFIDENCE) {
+        return 'low-confidence';
+    }
+    if (lengthCheck?.overLimit) {
+        return 'over-limit';
+    }
+    return undefined;
+}
+
+/**
+ * Rate an answer: matched when it comes from a confidently matched field and fits the
+ * question's limits, partial when answered some other way, unmatched when empty.
+ */
+export function assessAnswer(match: FieldMatch | null, answer: string, lengthCheck?: AnswerLengthCheck): AnswerAssessment {
+    const reason = statusReason(match, answer, lengthCheck);
+    return {
+        field: match?.field ?? null,
+        confidence: match?.confidence ?? 0,
+        status: !answer ? 'unmatched' : reason ? 'partial' : 'matched',
+        ...(reason && { reason })
+    };
+}
+
+function toManualQuestion(question: SiteQuestion): ManualQuestion {
+    return {
+        id: question.id,
+        question: question.question,
+        required: question.required,
+        ...(question.reason && { reason: question.reason })
+    };
+}
+
+export function summarizeAnswers(questions: SiteQuestion[]): AnswerSummary {
+    return {
+        matched: questions.filter(question => question.status === 'matched').length,
+        partial: questions.filter(question => question.status === 'partial').length,
+        unmatched: questions.filter(question => question.status === 'unmatched').length,
+        manualQuestions: questions.filter(question => question.status === 'unmatched').map(toManualQuestion),
+        reviewQuestions: questions.filter(question => question.status === 'partial').map(toManualQuestion)
+    };
+}
@@ -0,0 +1,212 @@
+import { APP_INFO_FIELDS } from '../mapping/mappingRules';
+import { AppInfo, AppInfoField } from '../types';
+import { AnswerFormatOptions, DEFAULT_ANSWER_FORMAT, formatFieldValue, joinWithAnd, listItems } from './fieldFormatters';
+
+/**
+ * Answer templates combine several AppInfo fields into one answer:
+ *
+ *   {name}                        a field, formatted as in a plain answer
+ *   {mainFeatures|and}            list joined as "a, b and c"; `join:" / "` picks the separator
+ *   {type|lower}                  filters: join, and, first, lower, upper
+ *   {tagline ?? description}      fallbacks: the first non-empty value; may end with a "literal"
+ *   {#location}Based in {location}.{/location}   section kept only when the value is non-empty
+ *   {^githubUrl}Closed source{/githubUrl}        section kept only when the value is empty
+ *   {{ and }}                     literal braces
+ */
+
+type TemplateFilter = { name: string; arg?: string };
+
+type TemplateTerm =
+    | { kind: 'field'; field: AppInfoField; filters: TemplateFilter[] }
+    | { kind: 'literal'; text: string };
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; terms: TemplateTerm[] }
+    | { kind: 'section'; terms: TemplateTerm[]; inverted: boolean; children: TemplateNode[] };
+
+export type CompiledTemplate = TemplateNode[];
+
+const FILTERS = ['join', 'and', 'first', 'lower', 'upper'];
+
+export class TemplateError extends Error {
+    constructor(message: string, template: string) {
+        super(`${message} in template "${template}"`);
+        this.name = 'TemplateError';
+    }
+}
+
+function parseFilter(source: string, template: string): TemplateFilter {
+    const match = source.trim().match(/^([a-z]+)(?::\s*"((?:[^"\\]|\\.)*)")?$/);
+    if (!match || !FILTERS.includes(match[1])) {
+        throw new TemplateError(`Unknown filter "${source.trim()}" (expected one of ${FILTERS.join(', ')})`, template);
+    }
+    return { name: match[1], ...(match[2] !== undefined && { arg: JSON.parse(`"${match[2]}"`) }) };
+}
+
+function parseTerm(source: string, template: string): TemplateTerm {
+    const text = source.trim();
+    if (/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+        return { kind: 'literal', text: JSON.parse(text) };
+    }
+
+    const [field, ...filters] = text.split('|');
+    if (!APP_INFO_FIELDS.includes(field.trim() as AppInfoField)) {
+        throw new TemplateError(`Unknown field "${field.trim()}"`, template);
+    }
+    return { kind: 'field', field: field.trim() as AppInfoField, filters: filters.map(filter => parseFilter(filter, template)) };
+}
+
+function parseExpression(source: string, template: string): TemplateTerm[] {
+    const terms = source.split('??').map(term => parseTerm(term, template));
+    terms.slice(0, -1).forEach(term => {
+        if (term.kind === 'literal') {
+            throw new TemplateError('A "literal" fallback must come last', template);
+        }
+    });
+    return terms;
+}
+
+/**
+ * Parse and validate a template, so unknown fields or filters and unbalanced sections are
+ * reported when the rules or catalog load rather than when an answer is rendered.
+ */
+export function compileTemplate(template: string): CompiledTemplate {
+    const root: TemplateNode[] = [];
+    const open: { node: Extract<TemplateNode, { kind: 'section' }>; name: string }[] = [];
+    const current = () => open.length > 0 ? open[open.length - 1].node.children : root;
+    const pushText = (text: string) => {
+        const nodes = current();
+        const last = nodes[nodes.length - 1];
+        if (last?.kind === 'text') {
+            last.text += text;
+        } else if (text) {
+            nodes.push({ kind: 'text', text });
+        }
+    };
+
+    let index = 0;
+    while (index < template.length) {
+        if (template.startsWith('{{', index) || template.startsWith('}}', index)) {
+            pushText(template[index]);
+            index += 2;
+            continue;
+        }
+        if (template[index] === '}') {
+            throw new TemplateError('Unexpected "}" (write "}}" for a brace)', template);
+        }
+        if (template[index] !== '{') {
+            const next = template.slice(index).search(/[{}]/);
+            const end = next === -1 ? template.length : index + next;
+            pushText(template.slice(index, end));
+            index = end;
+            continue;
+        }
+
+        const close = template.indexOf('}', index);
+        if (close === -1) {
+            throw new TemplateError('Unclosed "{"', template);
+        }
+        const tag = template.slice(index + 1, close).trim();
+        index = close + 1;
+
+        if (tag.startsWith('#') || tag.startsWith('^')) {
+            const node: TemplateNode = { kind: 'section', terms: parseExpression(tag.slice(1), template), inverted: tag.startsWith('^'), children: [] };
+            current().push(node);
+            open.push({ node, name: tag.slice(1).trim() });
+        } else if (tag.startsWith('/')) {
+            const section = open.pop();
+            const name = tag.slice(1).trim();
+            if (!section) {
+                throw new TemplateError(`"{/${name}}" closes no section`, template);
+            }
+            if (name && name !== section.name) {
+                throw new TemplateError(`"{/${name}}" does not match "{#${section.name}}"`, template);
+            }
+        } else {
+            current().push({ kind: 'value', terms: parseExpression(tag, template) });
+        }
+    }
+
+    if (open.length > 0) {
+        throw new TemplateError(`Section "{#${open[open.length - 1].name}}" is never closed`, template);
+    }
+    return root;
+}
+
+function applyFilter(value: string | string[], filter: TemplateFilter): string | string[] {
+    switch (filter.name) {
+        case 'join':
+            return Array.isArray(value) ? value.join(filter.arg ?? ', ') : value;
+        case 'and':
+            return Array.isArray(value) ? joinWithAnd(value) : value;
+        case 'first':
+            return Array.isArray(value) ? value[0] || '' : value;
+        case 'lower':
+            return Array.isArray(value) ? value.map(item => item.toLowerCase()) : value.toLowerCase();
+        default:
+            return Array.isArray(value) ? value.map(item => item.toUpperCase()) : value.toUpperCase();
+    }
+}
+
+function evaluateTerm(term: TemplateTerm, appInfo: AppInfo, options: AnswerFormatOptions): string {
+    if (term.kind === 'literal') {
+        return term.text;
+    }
+
+    const raw = appInfo[term.field];
+    let value: string | string[] = Array.isArray(raw) ? listItems(raw) : formatFieldValue(appInfo, term.field, options);
+    term.filters.forEach(filter => {
+        value = applyFilter(value, filter);
+    });
+    return Array.isArray(value) ? value.join(', ') : value;
+}
+
+// Whether anything rendered came from the user's data, rather than template text or literals
+interface RenderState {
+    usedData: boolean;
+}
+
+function evaluate(terms: TemplateTerm[], appInfo: AppInfo, options: AnswerFormatOptions, state: RenderState): string {
+    for (const term of terms) {
+        const value = evaluateTerm(term, appInfo, options);
+        if (value) {
+            state.usedData = state.usedData || term.kind === 'field';
+            return value;
+        }
+    }
+    return '';
+}
+
+function renderNodes(nodes: TemplateNode[], appInfo: AppInfo, options: AnswerFormatOptions, state: RenderState): string {
+    return nodes.map(node => {
+        switch (node.kind) {
+            case 'text':
+                return node.text;
+            case 'value':
+                return evaluate(node.terms, appInfo, options, state);
+            default: {
+                // The section test looks at the data either way, so a shown section counts as using it
+                const present = evaluate(node.terms, appInfo, options, { usedData: false }) !== '';
+                if (present === node.inverted) {
+                    return '';
+                }
+                state.usedData = true;
+                return renderNodes(node.children, appInfo, options, state);
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Render a compiled template. Runs of spaces left by empty values are collapsed; when none of
+ * the user's data made it into the answer (only template text and literals), the answer is empty.
+ */
+export function renderTemplate(template: CompiledTemplate, appInfo: AppInfo, options: AnswerFormatOptions = DEFAULT_ANSWER_FORMAT): string {
+    const state: RenderState = { usedData: false };
+    const rendered = renderNodes(template, appInfo, options, state)
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/ +([,.;:!?])/g, '$1')
+        .trim();
+    return state.usedData ? rendered : '';
+}
@@ -0,0 +1,98 @@
+import { BulkAnalysisBody } from '@directory-bot/contract';
+import { ANALYZE_CONCURRENCY, MAX_SITES_PER_RUN } from '../config';
+import { directoryCatalog } from '../catalog/catalogService';
+import { findUnknownPacks } from '../catalog/packs';
+import { parseSiteFilter, querySites, SiteQuery } from '../catalog/siteQuery';
+import { appProfiles } from '../profiles/profileStore';
+import { AppInfo, DirectorySite } from '../types';
+import { AnswerFormatOptions, parseAnswerFormat } from './fieldFormatters';
+
+/**
+ * Bulk analysis request problem with its status code and any extra response fields
+ */
+export class BulkRequestError extends Error {
+    constructor(public readonly status: number, message: string, public readonly details: Record<string, unknown> = {}) {
+        super(message);
+        this.name = 'BulkRequestError';
+    }
+}
+
+export interface BulkAnalysisRequest {
+    appInfo: AppInfo;
+    // Set when appInfo came from a saved profile
+    profileId?: string;
+    format: AnswerFormatOptions;
+    concurrency: number;
+    // The directories to analyze: one page (at most MAX_SITES_PER_RUN) of those matching
+    sites: DirectorySite[];
+    total: number;
+    offset: number;
+    nextCursor: string | null;
+}
+
+/**
+ * Resolve a bulk analysis request body (already checked against the contract's BulkAnalysisRequestSchema).
+ * The app is sent inline, or as the id of a saved profile.
+ * `siteIds` and `siteUrls` narrow the catalog first, then `filter` (the /api/sites options) applies to what is left.
+ */
+export function parseBulkAnalysisRequest(body: BulkAnalysisBody): BulkAnalysisRequest {
+    const { profileId, siteIds, siteUrls } = body;
+    const appInfo = profileId ? appProfiles.getAppInfo(profileId) : body.appInfo;
+    if (!appInfo) {
+        throw new BulkRequestError(404, `Profile not found: ${profileId}`, { profileId });
+    }
+
+    let format: AnswerFormatOptions;
+    let query: SiteQuery;
+    try {
+        format = parseAnswerFormat(body.answerFormat);
+        query = parseSiteFilter(body.filter);
+    } catch (error) {
+        throw new BulkRequestError(400, error instanceof Error ? error.message : 'Invalid request');
+    }
+
+    const concurrency = body.concurrency ?? ANALYZE_CONCURRENCY;
+    if (concurrency > ANALYZE_CONCURRENCY) {
+        throw new BulkRequestError(400, `concurrency must be at most ${ANALYZE_CONCURRENCY}`);
+    }
+
+    const unknownPacks = query.packs ? findUnknownPacks(query.packs, directoryCatalog.getPacks()) : [];
+    if (unknownPacks.length > 0) {
+        throw new BulkRequestError(404, 'Unknown pack', { unknownPacks });
+    }
+
+    let candidates = directoryCatalog.getSites();
+    if (siteIds) {
+        const ids = siteIds.map(id => id.trim());
+        const unknownDirectories = ids.filter(id => !directoryCatalog.findSite(id));
+        if (unknownDirectories.length > 0) {
+            throw new BulkRequestError(404, 'Unknown directory', { unknownDirectories });
+        }
+        candidates = candidates.filter(site => ids.includes(site.id));
+    }
+    if (siteUrls) {
+        const urls = siteUrls.map(url => url.trim());
+        const matches = urls.map(url => directoryCatalog.findSiteByUrl(url));
+        const unknownDirectories = urls.filter((url, index) => !matches[index]);
+        if (unknownDirectories.length > 0) {
+            throw new BulkRequestError(404, 'Unknown directory', { unknownDirectories });
+        }
+        candidates = candidates.filter(site => matches.includes(site));
+    }
+
+    const page = querySites(candidates, { ...query, limit: Math.min(query.limit, MAX_SITES_PER_RUN) });
+    if (page.sites.length === 0) {
+        throw new BulkRequestError(404, 'No directories match the filter', { total: page.total });
+    }
+
+    return {
+        appInfo,
+        ...(profileId && { profileId }),
+        format,
+        concurrency,
+        sites: page.sites,
+        total: page.total,
+        offset: page.offset,
+        nextCursor: page.nextCursor
+    };
+}
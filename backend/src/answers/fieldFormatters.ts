@@ -0,0 +1,227 @@
+import { AppInfo, AppInfoField, QuestionFieldType } from '../types';
+import { ValidationError } from '../validation';
+
+export type AnswerStyle = 'plain' | 'prose';
+export type DateFormat = 'iso' | 'locale';
+
+/**
+ * Per-request answer formatting. `plain` answers are the bare values, ready to paste into a form;
+ * `prose` turns free-text fields into short sentences.
+ */
+export interface AnswerFormatOptions {
+    style: AnswerStyle;
+    dateFormat: DateFormat;
+    locale: string;
+}
+
+export const DEFAULT_ANSWER_FORMAT: AnswerFormatOptions = {
+    style: 'plain',
+    dateFormat: 'iso',
+    locale: 'en-US'
+};
+
+const ANSWER_STYLES: AnswerStyle[] = ['plain', 'prose'];
+const DATE_FORMATS: DateFormat[] = ['iso', 'locale'];
+
+const URL_FIELDS: AppInfoField[] = ['url', 'githubUrl', 'linkedinUrl', 'xUrl'];
+const LIST_FIELDS: AppInfoField[] = ['mainFeatures', 'techStack'];
+
+const APP_TYPE_LABELS: Record<AppInfo['type'], string> = {
+    saas: 'SaaS',
+    ecommerce: 'E-commerce',
+    blog: 'Blog',
+    portfolio: 'Portfolio',
+    webapp: 'Web app',
+    other: 'Other'
+};
+
+// Question types whose answers must stay bare values even in prose style
+const STRUCTURED_QUESTION_TYPES: QuestionFieldType[] = ['url', 'email', 'date', 'number', 'boolean', 'select', 'multiselect', 'file'];
+
+/**
+ * Read the optional `answerFormat` request field: `{ style, dateFormat, locale }`.
+ */
+export function parseAnswerFormat(value: unknown): AnswerFormatOptions {
+    if (value === undefined || value === null) {
+        return DEFAULT_ANSWER_FORMAT;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError('answerFormat must be an object', 'invalid-answer-format');
+    }
+
+    const raw = value as Record<string, unknown>;
+    const style = raw.style ?? DEFAULT_ANSWER_FORMAT.style;
+    const dateFormat = raw.dateFormat ?? DEFAULT_ANSWER_FORMAT.dateFormat;
+    const locale = raw.locale ?? DEFAULT_ANSWER_FORMAT.locale;
+
+    if (!ANSWER_STYLES.includes(style as AnswerStyle)) {
+        throw new ValidationError(`answerFormat.style must be one of ${ANSWER_STYLES.join(', ')}`, 'invalid-answer-format');
+    }
+    if (!DATE_FORMATS.includes(dateFormat as DateFormat)) {
+        throw new ValidationError(`answerFormat.dateFormat must be one of ${DATE_FORMATS.join(', ')}`, 'invalid-answer-format');
+    }
+    if (typeof locale !== 'string' || !isSupportedLocale(locale)) {
+        throw new ValidationError('answerFormat.locale must be a BCP 47 locale such as en-US', 'invalid-answer-format');
+    }
+
+    return { style: style as AnswerStyle, dateFormat: dateFormat as DateFormat, locale };
+}
+
+function isSupportedLocale(locale: string): boolean {
+    try {
+        return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+        return false;
+    }
+}
+
+function collapseWhitespace(value: string): string {
+    return value.replace(/\s+/g, ' ').trim();
+}
+
+function formatUrl(value: string, field: AppInfoField): string {
+    const url = value.trim();
+    if (!url) {
+        return '';
+    }
+    if (field === 'xUrl' && /^@\w+$/.test(url)) {
+        return `https://x.com/${url.slice(1)}`;
+    }
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+function formatDate(value: string, options: AnswerFormatOptions): string {
+    const text = value.trim();
+    // Date-only values are calendar dates, so keep them in UTC to avoid shifting the day
+    const parsed = /^\d{4}-\d{2}-\d{2}$/.test(text) ? new Date(`${text}T00:00:00Z`) : new Date(text);
+    if (!text || Number.isNaN(parsed.getTime())) {
+        return text;
+    }
+
+    if (options.dateFormat === 'locale') {
+        return parsed.toLocaleDateString(options.locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+    }
+    return parsed.toISOString().slice(0, 10);
+}
+
+export function listItems(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    return items
+        .filter((item): item is string => typeof item === 'string')
+        .map(collapseWhitespace)
+        .filter(item => item.length > 0);
+}
+
+// "a", "a and b", "a, b and c"
+export function joinWithAnd(items: string[]): string {
+    return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function asSentence(text: string): string {
+    return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * The bare value of an AppInfo field: URLs with a scheme, lowercase emails, ISO or locale dates,
+ * Yes/No flags and comma-joined lists.
+ */
+export function formatFieldValue(appInfo: AppInfo, field: AppInfoField | null, options: AnswerFormatOptions = DEFAULT_ANSWER_FORMAT): string {
+    if (!field) {
+        return '';
+    }
+
+    const value: unknown = appInfo[field];
+    if (LIST_FIELDS.includes(field)) {
+        return listItems(value).join(', ');
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'Yes' : 'No';
+    }
+    if (typeof value !== 'string') {
+        return '';
+    }
+
+    if (URL_FIELDS.includes(field)) {
+        return formatUrl(value, field);
+    }
+    switch (field) {
+        case 'email':
+            return value.trim().toLowerCase();
+        case 'launchDate':
+            return formatDate(value, options);
+        case 'type':
+            return APP_TYPE_LABELS[value as AppInfo['type']] || collapseWhitespace(value);
+        default:
+            return collapseWhitespace(value);
+    }
+}
+
+/**
+ * Sentences used by the prose style; fields without one keep their bare value
+ */
+const PROSE_TEMPLATES: Partial<Record<AppInfoField, (value: string, appInfo: AppInfo) => string>> = {
+    description: value => asSentence(value),
+    tagline: value => value,
+    targetAudience: (value, appInfo) => asSentence(`${appInfo.name || 'It'} is built for ${value}`),
+    mainFeatures: (_, appInfo) => `Key features include ${joinWithAnd(listItems(appInfo.mainFeatures))}.`,
+    techStack: (_, appInfo) => `Built with ${joinWithAnd(listItems(appInfo.techStack))}.`,
+    location: value => asSentence(`Based in ${value}`),
+    type: (value, appInfo) => asSentence(`${appInfo.name || 'It'} is a ${value} product`),
+    category: value => asSentence(`Category: ${value}`)
+};
+
+// Text fields the user may give in several lengths
+const VARIANT_FIELDS: Partial<Record<AppInfoField, 'descriptionVariants' | 'taglineVariants'>> = {
+    description: 'descriptionVariants',
+    tagline: 'taglineVariants'
+};
+
+function applyStyle(
+    value: string,
+    appInfo: AppInfo,
+    field: AppInfoField | null,
+    questionType: QuestionFieldType | undefined,
+    options: AnswerFormatOptions
+): string {
+    const template = field ? PROSE_TEMPLATES[field] : undefined;
+
+    if (!value || options.style !== 'prose' || !template || (questionType && STRUCTURED_QUESTION_TYPES.includes(questionType))) {
+        return value;
+    }
+    return template(value, appInfo);
+}
+
+/**
+ * Format the answer for a question mapped to `field`. Prose only applies to free-text questions;
+ * URL, email, date, choice and other structured questions always get the bare value.
+ */
+export function formatAnswer(
+    appInfo: AppInfo,
+    field: AppInfoField | null,
+    questionType: QuestionFieldType | undefined,
+    options: AnswerFormatOptions = DEFAULT_ANSWER_FORMAT
+): string {
+    return applyStyle(formatFieldValue(appInfo, field, options), appInfo, field, questionType, options);
+}
+
+/**
+ * The formatted answer followed by any short/medium/long versions the user gave for the field
+ */
+export function formatAnswerVariants(
+    appInfo: AppInfo,
+    field: AppInfoField | null,
+    questionType: QuestionFieldType | undefined,
+    options: AnswerFormatOptions = DEFAULT_ANSWER_FORMAT
+): string[] {
+    const variantsKey = field ? VARIANT_FIELDS[field] : undefined;
+    const variants = variantsKey ? appInfo[variantsKey] : undefined;
+    const values = [
+        formatFieldValue(appInfo, field, options),
+        ...[variants?.short, variants?.medium, variants?.long]
+            .filter((variant): variant is string => typeof variant === 'string')
+            .map(collapseWhitespace)
+    ];
+
+    return [...new Set(values.filter(value => value.length > 0))]
+        .map(value => applyStyle(value, appInfo, field, questionType, options));
+}
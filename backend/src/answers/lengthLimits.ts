@@ -0,0 +1,73 @@
+import { AnswerLengthCheck, LengthLimits } from '../types';
+
+export function hasLengthLimits(limits: LengthLimits): boolean {
+    return limits.maxLength !== undefined || limits.maxWords !== undefined;
+}
+
+export function countWords(text: string): number {
+    const trimmed = text.trim();
+    return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+export function fitsLimits(text: string, limits: LengthLimits): boolean {
+    return (limits.maxLength === undefined || text.length <= limits.maxLength)
+        && (limits.maxWords === undefined || countWords(text) <= limits.maxWords);
+}
+
+/**
+ * Choose among versions of the same answer: the longest that fits, or the shortest if none does.
+ */
+export function pickVariant(candidates: string[], limits: LengthLimits): string {
+    if (candidates.length === 0) {
+        return '';
+    }
+
+    const bySize = [...candidates].sort((a, b) => b.length - a.length);
+    return bySize.find(candidate => fitsLimits(candidate, limits)) || bySize[bySize.length - 1];
+}
+
+/**
+ * Keep as many leading whole sentences as fit; null when even the first sentence is too long.
+ */
+export function truncateAtSentence(text: string, limits: LengthLimits): string | null {
+    // A sentence ends at . ! or ? followed by whitespace, so "v1.2" or "example.com" stay whole
+    const sentences = text.trim().split(/(?<=[.!?])\s+/);
+    let result = '';
+
+    for (const sentence of sentences) {
+        const next = result ? `${result} ${sentence}` : sentence;
+        if (!fitsLimits(next, limits)) {
+            break;
+        }
+        result = next;
+    }
+    return result || null;
+}
+
+/**
+ * Make an answer fit its limits by sentence-boundary truncation where possible,
+ * and report whether it is still too long.
+ */
+export function fitAnswer(answer: string, limits: LengthLimits): { answer: string; check: AnswerLengthCheck } {
+    let fitted = answer;
+    let truncated = false;
+
+    if (!fitsLimits(answer, limits)) {
+        const shortened = truncateAtSentence(answer, limits);
+        if (shortened) {
+            fitted = shortened;
+            truncated = true;
+        }
+    }
+
+    return {
+        answer: fitted,
+        check: {
+            ...limits,
+            length: fitted.length,
+            words: countWords(fitted),
+            truncated,
+            overLimit: !fitsLimits(fitted, limits)
+        }
+    };
+}
@@ -0,0 +1,25 @@
+import { AppInfo, BatchAnswers, BatchQuestion } from '../../types';
+import { AnswerFormatOptions } from '../fieldFormatters';
+
+export interface AnswerRequest {
+    questions: BatchQuestion[];
+    appInfo: AppInfo;
+    siteUrl: string;
+    // Catalog id of the directory, for its own answer overrides
+    siteId?: string;
+    format: AnswerFormatOptions;
+    // Copy-mode answers, given to AI providers as grounding
+    suggestions: BatchAnswers;
+}
+
+/**
+ * Produces answers for a batch of directory questions. Answers may be missing or empty
+ * for some questions; the caller falls back to copy mode for those.
+ */
+export interface AnswerProvider {
+    name: string;
+    model: string | null;
+    // Where requests go, for AI providers
+    baseUrl?: string;
+    answerBatch(request: AnswerRequest, signal: AbortSignal): Promise<BatchAnswers>;
+}
@@ -0,0 +1,90 @@
+import { answerOverrides } from '../../mapping/overrideStore';
+import { FieldMatch } from '../../mapping/mappingRules';
+import { mappingRules } from '../../mapping/mappingService';
+import { AppInfo, BatchAnswers, BatchQuestion } from '../../types';
+import { CompiledTemplate, compileTemplate, renderTemplate } from '../answerTemplates';
+import { AnswerFormatOptions, DEFAULT_ANSWER_FORMAT, formatAnswer, formatAnswerVariants } from '../fieldFormatters';
+import { hasLengthLimits, pickVariant } from '../lengthLimits';
+import { AnswerProvider } from './answerProvider';
+
+export type CopyQuestion = Omit<BatchQuestion, 'id'>;
+
+// Catalog questions share a handful of templates; compile each once
+const questionTemplates = new Map<string, CompiledTemplate>();
+
+function questionTemplate(template: string): CompiledTemplate {
+    let compiled = questionTemplates.get(template);
+    if (!compiled) {
+        compiled = compileTemplate(template);
+        questionTemplates.set(template, compiled);
+    }
+    return compiled;
+}
+
+/**
+ * How a question is answered: a user correction (directory, then global), then the question's
+ * own template from the catalog, then the rules file and the example question corpus.
+ */
+export function matchAnswerSource(question: CopyQuestion, siteId?: string): FieldMatch | null {
+    const override = answerOverrides.match(question.question, siteId);
+    if (override) {
+        return override;
+    }
+
+    const match = mappingRules.match(question.question);
+    if (question.template) {
+        return {
+            ruleId: 'question-template',
+            field: match?.field ?? null,
+            matched: question.question,
+            method: 'template',
+            confidence: 1,
+            template: questionTemplate(question.template)
+        };
+    }
+    return match;
+}
+
+/**
+ * Match question to user data and return the exact value. With length limits, the user's
+ * longest short/medium/long version that fits is used instead.
+ * Templates (on the catalog question or the matched rule) combine several fields instead;
+ * see matchAnswerSource for the order questions are matched in.
+ */
+export function copyAnswer(
+    question: CopyQuestion,
+    appInfo: AppInfo,
+    format: AnswerFormatOptions = DEFAULT_ANSWER_FORMAT,
+    siteId?: string
+): string {
+    const match = matchAnswerSource(question, siteId);
+    if (!match) {
+        return '';
+    }
+    if (match.literal !== undefined) {
+        return match.literal;
+    }
+    if (match.template) {
+        return renderTemplate(match.template, appInfo, format);
+    }
+
+    const limits = { maxLength: question.maxLength, maxWords: question.maxWords };
+    return hasLengthLimits(limits)
+        ? pickVariant(formatAnswerVariants(appInfo, match.field, question.type, format), limits)
+        : formatAnswer(appInfo, match.field, question.type, format);
+}
+
+/**
+ * No AI: answers are the user's own data, formatted for the mapped field
+ */
+export const copyProvider: AnswerProvider = {
+    name: 'copy',
+    model: null,
+    async answerBatch(request) {
+        const answers: BatchAnswers = {};
+        request.questions.forEach(question => {
+            answers[question.id] = copyAnswer(question, request.appInfo, request.format, request.siteId);
+        });
+        return answers;
+    }
+};
@@ -0,0 +1,28 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { AnswerProvider } from './answerProvider';
+import { buildAnswerPrompt, parseAnswerJson, SYSTEM_PROMPT } from './prompt';
+
+export interface GeminiOptions {
+    apiKey: string;
+    model: string;
+}
+
+/**
+ * Google Gemini provider using the @google/generative-ai SDK
+ */
+export function createGeminiProvider(options: GeminiOptions): AnswerProvider {
+    const model = new GoogleGenerativeAI(options.apiKey).getGenerativeModel({
+        model: options.model,
+        systemInstruction: SYSTEM_PROMPT,
+        generationConfig: { temperature: 0, responseMimeType: 'application/json' }
+    });
+
+    return {
+        name: 'gemini',
+        model: options.model,
+        async answerBatch(request, signal) {
+            const result = await model.generateContent(buildAnswerPrompt(request), { signal });
+            return parseAnswerJson(result.response.text());
+        }
+    };
+}
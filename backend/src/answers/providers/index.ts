@@ -0,0 +1,72 @@
+import {
+    ANSWER_PROVIDER,
+    GEMINI_API_KEY,
+    GEMINI_MODEL,
+    LLM_API_KEY,
+    LLM_BASE_URL,
+    LLM_MODEL,
+    OPENROUTER_API_KEY
+} from '../../config';
+import { AnswerProvider } from './answerProvider';
+import { copyProvider } from './copyProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+export type { AnswerProvider, AnswerRequest } from './answerProvider';
+export { copyAnswer, copyProvider, matchAnswerSource } from './copyProvider';
+
+export const ANSWER_PROVIDERS = ['copy', 'openai', 'openrouter', 'gemini'];
+
+export interface ProviderSelection {
+    provider: AnswerProvider;
+    // Why the configured provider could not be used (copy mode is used instead)
+    configError: string | null;
+}
+
+function requireKey(provider: string, key: string, variable: string): string {
+    if (!key) {
+        throw new Error(`${provider} needs ${variable}`);
+    }
+    return key;
+}
+
+function createConfiguredProvider(name: string): AnswerProvider {
+    switch (name) {
+        case 'copy':
+            return copyProvider;
+        case 'openai':
+            return createOpenAiCompatibleProvider({
+                name: 'openai',
+                baseUrl: LLM_BASE_URL || 'https://api.openai.com/v1',
+                // A custom base URL (e.g. a local stub) may not need a key
+                apiKey: LLM_BASE_URL ? LLM_API_KEY : requireKey('openai', LLM_API_KEY, 'LLM_API_KEY'),
+                model: LLM_MODEL || 'gpt-4o-mini'
+            });
+        case 'openrouter':
+            return createOpenAiCompatibleProvider({
+                name: 'openrouter',
+                baseUrl: LLM_BASE_URL || 'https://openrouter.ai/api/v1',
+                apiKey: requireKey('openrouter', OPENROUTER_API_KEY || LLM_API_KEY, 'OPENROUTER_API_KEY'),
+                model: LLM_MODEL || 'openai/gpt-4o-mini',
+                headers: { 'X-Title': 'Directory Bot' }
+            });
+        case 'gemini':
+            return createGeminiProvider({
+                apiKey: requireKey('gemini', GEMINI_API_KEY, 'GEMINI_API_KEY'),
+                model: GEMINI_MODEL
+            });
+        default:
+            throw new Error(`Unknown ANSWER_PROVIDER "${name}" (expected one of ${ANSWER_PROVIDERS.join(', ')})`);
+    }
+}
+
+/**
+ * Pick the answer provider from ANSWER_PROVIDER; a misconfigured provider falls back to copy mode.
+ */
+export function selectAnswerProvider(name: string = ANSWER_PROVIDER): ProviderSelection {
+    try {
+        return { provider: createConfiguredProvider(name), configError: null };
+    } catch (error) {
+        return { provider: copyProvider, configError: error instanceof Error ? error.message : String(error) };
+    }
+}
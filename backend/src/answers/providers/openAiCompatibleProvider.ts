@@ -0,0 +1,60 @@
+import { AnswerProvider } from './answerProvider';
+import { buildAnswerPrompt, parseAnswerJson, SYSTEM_PROMPT } from './prompt';
+
+export interface OpenAiCompatibleOptions {
+    name: string;
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    // Extra request headers, e.g. OpenRouter's attribution headers
+    headers?: Record<string, string>;
+}
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+    error?: { message?: string };
+}
+
+/**
+ * Chat-completions provider for OpenAI, OpenRouter or any server speaking the same API
+ * (`POST {baseUrl}/chat/completions`).
+ */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): AnswerProvider {
+    const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    return {
+        name: options.name,
+        model: options.model,
+        baseUrl: options.baseUrl,
+        async answerBatch(request, signal) {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+                    ...options.headers
+                },
+                body: JSON.stringify({
+                    model: options.model,
+                    temperature: 0,
+                    messages: [
+                        { role: 'system', content: SYSTEM_PROMPT },
+                        { role: 'user', content: buildAnswerPrompt(request) }
+                    ]
+                }),
+                signal
+            });
+
+            const data = await response.json().catch(() => ({})) as ChatCompletionResponse;
+            if (!response.ok) {
+                throw new Error(`${options.name} responded ${response.status}: ${data.error?.message || response.statusText}`);
+            }
+
+            const content = data.choices?.[0]?.message?.content;
+            if (!content) {
+                throw new Error(`${options.name} returned an empty reply`);
+            }
+            return parseAnswerJson(content);
+        }
+    };
+}
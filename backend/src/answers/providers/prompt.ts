@@ -0,0 +1,72 @@
+import { BatchAnswers } from '../../types';
+import { AnswerRequest } from './answerProvider';
+
+export const SYSTEM_PROMPT = [
+    'You fill in startup directory submission forms on behalf of the user.',
+    'Answer every question using only the app information provided; never invent facts, numbers or links.',
+    'When a suggested value is given it comes straight from the user, so prefer it.',
+    'Keep each answer within its maxLength (characters) and maxWords, ending on a whole sentence.',
+    'If the information needed is missing, answer with an empty string.',
+    'Reply with a single JSON object mapping each question id to its answer string, e.g. {"1": "...", "2": ""}.'
+].join(' ');
+
+/**
+ * User message for a batch: app info, answer style and the numbered questions
+ */
+export function buildAnswerPrompt(request: AnswerRequest): string {
+    const style = request.format.style === 'prose'
+        ? 'Write free-text answers as one or two short sentences; keep URLs, emails, dates and choices as bare values.'
+        : 'Answer with the bare value only, ready to paste into the form field, with no extra words.';
+
+    const questions = request.questions.map(question => ({
+        id: question.id,
+        question: question.question,
+        ...(question.type && { type: question.type }),
+        ...(question.maxLength && { maxLength: question.maxLength }),
+        ...(question.maxWords && { maxWords: question.maxWords }),
+        ...(request.suggestions[question.id] && { suggested: request.suggestions[question.id] })
+    }));
+
+    return [
+        `Directory: ${request.siteUrl}`,
+        `App information (JSON): ${JSON.stringify(request.appInfo)}`,
+        `Style: ${style}`,
+        `Dates: ${request.format.dateFormat === 'locale' ? `formatted for the ${request.format.locale} locale` : 'YYYY-MM-DD'}`,
+        `Questions (JSON): ${JSON.stringify(questions)}`
+    ].join('\n\n');
+}
+
+/**
+ * Read the answers from a model reply. Accepts `{"1": "..."}`, `{"answers": {...}}` or
+ * `[{"id": 1, "answer": "..."}]`, optionally wrapped in a Markdown code fence.
+ */
+export function parseAnswerJson(text: string): BatchAnswers {
+    const body = text.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '');
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    if (start === -1 || end < start) {
+        throw new Error('Model reply contained no JSON');
+    }
+
+    let parsed: unknown = JSON.parse(body.slice(start, end + 1));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'answers' in parsed) {
+        parsed = (parsed as { answers: unknown }).answers;
+    }
+
+    if (!parsed || typeof parsed !== 'object') {
+        throw new Error('Model reply was not a JSON object or list');
+    }
+
+    const entries: [unknown, unknown][] = Array.isArray(parsed)
+        ? parsed.map(item => [item?.id, item?.answer])
+        : Object.entries(parsed as Record<string, unknown>);
+
+    const answers: BatchAnswers = {};
+    entries.forEach(([id, answer]) => {
+        const questionId = Number(id);
+        if (Number.isInteger(questionId) && ['string', 'number', 'boolean'].includes(typeof answer)) {
+            answers[questionId] = String(answer).trim();
+        }
+    });
+    return answers;
+}
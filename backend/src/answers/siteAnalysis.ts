@@ -0,0 +1,181 @@
+import { MAX_QUESTIONS_PER_BATCH } from '../config';
+import { questionHash } from '../mapping/answerOverrides';
+import { AnswerSummary, AppInfo, BatchQuestion, DirectorySite, SiteAnalysis, SiteQuestion } from '../types';
+import { AnswerContext, BatchAnswerResult, getBatchAnswers } from './answerService';
+import { assessAnswer, summarizeAnswers } from './answerStatus';
+import { AnswerFormatOptions } from './fieldFormatters';
+import { matchAnswerSource } from './providers';
+
+export interface DirectoryAnalysis extends SiteAnalysis {
+    siteId: string;
+    pack?: string;
+    summary: AnswerSummary;
+    metadata: {
+        analyzedAt: string;
+        appName: string;
+        mode: 'simple-copy' | 'ai';
+        provider: string;
+        aiModel: string;
+        // Questions answered by copy mode because the provider failed
+        fallbackQuestions: number[];
+        overLimitQuestions: number[];
+        answerFormat: AnswerFormatOptions;
+        description: string;
+    };
+}
+
+// One entry per directory of a bulk run; a failed directory does not stop the others
+export type BulkSiteResult =
+    | ({ status: 'success' } & DirectoryAnalysis)
+    | { status: 'error'; siteId: string; siteUrl: string; siteName: string; error: string };
+
+export interface BulkAnalysis {
+    results: BulkSiteResult[];
+    succeeded: number;
+    failed: number;
+    durationMs: number;
+}
+
+// The trimmed-down analysis of /api/generate-custom-answers: just the questions and answers
+export interface SiteCustomAnswers {
+    siteUrl: string;
+    siteName: string;
+    questions: { id: number; question: string; answer: string }[];
+}
+
+export function siteDisplayName(siteUrl: string): string {
+    try {
+        return new URL(siteUrl).hostname.replace(/^www\./, '');
+    } catch {
+        return siteUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+    }
+}
+
+/**
+ * Ask the provider MAX_QUESTIONS_PER_BATCH questions at a time, one batch after the other
+ */
+async function getAnswersInBatches(questions: BatchQuestion[], context: AnswerContext): Promise<BatchAnswerResult> {
+    const batches: BatchAnswerResult[] = [];
+    for (let start = 0; start < questions.length; start += MAX_QUESTIONS_PER_BATCH) {
+        batches.push(await getBatchAnswers(questions.slice(start, start + MAX_QUESTIONS_PER_BATCH), context));
+    }
+    return {
+        answers: Object.assign({}, ...batches.map(batch => batch.answers)),
+        provider: batches[0].provider,
+        model: batches[0].model,
+        fallbackIds: batches.flatMap(batch => batch.fallbackIds),
+        lengthChecks: Object.assign({}, ...batches.map(batch => batch.lengthChecks))
+    };
+}
+
+/**
+ * Answer a directory's questions with the active provider and rate each answer, so the summary
+ * covers every question. The directory must have at least one question. `questionIds` (1-based)
+ * answers only those questions, keeping their ids.
+ */
+export async function analyzeSite(site: DirectorySite, appInfo: AppInfo, format: AnswerFormatOptions, questionIds?: number[]): Promise<DirectoryAnalysis> {
+    const batchQuestions: BatchQuestion[] = site.questions.map((question, index) => ({
+        id: index + 1,
+        question: question.question,
+        type: question.type,
+        maxLength: question.maxLength,
+        maxWords: question.maxWords,
+        template: question.template
+    })).filter(question => !questionIds || questionIds.includes(question.id));
+    console.log(`📝 Processing ${batchQuestions.length} questions for ${site.url}`);
+
+    const { answers, provider, model, fallbackIds, lengthChecks } = await getAnswersInBatches(batchQuestions, {
+        appInfo,
+        siteUrl: site.url,
+        siteId: site.id,
+        format
+    });
+
+    const questions: SiteQuestion[] = batchQuestions.map(q => ({
+        ...site.questions[q.id - 1],
+        id: q.id,
+        question: q.question,
+        answer: answers[q.id] || '',
+        questionHash: questionHash(q.question),
+        ...assessAnswer(matchAnswerSource(q, site.id), answers[q.id] || '', lengthChecks[q.id]),
+        ...(lengthChecks[q.id] && { lengthCheck: lengthChecks[q.id] })
+    }));
+    const summary = summarizeAnswers(questions);
+
+    console.log(`✅ Successfully processed ${site.url} with ${questions.length} responses`);
+    if (summary.manualQuestions.length > 0) {
+        console.log(`✍️ ${summary.manualQuestions.length} question(s) need a manual answer for ${site.url}`);
+    }
+
+    return {
+        siteId: site.id,
+        siteUrl: site.url,
+        siteName: siteDisplayName(site.url),
+        ...(site.pack && { pack: site.pack }),
+        questions,
+        summary,
+        metadata: {
+            analyzedAt: new Date().toISOString(),
+            appName: appInfo.name,
+            mode: provider === 'copy' ? 'simple-copy' : 'ai',
+            provider,
+            aiModel: model || 'NONE',
+            fallbackQuestions: fallbackIds,
+            overLimitQuestions: questions.filter(question => question.lengthCheck?.overLimit).map(question => question.id),
+            answerFormat: format,
+            description: provider === 'copy' ? 'Returns exact user input data' : `Answers generated by ${provider}`
+        }
+    };
+}
+
+/**
+ * Run `task` over `items` with at most `concurrency` running at once; results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, task: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Analyze one directory of a bulk run, reporting a failure as an error entry instead of throwing
+ */
+export async function analyzeSiteEntry(site: DirectorySite, appInfo: AppInfo, format: AnswerFormatOptions): Promise<BulkSiteResult> {
+    try {
+        if (site.questions.length === 0) {
+            throw new Error('No questions found for this site');
+        }
+        return { status: 'success', ...await analyzeSite(site, appInfo, format) };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+        console.warn(`⚠️ Failed to analyze ${site.url}: ${message}`);
+        return { status: 'error', siteId: site.id, siteUrl: site.url, siteName: siteDisplayName(site.url), error: message };
+    }
+}
+
+/**
+ * Analyze several directories on the server, `concurrency` at a time. Each directory gets a
+ * success or error entry, in the order given.
+ */
+export async function analyzeSites(sites: DirectorySite[], appInfo: AppInfo, format: AnswerFormatOptions, concurrency: number): Promise<BulkAnalysis> {
+    const startedAt = Date.now();
+    const results = await mapWithConcurrency(sites, concurrency, site => analyzeSiteEntry(site, appInfo, format));
+
+    const failed = results.filter(result => result.status === 'error').length;
+    return { results, succeeded: results.length - failed, failed, durationMs: Date.now() - startedAt };
+}
+
+export function toCustomAnswers(analysis: DirectoryAnalysis): SiteCustomAnswers {
+    return {
+        siteUrl: analysis.siteUrl,
+        siteName: analysis.siteName,
+        questions: analysis.questions.map(({ id, question, answer }) => ({ id, question, answer }))
+    };
+}
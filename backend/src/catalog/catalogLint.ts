@@ -0,0 +1,225 @@
+import { MAX_ROWS } from '../config';
+import { DirectorySite } from '../types';
+import { CatalogIssue, IssueSeverity } from './catalogTypes';
+import { packId } from './packs';
+import { normalizeDirectoryUrl } from './urlNormalizer';
+
+// Character-bigram similarity at or above which two questions count as near-duplicates
+const NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+export interface CatalogFinding {
+    code: string;
+    severity: IssueSeverity;
+    message: string;
+    file?: string;
+    line?: number;
+    sheet?: string;
+    siteId?: string;
+}
+
+export interface CatalogReport {
+    generatedAt: string;
+    dataFile: string;
+    rowCount: number;
+    siteCount: number;
+    maxRows: number;
+    summary: {
+        errors: number;
+        warnings: number;
+    };
+    findings: CatalogFinding[];
+}
+
+export interface CatalogLintInput {
+    dataFile: string;
+    sites: DirectorySite[];
+    rowCount: number;
+    issues: CatalogIssue[];
+    loadError?: string | null;
+}
+
+/**
+ * Exit codes of the catalog lint CLI; warnings only fail it in strict mode
+ */
+export const LINT_EXIT_CODES = {
+    clean: 0,
+    warnings: 1,
+    errors: 2,
+    loadFailed: 3
+} as const;
+
+function normalizeQuestionText(question: string): string {
+    return question.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    const compact = text.replace(/\s+/g, ' ');
+    for (let i = 0; i < compact.length - 1; i++) {
+        const pair = compact.slice(i, i + 2);
+        counts.set(pair, (counts.get(pair) || 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (1 = identical)
+ */
+function similarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    const left = bigrams(a);
+    const right = bigrams(b);
+    let overlap = 0;
+    let total = 0;
+
+    left.forEach((count, pair) => {
+        overlap += Math.min(count, right.get(pair) || 0);
+        total += count;
+    });
+    right.forEach(count => {
+        total += count;
+    });
+    return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+/**
+ * Flag URLs that cannot be a live public directory: placeholders, missing TLDs,
+ * local or private hosts, IP addresses and reserved example domains.
+ */
+function suspiciousUrlReason(url: string): string | null {
+    if (/^Unknown Site \d+$/.test(url)) {
+        return 'row has no URL';
+    }
+
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return 'URL cannot be parsed';
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    const tld = host.split('.').pop() || '';
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+        return `unsupported scheme ${parsed.protocol}`;
+    }
+    if (!host.includes('.')) {
+        return 'host has no domain suffix';
+    }
+    if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith('[')) {
+        return 'host is an IP address';
+    }
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+        return 'host is local';
+    }
+    if (/^(example|test|invalid)$/.test(tld) || /(^|\.)example\.(com|net|org)$/.test(host)) {
+        return 'host is a reserved example domain';
+    }
+    if (!/^[a-z]{2,}$/.test(tld) && !tld.startsWith('xn--')) {
+        return `"${tld}" is not a valid top-level domain`;
+    }
+    return null;
+}
+
+function findDuplicateUrls(sites: DirectorySite[]): CatalogFinding[] {
+    const seen = new Map<string, DirectorySite>();
+    const findings: CatalogFinding[] = [];
+
+    // The same directory may appear in several packs; only repeats within a pack are errors
+    sites.forEach(site => {
+        const key = `${packId(site.pack || '')} ${normalizeDirectoryUrl(site.url)}`;
+        const first = seen.get(key);
+        if (!first) {
+            seen.set(key, site);
+            return;
+        }
+        findings.push({
+            code: 'duplicate-url',
+            severity: 'error',
+            message: `Directory ${site.url} duplicates ${first.url}${first.source ? ` (${first.source.file}:${first.source.line})` : ''}`,
+            ...site.source,
+            siteId: site.id
+        });
+    });
+
+    return findings;
+}
+
+function findNearDuplicateQuestions(site: DirectorySite): CatalogFinding[] {
+    const findings: CatalogFinding[] = [];
+    const normalized = site.questions.map(question => normalizeQuestionText(question.question));
+
+    for (let i = 0; i < normalized.length; i++) {
+        for (let j = i + 1; j < normalized.length; j++) {
+            const score = similarity(normalized[i], normalized[j]);
+            if (score < NEAR_DUPLICATE_THRESHOLD) {
+                continue;
+            }
+            findings.push({
+                code: score === 1 ? 'duplicate-question' : 'near-duplicate-question',
+                severity: 'warning',
+                message: `Questions ${i + 1} ("${site.questions[i].question}") and ${j + 1} ("${site.questions[j].question}") of ${site.url} look like duplicates`,
+                ...site.source,
+                siteId: site.id
+            });
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Check a loaded catalog for data quality problems. Load issues (invalid rows,
+ * over-long questions, rows without questions, rows past MAX_ROWS) are passed
+ * through; duplicate URLs, near-duplicate questions and suspicious URLs are added.
+ */
+export function lintCatalog(input: CatalogLintInput): CatalogReport {
+    const findings: CatalogFinding[] = [];
+
+    if (input.loadError) {
+        findings.push({ code: 'load-failed', severity: 'error', message: input.loadError });
+    }
+
+    findings.push(...input.issues.map(issue => ({ ...issue })));
+    findings.push(...findDuplicateUrls(input.sites));
+
+    input.sites.forEach(site => {
+        const reason = suspiciousUrlReason(site.url);
+        if (reason) {
+            findings.push({
+                code: 'suspicious-url',
+                severity: 'warning',
+                message: `${site.url} looks unreachable: ${reason}`,
+                ...site.source,
+                siteId: site.id
+            });
+        }
+        findings.push(...findNearDuplicateQuestions(site));
+    });
+
+    return {
+        generatedAt: new Date().toISOString(),
+        dataFile: input.dataFile,
+        rowCount: input.rowCount,
+        siteCount: input.sites.length,
+        maxRows: MAX_ROWS,
+        summary: {
+            errors: findings.filter(finding => finding.severity === 'error').length,
+            warnings: findings.filter(finding => finding.severity === 'warning').length
+        },
+        findings
+    };
+}
+
+export function lintExitCode(report: CatalogReport, strict = false): number {
+    if (report.findings.some(finding => finding.code === 'load-failed')) {
+        return LINT_EXIT_CODES.loadFailed;
+    }
+    if (report.summary.errors > 0) {
+        return LINT_EXIT_CODES.errors;
+    }
+    return strict && report.summary.warnings > 0 ? LINT_EXIT_CODES.warnings : LINT_EXIT_CODES.clean;
+}
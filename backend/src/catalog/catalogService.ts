@@ -0,0 +1,351 @@
+import fs from 'fs';
+import path from 'path';
+import { DATA_FILE_PATH } from '../config';
+import { DirectorySite } from '../types';
+import { CatalogReport, lintCatalog } from './catalogLint';
+import { CatalogConflictError, CatalogIssue } from './catalogTypes';
+import { assignDirectoryIds } from './directoryIds';
+import { DirectoryPack, isInPacks, listPacks, packId } from './packs';
+import { DirectorySiteInput } from './siteInput';
+import { getSourceForFile, loadCatalog } from './sources';
+import { normalizeDirectoryUrl } from './urlNormalizer';
+
+const WATCH_INTERVAL_MS = 1000;
+// Where new directories go when DATA_FILE_PATH is an empty directory
+const DEFAULT_NEW_SITES_FILE = 'directories.json';
+
+export interface CatalogStatus {
+    dataFile: string;
+    dataFileExists: boolean;
+    sourceFiles: string[];
+    loaded: boolean;
+    loadedAt: string | null;
+    loadDurationMs: number | null;
+    rowCount: number;
+    siteCount: number;
+    parseErrors: CatalogIssue[];
+    lastError: string | null;
+    watching: boolean;
+}
+
+// Called after every successful load, with the sites and the files they came from
+export type CatalogLoadListener = (sites: DirectorySite[], sourceFiles: string[]) => void;
+
+/**
+ * Keeps the directory catalog in memory and reloads it when the data file
+ * (or any data file in the data directory) changes on disk.
+ */
+export class DirectoryCatalog {
+    private sites: DirectorySite[] = [];
+    private sitesByUrl = new Map<string, DirectorySite[]>();
+    private sourceFiles: string[] = [];
+    private loadedAt: Date | null = null;
+    private loadDurationMs: number | null = null;
+    private rowCount = 0;
+    private parseErrors: CatalogIssue[] = [];
+    private lastError: string | null = null;
+    private watching = false;
+    private watchedPaths = new Set<string>();
+    private loadListeners: CatalogLoadListener[] = [];
+
+    constructor(private readonly filePath: string) {}
+
+    get resolvedPath(): string {
+        return path.resolve(process.cwd(), this.filePath);
+    }
+
+    /**
+     * Parse the data source and swap in the new catalog.
+     * On failure the previously loaded sites are kept.
+     */
+    load(): void {
+        const resolvedPath = this.resolvedPath;
+        const startedAt = Date.now();
+
+        try {
+            if (!fs.existsSync(resolvedPath)) {
+                throw new Error(`Data file not found: ${resolvedPath}`);
+            }
+
+            const result = loadCatalog(resolvedPath);
+
+            this.sites = result.sites;
+            this.sitesByUrl = new Map();
+            result.sites.forEach(site => {
+                const key = normalizeDirectoryUrl(site.url);
+                this.sitesByUrl.set(key, [...(this.sitesByUrl.get(key) || []), site]);
+            });
+            this.sourceFiles = result.files;
+            this.rowCount = result.rowCount;
+            this.parseErrors = result.issues;
+            this.loadedAt = new Date();
+            this.loadDurationMs = Date.now() - startedAt;
+            this.lastError = null;
+
+            console.log(`✅ Successfully loaded ${this.sites.length} directory sites from ${result.files.length} file(s) in ${this.loadDurationMs}ms`);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`❌ Error loading directory data:`, this.lastError);
+        }
+
+        if (!this.lastError) {
+            this.loadListeners.forEach(listener => {
+                try {
+                    listener(this.sites, this.sourceFiles);
+                } catch (error) {
+                    console.error(`❌ Error in catalog load listener:`, error instanceof Error ? error.message : error);
+                }
+            });
+        }
+
+        if (this.watching) {
+            this.syncWatchers();
+        }
+    }
+
+    /**
+     * Run `listener` after every successful load, starting with the next one
+     */
+    onLoad(listener: CatalogLoadListener): void {
+        this.loadListeners.push(listener);
+    }
+
+    /**
+     * Start watching the data source and reload it whenever it changes.
+     */
+    watch(): void {
+        if (this.watching) {
+            return;
+        }
+        this.watching = true;
+        this.syncWatchers();
+    }
+
+    unwatch(): void {
+        this.watchedPaths.forEach(watchedPath => fs.unwatchFile(watchedPath));
+        this.watchedPaths.clear();
+        this.watching = false;
+    }
+
+    /**
+     * Watch the configured path plus every file it resolved to, so files added
+     * to or removed from a data directory are picked up as well.
+     */
+    private syncWatchers(): void {
+        const wanted = new Set([this.resolvedPath, ...this.sourceFiles]);
+
+        this.watchedPaths.forEach(watchedPath => {
+            if (!wanted.has(watchedPath)) {
+                fs.unwatchFile(watchedPath);
+                this.watchedPaths.delete(watchedPath);
+            }
+        });
+
+        wanted.forEach(wantedPath => {
+            if (this.watchedPaths.has(wantedPath)) {
+                return;
+            }
+            fs.watchFile(wantedPath, { interval: WATCH_INTERVAL_MS }, (curr, prev) => {
+                if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) {
+                    return;
+                }
+                console.log(`🔄 ${path.basename(wantedPath)} changed, reloading catalog`);
+                this.load();
+            });
+            this.watchedPaths.add(wantedPath);
+        });
+    }
+
+    getSites(): DirectorySite[] {
+        if (!this.loadedAt && !this.lastError) {
+            this.load();
+        }
+        return this.sites;
+    }
+
+    findSite(id: string): DirectorySite | undefined {
+        return this.getSites().find(site => site.id === id);
+    }
+
+    /**
+     * Exact lookup on the normalized URL (see normalizeDirectoryUrl); no prefix or substring matching.
+     * A directory listed in several packs resolves to its first entry within `packIds`, if given.
+     */
+    findSiteByUrl(url: string, packIds?: string[]): DirectorySite | undefined {
+        this.getSites();
+        const matches = this.sitesByUrl.get(normalizeDirectoryUrl(url)) || [];
+        return packIds ? matches.find(site => isInPacks(site, packIds)) : matches[0];
+    }
+
+    getPacks(): DirectoryPack[] {
+        return listPacks(this.getSites());
+    }
+
+    /**
+     * Add a directory and write it back to the data store.
+     * It joins the given pack (a new sheet or file if the pack does not exist yet), or the first pack.
+     */
+    createSite(input: DirectorySiteInput): DirectorySite {
+        const sites = this.prepareWrite();
+
+        if (input.id && sites.some(site => site.id === input.id)) {
+            throw new CatalogConflictError(`Directory id "${input.id}" already exists`);
+        }
+
+        const packs = listPacks(sites);
+        const existingPack = input.pack ? packs.find(pack => pack.id === packId(input.pack || '')) : packs[0];
+        const pack = existingPack ? existingPack.name : input.pack;
+        if (!existingPack && pack && !this.canCreatePack()) {
+            throw new CatalogConflictError(`Pack "${pack}" does not exist and ${path.basename(this.filePath)} holds a single pack`);
+        }
+        this.assertUniqueUrl(sites.filter(site => site.pack === pack), input.url);
+
+        const [created] = assignDirectoryIds([...sites, { ...input, id: input.id || '', ...(pack && { pack }) }], []).slice(-1);
+        this.persist([...sites, created], [created]);
+        return this.findSite(created.id) || created;
+    }
+
+    /**
+     * Replace a directory's URL, category and/or questions and write it back. Returns null for an unknown id.
+     */
+    updateSite(id: string, changes: Partial<DirectorySiteInput>): DirectorySite | null {
+        const sites = this.prepareWrite();
+        const existing = sites.find(site => site.id === id);
+        if (!existing) {
+            return null;
+        }
+        if (changes.url) {
+            this.assertUniqueUrl(sites.filter(site => site !== existing && site.pack === existing.pack), changes.url);
+        }
+
+        const updated: DirectorySite = {
+            ...existing,
+            ...(changes.url && { url: changes.url }),
+            ...(changes.category !== undefined && { category: changes.category || undefined }),
+            ...(changes.questions && { questions: changes.questions })
+        };
+        this.persist(sites.map(site => site === existing ? updated : site), [existing]);
+        return this.findSite(id) || updated;
+    }
+
+    /**
+     * Remove a directory and write the change back. Returns null for an unknown id.
+     */
+    deleteSite(id: string): DirectorySite | null {
+        const sites = this.prepareWrite();
+        const existing = sites.find(site => site.id === id);
+        if (!existing) {
+            return null;
+        }
+
+        this.persist(sites.filter(site => site !== existing), [existing]);
+        return existing;
+    }
+
+    /**
+     * Re-read the store so edits apply to what is on disk right now.
+     */
+    private prepareWrite(): DirectorySite[] {
+        this.load();
+        if (this.lastError) {
+            throw new CatalogConflictError(`Catalog could not be loaded (${this.lastError}); fix the data file before editing`);
+        }
+        return this.sites;
+    }
+
+    private assertUniqueUrl(sites: DirectorySite[], url: string): void {
+        const key = normalizeDirectoryUrl(url);
+        const duplicate = sites.find(site => normalizeDirectoryUrl(site.url) === key);
+        if (duplicate) {
+            throw new CatalogConflictError(`Directory ${url} already exists with id "${duplicate.id}"`);
+        }
+    }
+
+    /**
+     * Workbooks hold a pack per sheet and data directories a pack per file; other single files hold one pack.
+     */
+    private canCreatePack(): boolean {
+        const resolvedPath = this.resolvedPath;
+        return fs.statSync(resolvedPath).isDirectory() || getSourceForFile(resolvedPath)?.format === 'xlsx';
+    }
+
+    private fileFor(site: DirectorySite): string {
+        const resolvedPath = this.resolvedPath;
+        if (!fs.statSync(resolvedPath).isDirectory()) {
+            return resolvedPath;
+        }
+        if (site.source) {
+            return path.join(resolvedPath, site.source.file);
+        }
+
+        const packFile = this.sites.find(existing => existing.source && existing.pack === site.pack)?.source?.file;
+        if (packFile) {
+            return path.join(resolvedPath, packFile);
+        }
+        if (site.pack) {
+            return path.join(resolvedPath, `${packId(site.pack)}.json`);
+        }
+        return this.sourceFiles[0] || path.join(resolvedPath, DEFAULT_NEW_SITES_FILE);
+    }
+
+    /**
+     * Rewrite the files holding the touched sites, then reload.
+     * Files with unresolved load errors are not rewritten, since their skipped rows would be lost;
+     * rows without questions (warnings) are not carried over.
+     */
+    private persist(sites: DirectorySite[], touched: DirectorySite[]): void {
+        const files = new Set(touched.map(site => this.fileFor(site)));
+
+        files.forEach(file => {
+            const blocking = this.parseErrors.filter(issue => issue.severity === 'error' && issue.file === path.basename(file));
+            if (blocking.length > 0) {
+                throw new CatalogConflictError(
+                    `${path.basename(file)} has ${blocking.length} load issue(s); fix them before editing (first: line ${blocking[0].line}: ${blocking[0].message})`
+                );
+            }
+        });
+
+        files.forEach(file => {
+            const source = getSourceForFile(file);
+            if (!source) {
+                throw new CatalogConflictError(`Cannot write ${path.basename(file)}: unsupported file type`);
+            }
+
+            console.log(`💾 Writing ${source.format.toUpperCase()} file: ${file}`);
+            source.save(file, sites.filter(site => this.fileFor(site) === file));
+        });
+
+        this.load();
+    }
+
+    /**
+     * Data quality report for the catalog as currently loaded
+     */
+    getReport(): CatalogReport {
+        return lintCatalog({
+            dataFile: this.filePath,
+            sites: this.getSites(),
+            rowCount: this.rowCount,
+            issues: this.parseErrors,
+            loadError: this.lastError
+        });
+    }
+
+    getStatus(): CatalogStatus {
+        return {
+            dataFile: this.filePath,
+            dataFileExists: fs.existsSync(this.resolvedPath),
+            sourceFiles: this.sourceFiles.map(file => path.relative(process.cwd(), file)),
+            loaded: this.loadedAt !== null,
+            loadedAt: this.loadedAt ? this.loadedAt.toISOString() : null,
+            loadDurationMs: this.loadDurationMs,
+            rowCount: this.rowCount,
+            siteCount: this.sites.length,
+            parseErrors: this.parseErrors,
+            lastError: this.lastError,
+            watching: this.watching
+        };
+    }
+}
+
+export const directoryCatalog = new DirectoryCatalog(DATA_FILE_PATH);
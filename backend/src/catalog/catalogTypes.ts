@@ -0,0 +1,63 @@
+import { DirectorySite } from '../types';
+import { ValidationError } from '../validation';
+
+// Where a catalog entry came from, for error reporting
+export interface SourceLocation {
+    file: string;
+    sheet?: string;
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface CatalogIssue {
+    file: string;
+    line: number;
+    code: string;
+    severity: IssueSeverity;
+    message: string;
+    sheet?: string;
+}
+
+export interface CatalogParseResult {
+    sites: DirectorySite[];
+    rowCount: number;
+    issues: CatalogIssue[];
+}
+
+/**
+ * Raised when a whole source file cannot be read or parsed.
+ */
+export class CatalogLoadError extends Error {
+    constructor(public readonly reason: string, public readonly file: string, public readonly line?: number) {
+        super(`${file}${line ? `:${line}` : ''}: ${reason}`);
+        this.name = 'CatalogLoadError';
+    }
+}
+
+/**
+ * Build an error-level issue from a row or entry that failed validation.
+ */
+export function issueFromError(location: SourceLocation, line: number, error: unknown): CatalogIssue {
+    return {
+        ...location,
+        line,
+        code: error instanceof ValidationError ? error.code : 'invalid-row',
+        severity: 'error',
+        message: error instanceof Error ? error.message : String(error)
+    };
+}
+
+export function formatIssue(issue: CatalogIssue): string {
+    return `${issue.file}${issue.sheet ? ` [${issue.sheet}]` : ''}:${issue.line}: ${issue.message}`;
+}
+
+/**
+ * Raised when a catalog edit cannot be applied in the current state
+ * (duplicate directory, unreadable data file, rows that would be lost on write).
+ */
+export class CatalogConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CatalogConflictError';
+    }
+}
@@ -0,0 +1,53 @@
+import { DirectorySite } from '../types';
+import { CatalogIssue } from './catalogTypes';
+import { normalizeDirectoryUrl } from './urlNormalizer';
+
+const MAX_ID_LENGTH = 80;
+
+/**
+ * Turn free text into a URL-safe identifier
+ */
+export function slugify(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, MAX_ID_LENGTH);
+}
+
+/**
+ * Derive a readable directory ID from its URL, e.g. https://www.saashub.com/ → saashub-com
+ */
+export function directoryIdFromUrl(url: string): string {
+    return slugify(normalizeDirectoryUrl(url)) || 'directory';
+}
+
+/**
+ * Give every site a unique ID. Explicit IDs from the catalog are kept;
+ * missing ones are derived from the URL and clashes get a numeric suffix.
+ */
+export function assignDirectoryIds(sites: DirectorySite[], issues: CatalogIssue[]): DirectorySite[] {
+    const used = new Set<string>();
+
+    return sites.map(site => {
+        const explicitId = slugify(site.id || '');
+        const baseId = explicitId || directoryIdFromUrl(site.url);
+        let id = baseId;
+        let suffix = 2;
+
+        while (used.has(id)) {
+            id = `${baseId}-${suffix++}`;
+        }
+        used.add(id);
+
+        if (explicitId && id !== explicitId && site.source) {
+            issues.push({
+                ...site.source,
+                code: 'duplicate-id',
+                severity: 'warning',
+                message: `Duplicate directory id "${explicitId}"; using "${id}"`
+            });
+        }
+        return { ...site, id };
+    });
+}
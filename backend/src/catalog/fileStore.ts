@@ -0,0 +1,20 @@
+import fs from 'fs';
+
+/**
+ * Replace a data file atomically: write to a temporary file next to it, keep
+ * the previous version as `<file>.bak`, then rename the new file into place.
+ */
+export function writeFileAtomic(filePath: string, write: (tempPath: string) => void): void {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    try {
+        write(tempPath);
+        if (fs.existsSync(filePath)) {
+            fs.copyFileSync(filePath, `${filePath}.bak`);
+        }
+        fs.renameSync(tempPath, filePath);
+    } catch (error) {
+        fs.rmSync(tempPath, { force: true });
+        throw error;
+    }
+}
@@ -0,0 +1,68 @@
+import { DirectorySite } from '../types';
+import { slugify } from './directoryIds';
+
+/**
+ * A named group of directories: one workbook sheet, or one CSV/JSON/YAML file.
+ */
+export interface DirectoryPack {
+    id: string;
+    name: string;
+    siteCount: number;
+    sources: { file: string; sheet?: string }[];
+}
+
+export function packId(name: string): string {
+    return slugify(name);
+}
+
+export function isInPacks(site: DirectorySite, packIds: string[]): boolean {
+    return packIds.includes(packId(site.pack || ''));
+}
+
+/**
+ * Read a `pack` parameter (a comma-separated string or a list of names/ids) into pack ids.
+ * Returns undefined when no pack was requested, meaning every pack.
+ */
+export function parsePackParam(value: unknown): string[] | undefined {
+    const values = Array.isArray(value) ? value : [value];
+    const ids = values
+        .filter((item): item is string => typeof item === 'string')
+        .flatMap(item => item.split(','))
+        .map(packId)
+        .filter(id => id.length > 0);
+
+    return ids.length > 0 ? [...new Set(ids)] : undefined;
+}
+
+/**
+ * Group the catalog into packs, in the order they were loaded
+ */
+export function listPacks(sites: DirectorySite[]): DirectoryPack[] {
+    const packs = new Map<string, DirectoryPack>();
+
+    sites.forEach(site => {
+        const name = site.pack || '';
+        const id = packId(name);
+        let pack = packs.get(id);
+        if (!pack) {
+            pack = { id, name, siteCount: 0, sources: [] };
+            packs.set(id, pack);
+        }
+        pack.siteCount++;
+
+        const file = site.source?.file;
+        const sheet = site.source?.sheet;
+        if (file && !pack.sources.some(source => source.file === file && source.sheet === sheet)) {
+            pack.sources.push({ file, ...(sheet && { sheet }) });
+        }
+    });
+
+    return [...packs.values()];
+}
+
+/**
+ * Requested pack ids that do not exist in the catalog
+ */
+export function findUnknownPacks(requested: string[], packs: DirectoryPack[]): string[] {
+    return requested.filter(id => !packs.some(pack => pack.id === id));
+}
@@ -0,0 +1,227 @@
+import { compileTemplate } from '../answers/answerTemplates';
+import { DirectoryQuestion, QuestionFieldType } from '../types';
+import { validateQuestion } from '../validation';
+
+const FIELD_TYPES: QuestionFieldType[] = [
+    'text', 'textarea', 'url', 'email', 'select', 'multiselect', 'date', 'number', 'boolean', 'file'
+];
+
+// Common spreadsheet spellings of each field type
+const FIELD_TYPE_ALIASES: Record<string, QuestionFieldType> = {
+    string: 'text',
+    input: 'text',
+    longtext: 'textarea',
+    paragraph: 'textarea',
+    link: 'url',
+    website: 'url',
+    'e-mail': 'email',
+    dropdown: 'select',
+    choice: 'select',
+    checkbox: 'boolean',
+    yesno: 'boolean',
+    'yes/no': 'boolean',
+    tags: 'multiselect',
+    upload: 'file',
+    image: 'file'
+};
+
+export interface RawQuestionSchema {
+    question: unknown;
+    type?: unknown;
+    required?: unknown;
+    maxLength?: unknown;
+    maxWords?: unknown;
+    options?: unknown;
+    placeholder?: unknown;
+    template?: unknown;
+}
+
+/**
+ * Split a legacy comma-separated question list.
+ * Newline-separated lists are split on newlines; otherwise commas inside
+ * parentheses or brackets do not start a new question.
+ */
+export function splitQuestionList(value: string): string[] {
+    const lines = value.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    if (lines.length > 1) {
+        return lines;
+    }
+
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of value) {
+        if (char === '(' || char === '[') {
+            depth++;
+        } else if ((char === ')' || char === ']') && depth > 0) {
+            depth--;
+        }
+
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+
+    return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Guess a field type from the question wording, used when the catalog does not declare one.
+ * Compound questions ("About you (name, email, ...)") stay free text.
+ */
+export function inferFieldType(question: string): QuestionFieldType {
+    const q = question.toLowerCase();
+
+    if (q.includes(',')) {
+        return 'text';
+    }
+    if (q.includes('email') || q.includes('e-mail')) {
+        return 'email';
+    }
+    if (q.includes('logo') || q.includes('upload') || q.includes('screenshot')) {
+        return 'file';
+    }
+    if (q.includes('url') || q.includes('website') || q.includes('link')) {
+        return 'url';
+    }
+    if (q.includes('date')) {
+        return 'date';
+    }
+    return 'text';
+}
+
+export function parseFieldType(value: unknown): QuestionFieldType | undefined {
+    if (value === undefined || value === null || String(value).trim() === '') {
+        return undefined;
+    }
+
+    const normalized = String(value).trim().toLowerCase();
+    if ((FIELD_TYPES as string[]).includes(normalized)) {
+        return normalized as QuestionFieldType;
+    }
+    if (FIELD_TYPE_ALIASES[normalized]) {
+        return FIELD_TYPE_ALIASES[normalized];
+    }
+    throw new Error(`Unknown field type "${value}" (expected one of ${FIELD_TYPES.join(', ')})`);
+}
+
+export function parseRequired(value: unknown): boolean {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    if (value === undefined || value === null) {
+        return false;
+    }
+    return ['yes', 'y', 'true', '1', 'required', '*'].includes(String(value).trim().toLowerCase());
+}
+
+export function parseMaxLength(value: unknown, unit = 'max length'): number | undefined {
+    if (value === undefined || value === null || String(value).trim() === '') {
+        return undefined;
+    }
+
+    const maxLength = Number(value);
+    if (!Number.isInteger(maxLength) || maxLength <= 0) {
+        throw new Error(`Invalid ${unit} "${value}" (expected a positive whole number)`);
+    }
+    return maxLength;
+}
+
+/**
+ * Read character and word limits. A max length written as "500 words" is a word limit;
+ * "160 chars" or "160 characters" is the same as 160.
+ */
+export function parseLengthLimits(maxLength: unknown, maxWords: unknown): { maxLength?: number; maxWords?: number } {
+    const text = typeof maxLength === 'string' ? maxLength.trim().toLowerCase() : '';
+    const wordLimit = text.match(/^(\d+)\s*words?$/);
+    const charLimit = text.match(/^(\d+)\s*(?:chars?|characters?)$/);
+
+    const words = parseMaxLength(wordLimit ? wordLimit[1] : maxWords, 'max words');
+    const chars = wordLimit ? undefined : parseMaxLength(charLimit ? charLimit[1] : maxLength);
+    return {
+        ...(chars !== undefined && { maxLength: chars }),
+        ...(words !== undefined && { maxWords: words })
+    };
+}
+
+/**
+ * Options may be given as an array or as a "|" or ";" separated string.
+ */
+export function parseOptions(value: unknown): string[] | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    const items = Array.isArray(value) ? value.map(String) : String(value).split(/[|;\n]/);
+    const options = items.map(option => option.trim()).filter(option => option.length > 0);
+    return options.length > 0 ? options : undefined;
+}
+
+/**
+ * An answer template is checked when the catalog loads, so a typo in a field name is
+ * reported against its row instead of producing an empty answer later.
+ */
+export function parseTemplate(value: unknown): string | undefined {
+    if (value === undefined || value === null || String(value).trim() === '') {
+        return undefined;
+    }
+    const template = String(value).trim();
+    compileTemplate(template);
+    return template;
+}
+
+/**
+ * A trailing "*" on a question label ("Email*") marks it required, as on the forms it was copied from.
+ */
+export function splitRequiredMarker(label: string): { label: string; required: boolean } {
+    const match = label.match(/^([\s\S]*?)\s*\*+\s*$/);
+    return match ? { label: match[1], required: true } : { label, required: false };
+}
+
+/**
+ * Validate a raw question definition and fill in defaults.
+ */
+export function normalizeQuestion(raw: RawQuestionSchema): DirectoryQuestion {
+    const marked = splitRequiredMarker(raw.question === undefined || raw.question === null ? '' : String(raw.question));
+    const question = validateQuestion(marked.label);
+    const options = parseOptions(raw.options);
+    const type = parseFieldType(raw.type) || (options ? 'select' : inferFieldType(question));
+    const limits = parseLengthLimits(raw.maxLength, raw.maxWords);
+    const placeholder = raw.placeholder === undefined || raw.placeholder === null ? '' : String(raw.placeholder).trim();
+    const template = parseTemplate(raw.template);
+
+    if ((type === 'select' || type === 'multiselect') && !options) {
+        throw new Error(`Question "${question}" is a ${type} but has no options`);
+    }
+
+    return {
+        question,
+        type,
+        required: marked.required || parseRequired(raw.required),
+        ...limits,
+        ...(options && { options }),
+        ...(placeholder && { placeholder }),
+        ...(template && { template })
+    };
+}
+
+/**
+ * Compact form of a question for JSON/YAML catalogs: plain text when it only
+ * carries the defaults that would be inferred on load anyway.
+ */
+export function serializeQuestion(question: DirectoryQuestion): string | DirectoryQuestion {
+    const onlyDefaults = question.type === inferFieldType(question.question)
+        && !question.required
+        && question.maxLength === undefined
+        && question.maxWords === undefined
+        && question.options === undefined
+        && question.placeholder === undefined
+        && question.template === undefined;
+
+    return onlyDefaults ? question.question : question;
+}
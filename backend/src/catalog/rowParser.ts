@@ -0,0 +1,397 @@
+import { MAX_ROWS } from '../config';
+import { DirectorySite } from '../types';
+import { validateAndSanitizeUrl } from '../validation';
+import { CatalogConflictError, CatalogIssue, CatalogParseResult, formatIssue, issueFromError, SourceLocation } from './catalogTypes';
+import { inferFieldType, normalizeQuestion, splitQuestionList } from './questionSchema';
+import { isSameDirectoryUrl, normalizeDirectoryUrl } from './urlNormalizer';
+
+type CatalogColumn = 'id' | 'url' | 'category' | 'questions' | 'question' | 'type' | 'required' | 'maxLength' | 'maxWords' | 'options' | 'placeholder' | 'template';
+
+type ColumnMap = Partial<Record<CatalogColumn, number>>;
+
+const COLUMN_ALIASES: Record<CatalogColumn, string[]> = {
+    id: ['id', 'directory_id'],
+    category: ['category', 'directory_category'],
+    url: ['directory_website', 'directory', 'website', 'url', 'site', 'site_url'],
+    questions: ['list_of_questions', 'questions'],
+    question: ['question', 'question_text'],
+    type: ['type', 'field_type', 'question_type'],
+    required: ['required', 'is_required'],
+    maxLength: ['max_length', 'maxlength', 'char_limit', 'character_limit', 'max_chars'],
+    maxWords: ['max_words', 'maxwords', 'word_limit'],
+    options: ['options', 'choices', 'allowed_options'],
+    placeholder: ['placeholder', 'hint'],
+    template: ['template', 'answer_template']
+};
+
+function normalizeHeader(cell: unknown): string {
+    return String(cell ?? '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Map known column names in the header row to their index.
+ * Sheets without a recognised header fall back to the legacy [url, questions] layout.
+ */
+export function mapColumns(header: unknown[]): ColumnMap {
+    const normalized = header.map(normalizeHeader);
+    const columns: ColumnMap = {};
+
+    (Object.keys(COLUMN_ALIASES) as CatalogColumn[]).forEach(column => {
+        const index = normalized.findIndex(cell => COLUMN_ALIASES[column].includes(cell));
+        if (index !== -1) {
+            columns[column] = index;
+        }
+    });
+
+    if (columns.url === undefined) {
+        columns.url = 0;
+    }
+    if (columns.questions === undefined && columns.question === undefined) {
+        columns.questions = 1;
+    }
+    return columns;
+}
+
+function cell(row: unknown[], index: number | undefined): unknown {
+    return index === undefined ? undefined : row[index];
+}
+
+function cellText(row: unknown[], index: number | undefined): string {
+    const value = cell(row, index);
+    return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * Structure raw sheet rows (header first) into directory sites.
+ * `lines` maps each row index to its line in the source file; it defaults to the row position.
+ *
+ * Two layouts are supported:
+ * - legacy: one row per directory with a comma-separated `list_of_questions` cell; a trailing `*`
+ *   marks a question required
+ * - per-question: one row per question with `question`, `type`, `required`,
+ *   `max_length`, `max_words`, `options` and `placeholder` columns; a blank URL cell continues
+ *   the previous directory. Rows are grouped by their `id` cell, or by URL when it is blank,
+ *   so two directories sharing a URL stay apart as long as their ids differ.
+ */
+export function parseDirectoryRows(rows: unknown[][], location: SourceLocation, lines?: number[]): CatalogParseResult {
+    const { rowIndexes, ...result } = groupDirectoryRows(rows, location, lines);
+    return result;
+}
+
+/**
+ * parseDirectoryRows, also returning the indexes in `rows` each directory was read from
+ */
+function groupDirectoryRows(rows: unknown[][], location: SourceLocation, lines?: number[]): CatalogParseResult & { rowIndexes: Map<DirectorySite, number[]> } {
+    const columns = mapColumns(rows[0] || []);
+    const perQuestion = columns.question !== undefined;
+    const sites: DirectorySite[] = [];
+    const sitesByKey = new Map<string, DirectorySite>();
+    const rowIndexes = new Map<DirectorySite, number[]>();
+    const issues: CatalogIssue[] = [];
+    let rowCount = 0;
+    let currentSite: DirectorySite | null = null;
+
+    rows.slice(1, MAX_ROWS + 1).forEach((row, index) => {
+        const rowNumber = lines ? lines[index + 1] : index + 2;
+        if (!row || !row.some(value => String(value ?? '').trim() !== '')) {
+            return;
+        }
+        rowCount++;
+
+        try {
+            const urlText = cellText(row, columns.url);
+            const category = cellText(row, columns.category);
+
+            if (!perQuestion) {
+                const siteUrl = urlText ? validateAndSanitizeUrl(urlText) : `Unknown Site ${rowNumber}`;
+                const questionsString = cellText(row, columns.questions);
+
+                const site: DirectorySite = {
+                    id: cellText(row, columns.id),
+                    url: siteUrl,
+                    ...(category && { category }),
+                    questions: splitQuestionList(questionsString).map(question => normalizeQuestion({ question })),
+                    source: { ...location, line: rowNumber }
+                };
+                sites.push(site);
+                rowIndexes.set(site, [index + 1]);
+                return;
+            }
+
+            if (urlText) {
+                const siteUrl = validateAndSanitizeUrl(urlText);
+                const id = cellText(row, columns.id);
+                const key = id ? `id ${id}` : `url ${normalizeDirectoryUrl(siteUrl)}`;
+                currentSite = sitesByKey.get(key) || null;
+                if (!currentSite) {
+                    currentSite = {
+                        id,
+                        url: siteUrl,
+                        ...(category && { category }),
+                        questions: [],
+                        source: { ...location, line: rowNumber }
+                    };
+                    sitesByKey.set(key, currentSite);
+                    sites.push(currentSite);
+                    rowIndexes.set(currentSite, []);
+                }
+            }
+
+            if (!currentSite) {
+                throw new Error('Question row has no directory URL');
+            }
+            rowIndexes.get(currentSite)!.push(index + 1);
+
+            if (cellText(row, columns.question)) {
+                currentSite.questions.push(normalizeQuestion({
+                    question: cell(row, columns.question),
+                    type: cell(row, columns.type),
+                    required: cell(row, columns.required),
+                    maxLength: cell(row, columns.maxLength),
+                    maxWords: cell(row, columns.maxWords),
+                    options: cell(row, columns.options),
+                    placeholder: cell(row, columns.placeholder),
+                    template: cell(row, columns.template)
+                }));
+            }
+        } catch (rowError) {
+            const issue = issueFromError(location, rowNumber, rowError);
+            console.warn(`⚠️ Skipping row: ${formatIssue(issue)}`);
+            issues.push(issue);
+        }
+    });
+
+    const ignoredRows = rows.slice(MAX_ROWS + 1).filter(row => row && row.some(value => String(value ?? '').trim() !== ''));
+    if (ignoredRows.length > 0) {
+        issues.push({
+            ...location,
+            line: lines ? lines[MAX_ROWS + 1] : MAX_ROWS + 2,
+            code: 'row-limit',
+            severity: 'error',
+            message: `${ignoredRows.length} row(s) past the ${MAX_ROWS}-row limit were ignored`
+        });
+    }
+
+    return { sites, rowCount, issues, rowIndexes };
+}
+
+/**
+ * Remove directories that ended up without questions, reporting each as a warning.
+ * Call after any schema merge so directories completed by a schema sheet are kept.
+ */
+export function dropEmptySites(result: CatalogParseResult): CatalogParseResult {
+    const issues = [...result.issues];
+    const sites = result.sites.filter(site => {
+        if (site.questions.length > 0) {
+            return true;
+        }
+        issues.push({
+            file: site.source?.file || '',
+            ...(site.source?.sheet && { sheet: site.source.sheet }),
+            line: site.source?.line || 1,
+            code: 'no-questions',
+            severity: 'warning',
+            message: `Directory ${site.url} has no questions and was skipped`
+        });
+        return false;
+    });
+
+    return { ...result, sites, issues };
+}
+
+/**
+ * Overlay per-question definitions (e.g. from a schema sheet) onto the directory list.
+ * A directory that has schema rows takes its questions from them; unknown directories are appended.
+ */
+export function mergeQuestionSchemas(sites: DirectorySite[], schemaSites: DirectorySite[]): DirectorySite[] {
+    const merged = sites.map(site => ({ ...site }));
+
+    schemaSites.forEach(schemaSite => {
+        const existing = merged.filter(site => isSameDirectoryUrl(site.url, schemaSite.url));
+
+        if (existing.length === 0) {
+            merged.push({ ...schemaSite });
+            return;
+        }
+        existing.forEach(site => {
+            site.questions = schemaSite.questions;
+        });
+    });
+
+    return merged;
+}
+
+// Header of a sheet or file created by a catalog edit
+const QUESTION_ROW_HEADER = ['id', 'directory_website', 'category', 'question', 'type', 'required', 'max_length', 'max_words', 'options', 'placeholder', 'template'];
+
+// Header written for a per-question column a sheet does not have yet
+const COLUMN_HEADERS: Record<CatalogColumn, string> = {
+    id: 'id',
+    url: 'directory_website',
+    category: 'category',
+    questions: 'list_of_questions',
+    question: 'question',
+    type: 'type',
+    required: 'required',
+    maxLength: 'max_length',
+    maxWords: 'max_words',
+    options: 'options',
+    placeholder: 'placeholder',
+    template: 'template'
+};
+
+function isBlankRow(row: unknown[] | undefined): boolean {
+    return !row || !row.some(value => String(value ?? '').trim() !== '');
+}
+
+function sameDirectory(a: DirectorySite, b: DirectorySite): boolean {
+    return a.url === b.url
+        && (a.category || '') === (b.category || '')
+        && JSON.stringify(a.questions) === JSON.stringify(b.questions);
+}
+
+/**
+ * Apply a catalog edit to the raw rows (header first) of one sheet or file, leaving the rows of every
+ * other directory as they are. `sites` are the directories the rows should hold after the edit: loaded
+ * ones still carry their `source.line`, new ones are appended. Rows that hold no loaded directory
+ * (e.g. one without questions, or one that failed validation) are kept. Returns `rows` itself when
+ * nothing changes.
+ *
+ * Directories whose questions come from `schemaSites` (a workbook's question schema sheet) cannot be
+ * changed here, and one-cell question lists cannot hold question types or limits; both are refused.
+ */
+export function applyDirectoryEdits(
+    rows: unknown[][],
+    sites: DirectorySite[],
+    location: SourceLocation,
+    schemaSites: DirectorySite[] = [],
+    lines?: number[]
+): unknown[][] {
+    const where = location.sheet ? `Sheet "${location.sheet}"` : location.file;
+    const header = rows.length > 0 ? [...rows[0]] : [...QUESTION_ROW_HEADER];
+    const columns = mapColumns(header);
+    const perQuestion = columns.question !== undefined;
+    const parsed = groupDirectoryRows(rows.length > 0 ? rows : [header], location, lines);
+
+    const hasSchema = (site: DirectorySite) => schemaSites.some(schemaSite => isSameDirectoryUrl(schemaSite.url, site.url));
+    // What the catalog loaded for each directory, with any schema questions applied
+    const loaded = new Map(parsed.sites.map(site => [site.source!.line, mergeQuestionSchemas([site], schemaSites)[0]]));
+
+    const column = (name: CatalogColumn): number => {
+        if (columns[name] === undefined) {
+            columns[name] = header.length;
+            header.push(COLUMN_HEADERS[name]);
+        }
+        return columns[name]!;
+    };
+
+    const rowsFor = (site: DirectorySite, original?: unknown[]): unknown[][] => {
+        const directoryCells = (row: unknown[]): unknown[] => {
+            if (columns.id !== undefined) {
+                row[columns.id] = site.id;
+            }
+            row[columns.url!] = site.url;
+            if (site.category || columns.category !== undefined) {
+                row[column('category')] = site.category || '';
+            }
+            return row;
+        };
+
+        if (!perQuestion) {
+            const questions = site.questions.map(question => question.required ? `${question.question}*` : question.question).join('\n');
+            const reread = splitQuestionList(questions).map(question => normalizeQuestion({ question }));
+            if (JSON.stringify(reread) !== JSON.stringify(site.questions)) {
+                throw new CatalogConflictError(
+                    `${where} lists each directory's questions in one cell, which cannot hold the question types or limits of ${site.url}; add a "question" column to use them`
+                );
+            }
+            const row = directoryCells(original ? [...original] : []);
+            row[columns.questions!] = questions;
+            return [row];
+        }
+
+        return site.questions.map(question => {
+            const row = directoryCells([]);
+            row[columns.question!] = question.question;
+            const inferred = question.options ? 'select' : inferFieldType(question.question);
+            if (question.type !== inferred || columns.type !== undefined) {
+                row[column('type')] = question.type;
+            }
+            const cells: [CatalogColumn, string][] = [
+                ['required', question.required ? 'yes' : ''],
+                ['maxLength', question.maxLength ? String(question.maxLength) : ''],
+                ['maxWords', question.maxWords ? String(question.maxWords) : ''],
+                ['options', question.options ? question.options.join(' | ') : ''],
+                ['placeholder', question.placeholder || ''],
+                ['template', question.template || '']
+            ];
+            cells.forEach(([name, value]) => {
+                if (value || columns[name] !== undefined) {
+                    row[column(name)] = value;
+                }
+            });
+            return row;
+        });
+    };
+
+    // Rows to replace, keyed by the first row of each changed or removed directory
+    const replaced = new Map<number, unknown[][]>();
+    const removed = new Set<number>();
+    const appended: unknown[][] = [];
+    const kept = new Set<DirectorySite>();
+
+    const refuseSchemaEdit = (site: DirectorySite) => {
+        throw new CatalogConflictError(`The questions of ${site.url} come from the question schema sheet; edit that sheet instead`);
+    };
+
+    sites.forEach(site => {
+        const previous = site.source ? loaded.get(site.source.line) : undefined;
+        const original = previous && parsed.sites.find(parsedSite => parsedSite.source!.line === site.source!.line);
+        if (!previous || !original) {
+            appended.push(...rowsFor(site));
+            return;
+        }
+
+        kept.add(original);
+        if (sameDirectory(previous, site)) {
+            return;
+        }
+        if (hasSchema(previous)) {
+            refuseSchemaEdit(previous);
+        }
+        const indexes = parsed.rowIndexes.get(original)!;
+        indexes.forEach(index => removed.add(index));
+        replaced.set(indexes[0], rowsFor(site, rows[indexes[0]]));
+    });
+
+    parsed.sites
+        .filter(site => !kept.has(site) && loaded.get(site.source!.line)!.questions.length > 0)
+        .forEach(site => {
+            if (hasSchema(site)) {
+                refuseSchemaEdit(site);
+            }
+            parsed.rowIndexes.get(site)!.forEach(index => removed.add(index));
+        });
+
+    if (removed.size === 0 && appended.length === 0) {
+        return rows;
+    }
+
+    const edited: unknown[][] = [header];
+    rows.slice(1).forEach((row, position) => {
+        const index = position + 1;
+        if (replaced.has(index)) {
+            edited.push(...replaced.get(index)!);
+        } else if (!removed.has(index)) {
+            edited.push(row);
+        }
+    });
+
+    // New directories go after the last non-blank row
+    let end = edited.length;
+    while (end > 1 && isBlankRow(edited[end - 1])) {
+        end--;
+    }
+    edited.splice(end, 0, ...appended);
+    return edited;
+}
@@ -0,0 +1,114 @@
+import { DirectoryQuestion } from '../types';
+import { validateAndSanitizeUrl } from '../validation';
+import { slugify } from './directoryIds';
+import { normalizeQuestion, RawQuestionSchema } from './questionSchema';
+
+export interface DirectorySiteInput {
+    id?: string;
+    url: string;
+    category?: string;
+    pack?: string;
+    questions: DirectoryQuestion[];
+}
+
+// Pack names double as workbook sheet names, which are limited to 31 characters
+const MAX_PACK_NAME_LENGTH = 31;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate a question from a request body: either plain text or
+ * `{ question, type, required, maxLength, maxWords, options, placeholder, template }`.
+ */
+export function parseQuestionInput(value: unknown): DirectoryQuestion {
+    if (typeof value === 'string') {
+        return normalizeQuestion({ question: value });
+    }
+    if (!isObject(value)) {
+        throw new Error('Question must be a string or an object with a "question" field');
+    }
+    return normalizeQuestion(value as unknown as RawQuestionSchema);
+}
+
+function parseUrlInput(value: unknown): string {
+    if (typeof value !== 'string') {
+        throw new Error('url must be a string');
+    }
+
+    const url = validateAndSanitizeUrl(value);
+    try {
+        new URL(url);
+    } catch {
+        throw new Error(`Invalid URL: ${value}`);
+    }
+    return url;
+}
+
+function parseCategoryInput(value: unknown): string {
+    if (typeof value !== 'string') {
+        throw new Error('category must be a string');
+    }
+    return value.trim();
+}
+
+function parsePackInput(value: unknown): string {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new Error('pack must be a non-empty string');
+    }
+
+    const pack = value.trim();
+    if (pack.length > MAX_PACK_NAME_LENGTH || /[\\/?*:[\]]/.test(pack)) {
+        throw new Error(`pack must be at most ${MAX_PACK_NAME_LENGTH} characters and cannot contain \\ / ? * : [ ]`);
+    }
+    return pack;
+}
+
+function parseQuestionsInput(value: unknown): DirectoryQuestion[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new Error('questions must be a non-empty array');
+    }
+    return value.map((question, index) => {
+        try {
+            return parseQuestionInput(question);
+        } catch (error) {
+            throw new Error(`questions[${index}]: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+}
+
+/**
+ * Validate the body of a create-directory request.
+ */
+export function parseSiteInput(body: unknown): DirectorySiteInput {
+    if (!isObject(body)) {
+        throw new Error('Request body must be a JSON object');
+    }
+
+    return {
+        ...(typeof body.id === 'string' && slugify(body.id) && { id: slugify(body.id) }),
+        url: parseUrlInput(body.url),
+        ...(body.category !== undefined && parseCategoryInput(body.category) && { category: parseCategoryInput(body.category) }),
+        ...(body.pack !== undefined && { pack: parsePackInput(body.pack) }),
+        questions: parseQuestionsInput(body.questions)
+    };
+}
+
+/**
+ * Validate the body of an update-directory request; only the given fields change.
+ */
+export function parseSiteUpdate(body: unknown): Partial<DirectorySiteInput> {
+    if (!isObject(body)) {
+        throw new Error('Request body must be a JSON object');
+    }
+    if (body.url === undefined && body.category === undefined && body.questions === undefined) {
+        throw new Error('Nothing to update: provide url, category and/or questions');
+    }
+
+    return {
+        ...(body.url !== undefined && { url: parseUrlInput(body.url) }),
+        ...(body.category !== undefined && { category: parseCategoryInput(body.category) }),
+        ...(body.questions !== undefined && { questions: parseQuestionsInput(body.questions) })
+    };
+}
@@ -0,0 +1,205 @@
+import { MAX_ROWS } from '../config';
+import { DirectorySite } from '../types';
+import { ValidationError } from '../validation';
+import { isInPacks, parsePackParam } from './packs';
+
+const SORT_FIELDS = ['url', 'id', 'category', 'questionCount'] as const;
+
+type SortField = typeof SORT_FIELDS[number];
+
+export interface SiteQuery {
+    packs?: string[];
+    search?: string;
+    categories?: string[];
+    minQuestions?: number;
+    maxQuestions?: number;
+    sort?: { field: SortField; direction: 'asc' | 'desc' };
+    offset: number;
+    limit: number;
+}
+
+export interface SitePage {
+    total: number;
+    offset: number;
+    limit: number;
+    nextCursor: string | null;
+    sites: DirectorySite[];
+}
+
+export type QueryParams = Record<string, unknown>;
+
+export function firstValue(value: unknown): string | undefined {
+    const raw = Array.isArray(value) ? value[0] : value;
+    return typeof raw === 'string' && raw.trim() !== '' ? raw.trim() : undefined;
+}
+
+export function parseCount(params: QueryParams, name: string, min: number, max: number): number | undefined {
+    const raw = firstValue(params[name]);
+    if (raw === undefined) {
+        return undefined;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+        const range = max === Number.MAX_SAFE_INTEGER ? `of at least ${min}` : `between ${min} and ${max}`;
+        throw new ValidationError(`${name} must be a whole number ${range}`, `invalid-${name}`);
+    }
+    return value;
+}
+
+function encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+    try {
+        const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (Number.isInteger(offset) && offset >= 0) {
+            return offset;
+        }
+    } catch {
+        // fall through to the error below
+    }
+    throw new ValidationError('cursor is invalid', 'invalid-cursor');
+}
+
+/**
+ * Read search, filter, sort and paging options from a request query string:
+ *
+ *   ?pack=ai-tools,saas&q=launch&category=ai,saas&minQuestions=3&maxQuestions=10&sort=-questionCount&limit=20&cursor=...
+ *
+ * `offset` may be used instead of `cursor`. Without `limit` the whole (filtered) list is returned.
+ */
+export function parseSiteQuery(params: QueryParams): SiteQuery {
+    const packs = parsePackParam(params.pack);
+    const search = firstValue(params.q);
+    const categories = firstValue(params.category)
+        ?.split(',')
+        .map(category => category.trim().toLowerCase())
+        .filter(category => category.length > 0);
+    const minQuestions = parseCount(params, 'minQuestions', 0, Number.MAX_SAFE_INTEGER);
+    const maxQuestions = parseCount(params, 'maxQuestions', 0, Number.MAX_SAFE_INTEGER);
+
+    if (minQuestions !== undefined && maxQuestions !== undefined && minQuestions > maxQuestions) {
+        throw new ValidationError('minQuestions cannot be greater than maxQuestions', 'invalid-question-range');
+    }
+
+    let sort: SiteQuery['sort'];
+    const sortParam = firstValue(params.sort);
+    if (sortParam) {
+        const direction = sortParam.startsWith('-') ? 'desc' : 'asc';
+        const field = sortParam.replace(/^[-+]/, '') as SortField;
+        if (!SORT_FIELDS.includes(field)) {
+            throw new ValidationError(`sort must be one of ${SORT_FIELDS.join(', ')} (prefix with - for descending)`, 'invalid-sort');
+        }
+        sort = { field, direction };
+    }
+
+    const cursor = firstValue(params.cursor);
+    const offset = cursor ? decodeCursor(cursor) : parseCount(params, 'offset', 0, Number.MAX_SAFE_INTEGER) ?? 0;
+    const limit = parseCount(params, 'limit', 1, MAX_ROWS) ?? MAX_ROWS;
+
+    return {
+        ...(packs && { packs }),
+        ...(search && { search: search.toLowerCase() }),
+        ...(categories && categories.length > 0 && { categories }),
+        ...(minQuestions !== undefined && { minQuestions }),
+        ...(maxQuestions !== undefined && { maxQuestions }),
+        ...(sort && { sort }),
+        offset,
+        limit
+    };
+}
+
+/**
+ * The same options as a JSON object, e.g. `{ "pack": ["saas"], "category": "ai", "limit": 20 }`;
+ * lists may be arrays or comma-separated strings.
+ */
+export function parseSiteFilter(value: unknown): SiteQuery {
+    if (value === undefined || value === null) {
+        return parseSiteQuery({});
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError('filter must be an object', 'invalid-filter');
+    }
+
+    const params: QueryParams = {};
+    Object.entries(value as Record<string, unknown>).forEach(([name, param]) => {
+        params[name] = Array.isArray(param) ? param.map(String).join(',') : param === null ? undefined : String(param);
+    });
+    return parseSiteQuery(params);
+}
+
+const DEFAULT_SAMPLE_SIZE = 3;
+
+/**
+ * Number of sample questions to include per directory: a whole number, or `all`.
+ */
+export function parseSampleSize(value: unknown): number {
+    const raw = firstValue(value);
+    if (raw === undefined) {
+        return DEFAULT_SAMPLE_SIZE;
+    }
+    if (raw.toLowerCase() === 'all') {
+        return Number.MAX_SAFE_INTEGER;
+    }
+    return parseCount({ sampleSize: raw }, 'sampleSize', 0, Number.MAX_SAFE_INTEGER) as number;
+}
+
+function matchesSearch(site: DirectorySite, search: string): boolean {
+    return site.url.toLowerCase().includes(search)
+        || site.id.includes(search)
+        || (site.category || '').toLowerCase().includes(search)
+        || site.questions.some(question => question.question.toLowerCase().includes(search));
+}
+
+function sortValue(site: DirectorySite, field: SortField): string | number {
+    switch (field) {
+        case 'questionCount':
+            return site.questions.length;
+        case 'category':
+            return (site.category || '').toLowerCase();
+        case 'id':
+            return site.id;
+        default:
+            return site.url.toLowerCase();
+    }
+}
+
+/**
+ * Apply a parsed query to the catalog; the result keeps catalog order unless sorted.
+ */
+export function querySites(sites: DirectorySite[], query: SiteQuery): SitePage {
+    let matches = sites.filter(site => {
+        const questionCount = site.questions.length;
+        return (!query.packs || isInPacks(site, query.packs))
+            && (!query.search || matchesSearch(site, query.search))
+            && (!query.categories || query.categories.includes((site.category || '').toLowerCase()))
+            && (query.minQuestions === undefined || questionCount >= query.minQuestions)
+            && (query.maxQuestions === undefined || questionCount <= query.maxQuestions);
+    });
+
+    if (query.sort) {
+        const { field, direction } = query.sort;
+        const factor = direction === 'desc' ? -1 : 1;
+        matches = [...matches].sort((a, b) => {
+            const left = sortValue(a, field);
+            const right = sortValue(b, field);
+            if (left === right) {
+                return 0;
+            }
+            return (left < right ? -1 : 1) * factor;
+        });
+    }
+
+    const page = matches.slice(query.offset, query.offset + query.limit);
+    const nextOffset = query.offset + page.length;
+
+    return {
+        total: matches.length,
+        offset: query.offset,
+        limit: query.limit,
+        nextCursor: nextOffset < matches.length ? encodeCursor(nextOffset) : null,
+        sites: page
+    };
+}
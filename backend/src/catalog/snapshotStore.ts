@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import path from 'path';
+import { CatalogSnapshot } from '@directory-bot/contract';
+import { database, SqliteDatabase } from '../db/database';
+import { DirectorySite } from '../types';
+
+interface SnapshotRow {
+    id: number;
+    content_hash: string;
+    site_count: number;
+    question_count: number;
+    source_files: string;
+    created_at: string;
+}
+
+function toSnapshot(row: SnapshotRow): CatalogSnapshot {
+    return {
+        id: row.id,
+        siteCount: row.site_count,
+        questionCount: row.question_count,
+        sourceFiles: JSON.parse(row.source_files),
+        contentHash: row.content_hash,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Copies of the directory catalog in the `catalog_snapshots` table, one per distinct content,
+ * so past analysis runs can be traced back to the questions they answered
+ */
+export class CatalogSnapshotStore {
+    constructor(private readonly database: SqliteDatabase) {}
+
+    /**
+     * Save the catalog unless it matches the latest snapshot. Where each site was read from
+     * is left out, so moving rows between files alone makes no new snapshot.
+     */
+    record(sites: DirectorySite[], sourceFiles: string[]): CatalogSnapshot | undefined {
+        const content = JSON.stringify(sites.map(({ source, ...site }) => site));
+        const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+        const latest = this.list(1)[0];
+        if (latest?.contentHash === contentHash) {
+            return undefined;
+        }
+
+        const files = sourceFiles.map(file => path.relative(process.cwd(), file));
+        const questionCount = sites.reduce((count, site) => count + site.questions.length, 0);
+        const { lastInsertRowid } = this.database.connection.prepare(`
+            INSERT INTO catalog_snapshots (content_hash, site_count, question_count, source_files, sites, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(contentHash, sites.length, questionCount, JSON.stringify(files), content, new Date().toISOString());
+        return this.get(Number(lastInsertRowid));
+    }
+
+    get(id: number): CatalogSnapshot | undefined {
+        const row = this.database.connection
+            .prepare('SELECT id, content_hash, site_count, question_count, source_files, created_at FROM catalog_snapshots WHERE id = ?')
+            .get(id) as SnapshotRow | undefined;
+        return row && toSnapshot(row);
+    }
+
+    // Newest first
+    list(limit: number): CatalogSnapshot[] {
+        const rows = this.database.connection
+            .prepare('SELECT id, content_hash, site_count, question_count, source_files, created_at FROM catalog_snapshots ORDER BY id DESC LIMIT ?')
+            .all(limit) as SnapshotRow[];
+        return rows.map(toSnapshot);
+    }
+}
+
+export const catalogSnapshots = new CatalogSnapshotStore(database);
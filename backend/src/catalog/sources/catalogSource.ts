@@ -0,0 +1,14 @@
+import { DirectorySite } from '../../types';
+import { CatalogParseResult } from '../catalogTypes';
+
+/**
+ * Adapter that turns one directory data file into validated directory sites.
+ * Whole-file failures throw a CatalogLoadError; bad rows are reported as issues.
+ */
+export interface CatalogSource {
+    format: string;
+    extensions: string[];
+    load(resolvedPath: string): CatalogParseResult;
+    // Write the given sites to the file (atomically, keeping a backup)
+    save(resolvedPath: string, sites: DirectorySite[]): void;
+}
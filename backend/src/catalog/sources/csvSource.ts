@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { CatalogLoadError } from '../catalogTypes';
+import { writeFileAtomic } from '../fileStore';
+import { applyDirectoryEdits, dropEmptySites, parseDirectoryRows } from '../rowParser';
+import { CatalogSource } from './catalogSource';
+
+interface CsvRecords {
+    rows: string[][];
+    lines: number[];
+}
+
+/**
+ * Minimal RFC 4180 parser that also records the line each record starts on,
+ * so quoted cells spanning several lines still report the right location.
+ */
+function parseCsv(content: string, file: string): CsvRecords {
+    const rows: string[][] = [];
+    const lines: number[] = [];
+    const text = content.replace(/^\uFEFF/, '');
+
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+    let quoteLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') {
+                    line++;
+                }
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+            quoteLine = line;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            lines.push(recordLine);
+            row = [];
+            field = '';
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new CatalogLoadError('Unterminated quoted field', file, quoteLine);
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+        lines.push(recordLine);
+    }
+
+    return { rows, lines };
+}
+
+function formatCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export const csvSource: CatalogSource = {
+    format: 'csv',
+    extensions: ['.csv'],
+    load(resolvedPath) {
+        const file = path.basename(resolvedPath);
+        const { rows, lines } = parseCsv(fs.readFileSync(resolvedPath, 'utf8'), file);
+        return dropEmptySites(parseDirectoryRows(rows, { file }, lines));
+    },
+    save(resolvedPath, sites) {
+        const { rows, lines } = fs.existsSync(resolvedPath)
+            ? parseCsv(fs.readFileSync(resolvedPath, 'utf8'), path.basename(resolvedPath))
+            : { rows: [], lines: [] };
+        const edited = applyDirectoryEdits(rows, sites, { file: path.basename(resolvedPath) }, [], lines);
+        if (edited === rows) {
+            return;
+        }
+
+        const content = edited
+            .map(row => row.map(value => formatCsvField(String(value ?? ''))).join(','))
+            .join('\n');
+        writeFileAtomic(resolvedPath, tempPath => fs.writeFileSync(tempPath, `${content}\n`, 'utf8'));
+    }
+};
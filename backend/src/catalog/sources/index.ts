@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import { CatalogIssue, CatalogLoadError, CatalogParseResult } from '../catalogTypes';
+import { assignDirectoryIds } from '../directoryIds';
+import { packId } from '../packs';
+import { normalizeDirectoryUrl } from '../urlNormalizer';
+import { CatalogSource } from './catalogSource';
+import { csvSource } from './csvSource';
+import { jsonSource, yamlSource } from './structuredSource';
+import { xlsxSource } from './xlsxSource';
+
+export type { CatalogSource } from './catalogSource';
+
+const SOURCES: CatalogSource[] = [xlsxSource, csvSource, jsonSource, yamlSource];
+
+export interface CatalogLoadResult extends CatalogParseResult {
+    files: string[];
+}
+
+/**
+ * Pick the source adapter for a data file from its extension.
+ */
+export function getSourceForFile(filePath: string): CatalogSource | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    return SOURCES.find(source => source.extensions.includes(extension));
+}
+
+export function supportedExtensions(): string[] {
+    return SOURCES.flatMap(source => source.extensions);
+}
+
+/**
+ * List the data files a catalog path refers to: the file itself, or every
+ * supported file in a directory (sorted, hidden and temporary files skipped).
+ */
+export function listCatalogFiles(resolvedPath: string): string[] {
+    if (!fs.statSync(resolvedPath).isDirectory()) {
+        return [resolvedPath];
+    }
+
+    return fs.readdirSync(resolvedPath)
+        .filter(name => !name.startsWith('.') && !name.startsWith('~$'))
+        .filter(name => getSourceForFile(name) !== undefined)
+        .sort()
+        .map(name => path.join(resolvedPath, name));
+}
+
+function loadFile(filePath: string): CatalogParseResult {
+    const source = getSourceForFile(filePath);
+    if (!source) {
+        throw new CatalogLoadError(
+            `Unsupported data file type (expected one of ${supportedExtensions().join(', ')})`,
+            path.basename(filePath)
+        );
+    }
+
+    console.log(`📖 Reading ${source.format.toUpperCase()} file: ${filePath}`);
+    try {
+        // Formats without sheets put every directory in a pack named after the file
+        const result = source.load(filePath);
+        const defaultPack = path.parse(filePath).name;
+        return { ...result, sites: result.sites.map(site => site.pack ? site : { ...site, pack: defaultPack }) };
+    } catch (error) {
+        if (error instanceof CatalogLoadError) {
+            throw error;
+        }
+        throw new CatalogLoadError(error instanceof Error ? error.message : String(error), path.basename(filePath));
+    }
+}
+
+/**
+ * Load a single data file, or merge every supported file in a directory.
+ * In directory mode a broken file is reported as an issue and the rest still load;
+ * a directory defined in the same pack by several files takes its definition from the last one.
+ */
+export function loadCatalog(resolvedPath: string): CatalogLoadResult {
+    const files = listCatalogFiles(resolvedPath);
+    const result = files.length === 1 && files[0] === resolvedPath
+        ? { ...loadFile(resolvedPath), files }
+        : mergeCatalogFiles(files);
+
+    return { ...result, sites: assignDirectoryIds(result.sites, result.issues) };
+}
+
+function mergeCatalogFiles(files: string[]): CatalogLoadResult {
+    const sitesByUrl = new Map<string, number>();
+    const result: CatalogLoadResult = { sites: [], rowCount: 0, issues: [], files };
+
+    files.forEach(filePath => {
+        const file = path.basename(filePath);
+        let parsed: CatalogParseResult;
+
+        try {
+            parsed = loadFile(filePath);
+        } catch (error) {
+            const loadError = error as CatalogLoadError;
+            result.issues.push({
+                file,
+                line: loadError.line || 1,
+                code: 'unreadable-file',
+                severity: 'error',
+                message: loadError.reason
+            });
+            return;
+        }
+
+        result.rowCount += parsed.rowCount;
+        result.issues.push(...parsed.issues);
+
+        parsed.sites.forEach(site => {
+            const key = `${packId(site.pack || '')} ${normalizeDirectoryUrl(site.url)}`;
+            const previousIndex = sitesByUrl.get(key);
+            const previous = previousIndex === undefined ? undefined : result.sites[previousIndex].source;
+
+            if (previousIndex !== undefined && previous?.file !== file) {
+                const issue: CatalogIssue = {
+                    file,
+                    line: site.source?.line || 1,
+                    code: 'duplicate-url',
+                    severity: 'error',
+                    message: `Directory ${site.url} is also defined in pack "${site.pack}" by ${previous?.file}:${previous?.line}; using this definition`
+                };
+                result.issues.push(issue);
+                result.sites[previousIndex] = site;
+                return;
+            }
+
+            if (previousIndex === undefined) {
+                sitesByUrl.set(key, result.sites.length);
+            }
+            result.sites.push(site);
+        });
+    });
+
+    return result;
+}
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { isMap, isSeq, LineCounter, Node, parseDocument, stringify } from 'yaml';
+import { MAX_ROWS } from '../../config';
+import { DirectoryQuestion, DirectorySite } from '../../types';
+import { validateAndSanitizeUrl } from '../../validation';
+import { CatalogIssue, CatalogLoadError, CatalogParseResult, formatIssue, issueFromError } from '../catalogTypes';
+import { writeFileAtomic } from '../fileStore';
+import { normalizeQuestion, serializeQuestion, splitQuestionList } from '../questionSchema';
+import { dropEmptySites } from '../rowParser';
+import { CatalogSource } from './catalogSource';
+
+interface RawQuestionEntry {
+    question?: unknown;
+    text?: unknown;
+    type?: unknown;
+    required?: unknown;
+    maxLength?: unknown;
+    max_length?: unknown;
+    maxWords?: unknown;
+    max_words?: unknown;
+    options?: unknown;
+    placeholder?: unknown;
+    template?: unknown;
+}
+
+function lineOf(node: unknown, lineCounter: LineCounter): number {
+    const range = (node as Node | undefined)?.range;
+    return range ? lineCounter.linePos(range[0]).line : 1;
+}
+
+function toQuestion(value: unknown): DirectoryQuestion {
+    if (value !== null && typeof value === 'object') {
+        const entry = value as RawQuestionEntry;
+        return normalizeQuestion({
+            question: entry.question ?? entry.text,
+            type: entry.type,
+            required: entry.required,
+            maxLength: entry.maxLength ?? entry.max_length,
+            maxWords: entry.maxWords ?? entry.max_words,
+            options: entry.options,
+            placeholder: entry.placeholder,
+            template: entry.template
+        });
+    }
+    return normalizeQuestion({ question: value });
+}
+
+/**
+ * Parse a JSON or YAML directory list:
+ *
+ *   directories:
+ *     - url: https://example.com
+ *       questions:
+ *         - Your Name
+ *         - { question: Tagline, type: text, required: true, maxLength: 60 }
+ *
+ * A top-level list of directories is accepted as well. JSON is read with the
+ * YAML parser (a superset) so every entry can be traced back to its line.
+ */
+function parseStructuredFile(resolvedPath: string): CatalogParseResult {
+    const file = path.basename(resolvedPath);
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(fs.readFileSync(resolvedPath, 'utf8'), { lineCounter });
+
+    if (doc.errors.length > 0) {
+        const error = doc.errors[0];
+        const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+        throw new CatalogLoadError(message, file, error.linePos?.[0].line);
+    }
+
+    const entries = isMap(doc.contents) ? doc.contents.get('directories', true) : doc.contents;
+    if (!isSeq(entries)) {
+        throw new CatalogLoadError('Expected a list of directories or a "directories" list', file, lineOf(doc.contents, lineCounter));
+    }
+
+    const sites: DirectorySite[] = [];
+    const issues: CatalogIssue[] = [];
+    const report = (line: number, error: unknown) => {
+        const issue = issueFromError({ file }, line, error);
+        console.warn(`⚠️ Skipping entry: ${formatIssue(issue)}`);
+        issues.push(issue);
+    };
+
+    const items = entries.items.slice(0, MAX_ROWS);
+    if (entries.items.length > MAX_ROWS) {
+        issues.push({
+            file,
+            line: lineOf(entries.items[MAX_ROWS], lineCounter),
+            code: 'row-limit',
+            severity: 'error',
+            message: `${entries.items.length - MAX_ROWS} entries past the ${MAX_ROWS}-entry limit were ignored`
+        });
+    }
+
+    items.forEach(item => {
+        const line = lineOf(item, lineCounter);
+
+        try {
+            if (!isMap(item)) {
+                throw new Error('Directory entry must be an object with "url" and "questions"');
+            }
+
+            const url = item.get('url');
+            const siteUrl = validateAndSanitizeUrl(url === undefined || url === null ? '' : String(url));
+            const questionsNode = item.get('questions', true);
+            const questions: DirectoryQuestion[] = [];
+
+            if (isSeq(questionsNode)) {
+                questionsNode.items.forEach(questionNode => {
+                    try {
+                        const value = (questionNode as Node).toJSON();
+                        questions.push(toQuestion(value));
+                    } catch (questionError) {
+                        report(lineOf(questionNode, lineCounter), questionError);
+                    }
+                });
+            } else if (questionsNode !== undefined && questionsNode !== null) {
+                splitQuestionList(String((questionsNode as Node).toJSON() ?? ''))
+                    .forEach(question => questions.push(normalizeQuestion({ question })));
+            }
+
+            const id = item.get('id');
+            const category = item.get('category');
+            sites.push({
+                id: id === undefined || id === null ? '' : String(id).trim(),
+                url: siteUrl,
+                ...(category !== undefined && category !== null && String(category).trim() && { category: String(category).trim() }),
+                questions,
+                source: { file, line }
+            });
+        } catch (entryError) {
+            report(line, entryError);
+        }
+    });
+
+    return dropEmptySites({ sites, rowCount: items.length, issues });
+}
+
+function toDocument(sites: DirectorySite[]) {
+    return {
+        directories: sites.map(site => ({
+            id: site.id,
+            url: site.url,
+            ...(site.category && { category: site.category }),
+            questions: site.questions.map(serializeQuestion)
+        }))
+    };
+}
+
+export const jsonSource: CatalogSource = {
+    format: 'json',
+    extensions: ['.json'],
+    load: parseStructuredFile,
+    save(resolvedPath, sites) {
+        const content = `${JSON.stringify(toDocument(sites), null, 2)}\n`;
+        writeFileAtomic(resolvedPath, tempPath => fs.writeFileSync(tempPath, content, 'utf8'));
+    }
+};
+
+export const yamlSource: CatalogSource = {
+    format: 'yaml',
+    extensions: ['.yaml', '.yml'],
+    load: parseStructuredFile,
+    save(resolvedPath, sites) {
+        const content = stringify(toDocument(sites));
+        writeFileAtomic(resolvedPath, tempPath => fs.writeFileSync(tempPath, content, 'utf8'));
+    }
+};
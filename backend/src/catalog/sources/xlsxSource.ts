@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import XLSX from 'xlsx';
+import { DirectorySite } from '../../types';
+import { CatalogParseResult } from '../catalogTypes';
+import { writeFileAtomic } from '../fileStore';
+import { applyDirectoryEdits, dropEmptySites, mergeQuestionSchemas, parseDirectoryRows } from '../rowParser';
+import { CatalogSource } from './catalogSource';
+
+// Optional sheet holding one row per question with its form constraints
+const SCHEMA_SHEET_NAMES = ['question_schema', 'questions_schema', 'schema'];
+
+function findSchemaSheetName(workbook: XLSX.WorkBook): string | undefined {
+    return workbook.SheetNames.find(name => SCHEMA_SHEET_NAMES.includes(name.toLowerCase()));
+}
+
+/**
+ * Every sheet except the question schema sheet is loaded as a directory pack named after the sheet
+ */
+export function getPackSheets(workbook: XLSX.WorkBook): string[] {
+    const schemaSheetName = findSchemaSheetName(workbook);
+    const sheetNames = workbook.SheetNames.filter(name => name !== schemaSheetName);
+
+    if (sheetNames.length === 0) {
+        throw new Error("No sheets found in XLSX file");
+    }
+    return sheetNames;
+}
+
+function sheetRows(worksheet: XLSX.WorkSheet): unknown[][] {
+    return XLSX.utils.sheet_to_json(worksheet, { header: 1, blankrows: true, defval: '' }) as unknown[][];
+}
+
+/**
+ * Reads an XLSX workbook and structures it into directory sites, one pack per sheet.
+ * Rows that fail validation are skipped and reported as issues.
+ */
+function parseWorkbookFile(resolvedPath: string): CatalogParseResult {
+    const file = path.basename(resolvedPath);
+    const workbook = XLSX.readFile(resolvedPath);
+    const packSheets = getPackSheets(workbook);
+    console.log(`📊 Using sheet(s): ${packSheets.join(', ')}`);
+
+    const result: CatalogParseResult = { sites: [], rowCount: 0, issues: [] };
+    packSheets.forEach(sheetName => {
+        const parsed = parseDirectoryRows(sheetRows(workbook.Sheets[sheetName]), { file, sheet: sheetName });
+        result.sites.push(...parsed.sites.map(site => ({ ...site, pack: sheetName })));
+        result.rowCount += parsed.rowCount;
+        result.issues.push(...parsed.issues);
+    });
+
+    const schemaSheetName = findSchemaSheetName(workbook);
+    if (!schemaSheetName) {
+        return dropEmptySites(result);
+    }
+
+    // Schema rows apply to matching directories in every pack; unknown directories join the first pack
+    console.log(`📐 Applying question schema sheet: ${schemaSheetName}`);
+    const schema = parseDirectoryRows(sheetRows(workbook.Sheets[schemaSheetName]), { file, sheet: schemaSheetName });
+
+    return dropEmptySites({
+        sites: mergeQuestionSchemas(result.sites, schema.sites.map(site => ({ ...site, pack: packSheets[0] }))),
+        rowCount: result.rowCount,
+        issues: [...result.issues, ...schema.issues]
+    });
+}
+
+/**
+ * Write a catalog edit into the workbook. Only the rows of directories that were added, changed or
+ * removed are rewritten, in each sheet's own layout; other rows and sheets are left as they are.
+ */
+function saveWorkbookFile(resolvedPath: string, sites: DirectorySite[]): void {
+    const file = path.basename(resolvedPath);
+    const workbook = fs.existsSync(resolvedPath) ? XLSX.readFile(resolvedPath) : XLSX.utils.book_new();
+    const schemaSheetName = findSchemaSheetName(workbook);
+    const schemaSites = schemaSheetName
+        ? parseDirectoryRows(sheetRows(workbook.Sheets[schemaSheetName]), { file, sheet: schemaSheetName }).sites
+        : [];
+
+    const sitesBySheet = new Map<string, DirectorySite[]>();
+    workbook.SheetNames
+        .filter(name => name !== schemaSheetName)
+        .forEach(name => sitesBySheet.set(name, []));
+
+    const defaultSheetName = [...sitesBySheet.keys()][0] || 'data';
+    sites.forEach(site => {
+        const sheetName = site.source?.sheet || site.pack || defaultSheetName;
+        sitesBySheet.set(sheetName, [...(sitesBySheet.get(sheetName) || []), site]);
+    });
+
+    let changed = false;
+    sitesBySheet.forEach((sheetSites, sheetName) => {
+        const worksheet = workbook.Sheets[sheetName];
+        // Without defval, empty cells stay empty when the sheet is written back
+        const rows = worksheet
+            ? XLSX.utils.sheet_to_json(worksheet, { header: 1, blankrows: true }) as unknown[][]
+            : [];
+        const edited = applyDirectoryEdits(rows, sheetSites, { file, sheet: sheetName }, schemaSites);
+        if (edited === rows) {
+            return;
+        }
+
+        changed = true;
+        const origin = worksheet?.['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s : { r: 0, c: 0 };
+        const updated = XLSX.utils.sheet_add_aoa({}, edited, { origin });
+        if (worksheet) {
+            workbook.Sheets[sheetName] = updated;
+        } else {
+            XLSX.utils.book_append_sheet(workbook, updated, sheetName);
+        }
+    });
+
+    if (!changed) {
+        return;
+    }
+    const bookType = path.extname(resolvedPath).toLowerCase() === '.xls' ? 'biff8' : 'xlsx';
+    writeFileAtomic(resolvedPath, tempPath => XLSX.writeFile(workbook, tempPath, { bookType }));
+}
+
+export const xlsxSource: CatalogSource = {
+    format: 'xlsx',
+    extensions: ['.xlsx', '.xls'],
+    load: parseWorkbookFile,
+    save: saveWorkbookFile
+};
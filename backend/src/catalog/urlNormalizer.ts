@@ -0,0 +1,45 @@
+const DEFAULT_PORTS: Record<string, string> = {
+    'http:': '80',
+    'https:': '443'
+};
+
+// utm_* campaign parameters only track where a visitor came from. Others, such as
+// `ref` or `source`, can select a different submission form, so they are kept.
+function isTrackingParam(name: string): boolean {
+    return name.toLowerCase().startsWith('utm_');
+}
+
+/**
+ * Canonical key for comparing directory URLs. Ignores the scheme, a leading
+ * `www.`, default ports, a trailing slash, the host's letter case, the fragment
+ * and utm_* parameters; remaining query parameters are sorted. Paths keep their case.
+ *
+ *   HTTPS://www.Example.com:443/Submit/?utm_source=x  →  example.com/Submit
+ */
+export function normalizeDirectoryUrl(url: string): string {
+    const trimmed = url.trim();
+    const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+    let parsed: URL;
+    try {
+        parsed = new URL(withScheme);
+    } catch {
+        const [host, ...rest] = trimmed.replace(/^[a-z]+:\/\//i, '').split('/');
+        return [host.toLowerCase().replace(/^www\./, ''), ...rest].join('/').replace(/\/+$/, '');
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+    const port = parsed.port && parsed.port !== DEFAULT_PORTS[parsed.protocol] ? `:${parsed.port}` : '';
+    const pathname = parsed.pathname.replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+
+    const params = [...parsed.searchParams.entries()]
+        .filter(([name]) => !isTrackingParam(name))
+        .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+    return `${host}${port}${pathname}${query}`;
+}
+
+export function isSameDirectoryUrl(a: string, b: string): boolean {
+    return normalizeDirectoryUrl(a) === normalizeDirectoryUrl(b);
+}
@@ -0,0 +1,58 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Read a numeric setting. The default is used only when the variable is unset or blank, so 0 is kept;
+ * a value that is not a number, not whole when it must be, or out of range stops the server at startup.
+ */
+function numberFromEnv(name: string, fallback: number, { min = -Infinity, max = Infinity, integer = false } = {}): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') {
+        return fallback;
+    }
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min || value > max) {
+        const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+        throw new Error(`${name} must be ${integer ? 'a whole number' : 'a number'} ${range}, got "${raw}"`);
+    }
+    return value;
+}
+
+export const PORT = 3004;
+export const DATA_FILE_PATH = process.env.DATA_FILE_PATH || './data/Directory_Bot.xlsx';
+export const MAPPING_RULES_PATH = process.env.MAPPING_RULES_PATH || './rules/mapping-rules.json';
+// Promoting overrides rewrites the rules file, so it is only allowed when MAPPING_RULES_PATH is set explicitly
+export const MAPPING_RULES_WRITABLE = Boolean(process.env.MAPPING_RULES_PATH);
+// Labelled example questions for the offline similarity matcher, used when no rule matches
+export const QUESTION_CORPUS_PATH = process.env.QUESTION_CORPUS_PATH || './rules/question-corpus.json';
+// Minimum TF-IDF cosine similarity (0-1) for a similarity match
+export const MIN_SIMILARITY = numberFromEnv('MIN_SIMILARITY', 0.35, { min: 0, max: 1 });
+// User corrections (question → field or literal answer), written by /api/overrides
+export const OVERRIDES_PATH = process.env.OVERRIDES_PATH || './data/overrides/answer-overrides.json';
+// Shared secret for admin endpoints (sent as `Authorization: Bearer <token>`); unset disables them
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+// Rule matches below this confidence (0-1) are reported as partial and need the user's review
+export const MIN_MATCH_CONFIDENCE = numberFromEnv('MIN_MATCH_CONFIDENCE', 0.6, { min: 0, max: 1 });
+export const MAX_ROWS = 1000;
+// Questions sent to the answer provider in one request; longer forms are answered in several
+export const MAX_QUESTIONS_PER_BATCH = 10;
+// Bulk analysis (/api/analyze-all): directories analyzed at once, and at most per request
+export const ANALYZE_CONCURRENCY = numberFromEnv('ANALYZE_CONCURRENCY', 3, { min: 1, integer: true });
+export const MAX_SITES_PER_RUN = numberFromEnv('MAX_SITES_PER_RUN', 50, { min: 1, integer: true });
+// SQLite database holding app profiles, analysis jobs with their answers, catalog snapshots and submissions
+export const DATABASE_PATH = process.env.DATABASE_PATH || './data/directory-bot.sqlite';
+// Saved app profiles (/api/profiles) keep their last PROFILE_REVISION_LIMIT revisions, the current one included
+export const PROFILE_REVISION_LIMIT = numberFromEnv('PROFILE_REVISION_LIMIT', 20, { min: 1, integer: true });
+
+// Answer generation: copy (no AI), openai (any OpenAI-compatible API), openrouter or gemini
+export const ANSWER_PROVIDER = (process.env.ANSWER_PROVIDER || 'copy').trim().toLowerCase();
+export const ANSWER_TIMEOUT_MS = numberFromEnv('ANSWER_TIMEOUT_MS', 20000, { min: 1, integer: true });
+// OpenAI-compatible providers; LLM_BASE_URL can point at a local stub server
+export const LLM_BASE_URL = process.env.LLM_BASE_URL || '';
+export const LLM_API_KEY = process.env.LLM_API_KEY || '';
+export const LLM_MODEL = process.env.LLM_MODEL || '';
+export const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || '';
+export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
@@ -0,0 +1,122 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { DATABASE_PATH } from '../config';
+import { Migration, MIGRATIONS } from './migrations';
+
+export interface DatabaseStatus {
+    databaseFile: string;
+    open: boolean;
+    schemaVersion: number;
+    latestVersion: number;
+    // Rows per table, while open
+    rowCounts: Record<string, number>;
+    lastError: string | null;
+}
+
+const COUNTED_TABLES = ['profiles', 'analysis_runs', 'run_answers', 'catalog_snapshots', 'submissions'];
+
+/**
+ * The backend's SQLite database, opened on first use. Pending migrations run when it opens,
+ * each in its own transaction, so a failed migration leaves the schema at the previous version.
+ */
+export class SqliteDatabase {
+    private db: Database.Database | null = null;
+    private schemaVersion = 0;
+    private lastError: string | null = null;
+
+    constructor(private readonly filePath: string, private readonly migrations: Migration[]) {}
+
+    get resolvedPath(): string {
+        return this.filePath === ':memory:' ? this.filePath : path.resolve(process.cwd(), this.filePath);
+    }
+
+    /**
+     * The open connection; opens and migrates the database the first time
+     */
+    get connection(): Database.Database {
+        return this.db || this.open();
+    }
+
+    open(): Database.Database {
+        if (this.db) {
+            return this.db;
+        }
+
+        try {
+            if (this.resolvedPath !== ':memory:') {
+                fs.mkdirSync(path.dirname(this.resolvedPath), { recursive: true });
+            }
+            const db = new Database(this.resolvedPath);
+            try {
+                db.pragma('journal_mode = WAL');
+                db.pragma('foreign_keys = ON');
+                db.pragma('busy_timeout = 5000');
+                this.migrate(db);
+            } catch (error) {
+                db.close();
+                throw error;
+            }
+            this.db = db;
+            this.lastError = null;
+            console.log(`✅ Opened database ${this.filePath} (schema version ${this.schemaVersion})`);
+            return db;
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`❌ Error opening database:`, this.lastError);
+            throw error;
+        }
+    }
+
+    private migrate(db: Database.Database): void {
+        db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )`);
+
+        const applied = new Set(db.prepare('SELECT version FROM schema_migrations').pluck().all() as number[]);
+        const latest = Math.max(0, ...this.migrations.map(migration => migration.version));
+        const newer = [...applied].filter(version => version > latest);
+        if (newer.length > 0) {
+            throw new Error(`${this.filePath} has schema version ${Math.max(...newer)}, newer than this backend's ${latest}`);
+        }
+
+        const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+        [...this.migrations]
+            .sort((a, b) => a.version - b.version)
+            .filter(migration => !applied.has(migration.version))
+            .forEach(migration => {
+                db.transaction(() => {
+                    db.exec(migration.sql);
+                    record.run(migration.version, migration.name, new Date().toISOString());
+                })();
+                console.log(`🗄️ Applied database migration ${migration.version}: ${migration.name}`);
+            });
+        this.schemaVersion = latest;
+    }
+
+    close(): void {
+        this.db?.close();
+        this.db = null;
+    }
+
+    getStatus(): DatabaseStatus {
+        const rowCounts: Record<string, number> = {};
+        if (this.db) {
+            COUNTED_TABLES.forEach(table => {
+                rowCounts[table] = this.db!.prepare(`SELECT COUNT(*) FROM ${table}`).pluck().get() as number;
+            });
+        }
+        return {
+            databaseFile: this.filePath,
+            open: this.db !== null,
+            schemaVersion: this.schemaVersion,
+            latestVersion: Math.max(0, ...this.migrations.map(migration => migration.version)),
+            rowCounts,
+            lastError: this.lastError
+        };
+    }
+}
+
+export const database = new SqliteDatabase(DATABASE_PATH, MIGRATIONS);
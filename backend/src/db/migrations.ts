@@ -0,0 +1,101 @@
+export interface Migration {
+    version: number;
+    name: string;
+    sql: string;
+}
+
+/**
+ * Schema changes, applied in order and recorded in `schema_migrations`. Never edit a released
+ * migration; add a new one instead. JSON columns hold contract types (AppInfo, DirectoryAnalysis, ...).
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'initial schema',
+        sql: `
+            CREATE TABLE profiles (
+                id TEXT PRIMARY KEY,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+
+            CREATE TABLE profile_revisions (
+                profile_id TEXT NOT NULL REFERENCES profiles (id) ON DELETE CASCADE,
+                revision INTEGER NOT NULL,
+                app_info TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                PRIMARY KEY (profile_id, revision)
+            );
+
+            -- Runs outlive the profile they were started from
+            CREATE TABLE analysis_runs (
+                id TEXT PRIMARY KEY,
+                profile_id TEXT REFERENCES profiles (id) ON DELETE SET NULL,
+                status TEXT NOT NULL,
+                app_info TEXT NOT NULL,
+                format TEXT NOT NULL,
+                concurrency INTEGER NOT NULL,
+                total INTEGER NOT NULL,
+                next_cursor TEXT,
+                error TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL,
+                started_at TEXT,
+                finished_at TEXT
+            );
+            CREATE INDEX analysis_runs_created_at ON analysis_runs (created_at);
+            CREATE INDEX analysis_runs_profile_id ON analysis_runs (profile_id);
+
+            CREATE TABLE run_sites (
+                run_id TEXT NOT NULL REFERENCES analysis_runs (id) ON DELETE CASCADE,
+                site_id TEXT NOT NULL,
+                position INTEGER NOT NULL,
+                site_url TEXT NOT NULL,
+                site_name TEXT NOT NULL,
+                status TEXT NOT NULL,
+                attempts INTEGER NOT NULL,
+                error TEXT,
+                analysis TEXT,
+                finished_at TEXT,
+                PRIMARY KEY (run_id, site_id)
+            );
+
+            -- One row per answered question of a successful directory, for querying answers across runs
+            CREATE TABLE run_answers (
+                run_id TEXT NOT NULL,
+                site_id TEXT NOT NULL,
+                question_id INTEGER NOT NULL,
+                question TEXT NOT NULL,
+                question_hash TEXT NOT NULL,
+                field TEXT,
+                confidence REAL NOT NULL,
+                status TEXT NOT NULL,
+                reason TEXT,
+                answer TEXT NOT NULL,
+                PRIMARY KEY (run_id, site_id, question_id),
+                FOREIGN KEY (run_id, site_id) REFERENCES run_sites (run_id, site_id) ON DELETE CASCADE
+            );
+            CREATE INDEX run_answers_question_hash ON run_answers (question_hash);
+
+            CREATE TABLE catalog_snapshots (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                content_hash TEXT NOT NULL,
+                site_count INTEGER NOT NULL,
+                question_count INTEGER NOT NULL,
+                source_files TEXT NOT NULL,
+                sites TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );
+
+            CREATE TABLE submissions (
+                profile_id TEXT NOT NULL REFERENCES profiles (id) ON DELETE CASCADE,
+                site_id TEXT NOT NULL,
+                status TEXT NOT NULL,
+                note TEXT,
+                submitted_at TEXT,
+                updated_at TEXT NOT NULL,
+                PRIMARY KEY (profile_id, site_id)
+            );
+        `
+    }
+];
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { AnalysisJob as JobView, JobSummary } from '@directory-bot/contract';
+import { BulkAnalysisRequest } from '../answers/bulkRequest';
+import { AnswerFormatOptions } from '../answers/fieldFormatters';
+import { DirectoryAnalysis, siteDisplayName } from '../answers/siteAnalysis';
+import { AppInfo } from '../types';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobSiteStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+
+export interface JobSite {
+    siteId: string;
+    siteUrl: string;
+    siteName: string;
+    status: JobSiteStatus;
+    // Runs so far, counting retries
+    attempts: number;
+    error?: string;
+    analysis?: DirectoryAnalysis;
+    finishedAt?: string;
+}
+
+/**
+ * A bulk analysis run as saved in the database: the request, and where each directory stands.
+ * `failed` means the job itself broke; directories that failed are `error` entries of a completed job.
+ */
+export interface AnalysisJob {
+    id: string;
+    status: JobStatus;
+    appInfo: AppInfo;
+    // The saved profile appInfo was taken from
+    profileId?: string;
+    format: AnswerFormatOptions;
+    concurrency: number;
+    sites: JobSite[];
+    // Directories matching the request beyond this job's page, see /api/analyze-all
+    total: number;
+    nextCursor: string | null;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+export interface JobProgress {
+    total: number;
+    done: number;
+    succeeded: number;
+    failed: number;
+    pending: number;
+    // 0-100
+    percent: number;
+}
+
+export type JobEvent =
+    | { type: 'site'; jobId: string; site: JobSite; progress: JobProgress }
+    | { type: 'status'; jobId: string; status: JobStatus; progress: JobProgress; error?: string };
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export function isFinished(job: Pick<AnalysisJob, 'status'>): boolean {
+    return FINISHED_STATUSES.includes(job.status);
+}
+
+export function createJob(request: BulkAnalysisRequest): AnalysisJob {
+    const now = new Date().toISOString();
+    return {
+        id: crypto.randomUUID(),
+        status: 'queued',
+        appInfo: request.appInfo,
+        ...(request.profileId && { profileId: request.profileId }),
+        format: request.format,
+        concurrency: request.concurrency,
+        sites: request.sites.map(site => ({
+            siteId: site.id,
+            siteUrl: site.url,
+            siteName: siteDisplayName(site.url),
+            status: 'pending',
+            attempts: 0
+        })),
+        total: request.total,
+        nextCursor: request.nextCursor,
+        createdAt: now,
+        updatedAt: now
+    };
+}
+
+export function jobProgress(job: AnalysisJob): JobProgress {
+    const succeeded = job.sites.filter(site => site.status === 'success').length;
+    const failed = job.sites.filter(site => site.status === 'error').length;
+    const done = succeeded + failed;
+    return {
+        total: job.sites.length,
+        done,
+        succeeded,
+        failed,
+        pending: job.sites.filter(site => site.status === 'pending' || site.status === 'running').length,
+        percent: job.sites.length > 0 ? Math.round(done / job.sites.length * 100) : 100
+    };
+}
+
+/**
+ * A job as returned by the API: everything but the submitted app info
+ */
+export function toJobView(job: AnalysisJob): JobView {
+    const { appInfo, ...rest } = job;
+    return { ...rest, appName: appInfo.name, progress: jobProgress(job) };
+}
+
+// A job as listed by GET /api/jobs, without its directories
+export function toJobSummary(job: AnalysisJob): JobSummary {
+    const { sites, ...rest } = toJobView(job);
+    return rest;
+}
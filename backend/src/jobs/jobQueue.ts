@@ -0,0 +1,266 @@
+import { EventEmitter } from 'events';
+import { directoryCatalog } from '../catalog/catalogService';
+import { BulkAnalysisRequest } from '../answers/bulkRequest';
+import { analyzeSiteEntry, mapWithConcurrency } from '../answers/siteAnalysis';
+import { AnalysisJob, createJob, isFinished, JobEvent, JobSite, jobProgress } from './analysisJob';
+import { analysisJobStore, AnalysisJobStore, JobListFilter } from './jobStore';
+
+export interface JobQueueStatus {
+    // Queued and running jobs held in memory; finished ones are read from the database
+    activeJobs: number;
+    queued: number;
+    running: string | null;
+    lastError: string | null;
+}
+
+/**
+ * Raised when a job is in the wrong state for the requested change
+ */
+export class JobConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JobConflictError';
+    }
+}
+
+/**
+ * In-process queue of bulk analysis jobs. Jobs run one at a time, each analyzing its
+ * directories `concurrency` at a time. Every job is saved to the database after each
+ * directory, so a restart picks unfinished jobs up where they stopped.
+ */
+export class AnalysisJobQueue {
+    private jobs = new Map<string, AnalysisJob>();
+    private queue: string[] = [];
+    private running: string | null = null;
+    private lastError: string | null = null;
+    private readonly events = new EventEmitter();
+
+    constructor(private readonly store: AnalysisJobStore) {
+        // One listener per open event stream
+        this.events.setMaxListeners(0);
+    }
+
+    /**
+     * Queue again the jobs that were unfinished when the server stopped
+     */
+    load(): void {
+        try {
+            const resumed = this.store.unfinished();
+            resumed.forEach(job => {
+                // Directories in flight when the server stopped start over
+                job.sites.forEach(site => {
+                    if (site.status === 'running') {
+                        site.status = 'pending';
+                    }
+                });
+                job.status = 'queued';
+                this.jobs.set(job.id, job);
+            });
+
+            this.lastError = null;
+            console.log(`✅ Loaded analysis jobs${resumed.length > 0 ? `, resuming ${resumed.length}` : ''}`);
+            resumed.forEach(job => this.enqueue(job.id));
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`❌ Error loading analysis jobs:`, this.lastError);
+        }
+    }
+
+    private save(job: AnalysisJob, sites?: JobSite[]): void {
+        job.updatedAt = new Date().toISOString();
+        this.store.save(job, sites);
+    }
+
+    private emit(event: JobEvent): void {
+        this.events.emit(event.jobId, event);
+    }
+
+    private emitStatus(job: AnalysisJob): void {
+        this.emit({ type: 'status', jobId: job.id, status: job.status, progress: jobProgress(job), ...(job.error && { error: job.error }) });
+    }
+
+    get(id: string): AnalysisJob | undefined {
+        return this.jobs.get(id) || this.store.get(id);
+    }
+
+    // Past and current jobs, newest first
+    list(filter: JobListFilter): AnalysisJob[] {
+        return this.store.list(filter);
+    }
+
+    create(request: BulkAnalysisRequest): AnalysisJob {
+        const job = createJob(request);
+        this.jobs.set(job.id, job);
+        this.save(job);
+        this.enqueue(job.id);
+        return job;
+    }
+
+    /**
+     * Stop a job: directories not started yet are skipped; those in flight still finish and are kept
+     */
+    cancel(id: string): AnalysisJob | undefined {
+        const job = this.get(id);
+        if (!job) {
+            return undefined;
+        }
+        if (isFinished(job)) {
+            throw new JobConflictError(`Job ${id} already ${job.status}`);
+        }
+
+        this.queue = this.queue.filter(queuedId => queuedId !== id);
+        job.sites.forEach(site => {
+            if (site.status === 'pending') {
+                site.status = 'cancelled';
+            }
+        });
+        job.status = 'cancelled';
+        job.finishedAt = new Date().toISOString();
+        this.save(job);
+        this.emitStatus(job);
+        if (this.running !== id) {
+            this.jobs.delete(id);
+        }
+        console.log(`🛑 Cancelled analysis job ${id}`);
+        return job;
+    }
+
+    /**
+     * Run the directories that failed or were cancelled again, keeping the successful ones.
+     * A cancelled job can only be retried once the directories it had in flight are done.
+     */
+    retry(id: string): AnalysisJob | undefined {
+        const job = this.get(id);
+        if (!job) {
+            return undefined;
+        }
+        if (!isFinished(job)) {
+            throw new JobConflictError(`Job ${id} is still ${job.status}`);
+        }
+        if (this.running === id) {
+            throw new JobConflictError(`Job ${id} is still finishing the directories in flight; retry once they are done`);
+        }
+        const retried = job.sites.filter(site => site.status === 'error' || site.status === 'cancelled');
+        if (retried.length === 0) {
+            throw new JobConflictError(`Job ${id} has no failed or cancelled directories to retry`);
+        }
+
+        retried.forEach(site => {
+            site.status = 'pending';
+            delete site.error;
+            delete site.finishedAt;
+        });
+        job.status = 'queued';
+        delete job.error;
+        delete job.finishedAt;
+        this.jobs.set(job.id, job);
+        this.save(job);
+        this.emitStatus(job);
+        this.enqueue(job.id);
+        console.log(`🔁 Retrying ${retried.length} directories of analysis job ${id}`);
+        return job;
+    }
+
+    /**
+     * Listen to a job's events; returns the function that stops listening
+     */
+    subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+        this.events.on(id, listener);
+        return () => this.events.off(id, listener);
+    }
+
+    private enqueue(id: string): void {
+        this.queue.push(id);
+        // Start after the current request has been answered with the queued job
+        setImmediate(() => void this.runNext());
+    }
+
+    private async runNext(): Promise<void> {
+        if (this.running) {
+            return;
+        }
+        const id = this.queue.shift();
+        const job = id ? this.jobs.get(id) : undefined;
+        if (!job) {
+            return;
+        }
+
+        this.running = job.id;
+        try {
+            await this.runJob(job);
+        } catch (error) {
+            job.status = 'failed';
+            job.error = error instanceof Error ? error.message : 'Unknown error';
+            job.finishedAt = new Date().toISOString();
+            console.error(`❌ Analysis job ${job.id} failed:`, job.error);
+            try {
+                this.save(job);
+            } catch (saveError) {
+                console.error(`❌ Could not save analysis job ${job.id}:`, saveError);
+            }
+            this.emitStatus(job);
+        } finally {
+            this.running = null;
+            // Unless retried meanwhile, the finished job now lives in the database only
+            if (isFinished(job)) {
+                this.jobs.delete(job.id);
+            }
+            void this.runNext();
+        }
+    }
+
+    private async runJob(job: AnalysisJob): Promise<void> {
+        job.status = 'running';
+        job.startedAt = job.startedAt || new Date().toISOString();
+        this.save(job, []);
+        this.emitStatus(job);
+
+        const pending = job.sites.filter(site => site.status === 'pending');
+        console.log(`🚀 Running analysis job ${job.id}: ${pending.length} directories, ${job.concurrency} at a time`);
+
+        await mapWithConcurrency(pending, job.concurrency, async (entry: JobSite) => {
+            if (entry.status !== 'pending') {
+                return;
+            }
+            entry.status = 'running';
+            entry.attempts++;
+
+            const site = directoryCatalog.findSite(entry.siteId);
+            const result = site
+                ? await analyzeSiteEntry(site, job.appInfo, job.format)
+                : { status: 'error' as const, error: `Directory not found: ${entry.siteId}` };
+
+            if (result.status === 'success') {
+                const { status, ...analysis } = result;
+                entry.status = status;
+                entry.analysis = analysis;
+            } else {
+                entry.status = 'error';
+                entry.error = result.error;
+            }
+            entry.finishedAt = new Date().toISOString();
+            this.save(job, [entry]);
+            this.emit({ type: 'site', jobId: job.id, site: entry, progress: jobProgress(job) });
+        });
+
+        if (job.status === 'running') {
+            job.status = 'completed';
+            job.finishedAt = new Date().toISOString();
+        }
+        this.save(job, []);
+        this.emitStatus(job);
+        const { succeeded, failed } = jobProgress(job);
+        console.log(`✅ Analysis job ${job.id} ${job.status}: ${succeeded} succeeded, ${failed} failed`);
+    }
+
+    getStatus(): JobQueueStatus {
+        return {
+            activeJobs: this.jobs.size,
+            queued: this.queue.length,
+            running: this.running,
+            lastError: this.lastError
+        };
+    }
+}
+
+export const analysisJobs = new AnalysisJobQueue(analysisJobStore);
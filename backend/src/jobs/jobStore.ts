@@ -0,0 +1,180 @@
+import { database, SqliteDatabase } from '../db/database';
+import { AnalysisJob, JobSite, JobStatus } from './analysisJob';
+
+interface RunRow {
+    id: string;
+    profile_id: string | null;
+    status: JobStatus;
+    app_info: string;
+    format: string;
+    concurrency: number;
+    total: number;
+    next_cursor: string | null;
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+}
+
+interface RunSiteRow {
+    site_id: string;
+    site_url: string;
+    site_name: string;
+    status: JobSite['status'];
+    attempts: number;
+    error: string | null;
+    analysis?: string | null;
+    finished_at: string | null;
+}
+
+export interface JobListFilter {
+    profileId?: string;
+    status?: JobStatus;
+    limit: number;
+}
+
+function toJobSite(row: RunSiteRow): JobSite {
+    return {
+        siteId: row.site_id,
+        siteUrl: row.site_url,
+        siteName: row.site_name,
+        status: row.status,
+        attempts: row.attempts,
+        ...(row.error !== null && { error: row.error }),
+        ...(row.analysis && { analysis: JSON.parse(row.analysis) }),
+        ...(row.finished_at !== null && { finishedAt: row.finished_at })
+    };
+}
+
+function toJob(row: RunRow, sites: JobSite[]): AnalysisJob {
+    return {
+        id: row.id,
+        status: row.status,
+        appInfo: JSON.parse(row.app_info),
+        ...(row.profile_id !== null && { profileId: row.profile_id }),
+        format: JSON.parse(row.format),
+        concurrency: row.concurrency,
+        sites,
+        total: row.total,
+        nextCursor: row.next_cursor,
+        ...(row.error !== null && { error: row.error }),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        ...(row.started_at !== null && { startedAt: row.started_at }),
+        ...(row.finished_at !== null && { finishedAt: row.finished_at })
+    };
+}
+
+/**
+ * Analysis jobs in the `analysis_runs` and `run_sites` tables, with every answer of a
+ * successful directory also in `run_answers`. Jobs are kept after they finish, as history.
+ */
+export class AnalysisJobStore {
+    constructor(private readonly database: SqliteDatabase) {}
+
+    /**
+     * Save a job and the given directories (all of them by default) in one transaction
+     */
+    save(job: AnalysisJob, sites: JobSite[] = job.sites): void {
+        const db = this.database.connection;
+        db.transaction(() => {
+            db.prepare(`
+                INSERT INTO analysis_runs (id, profile_id, status, app_info, format, concurrency, total, next_cursor, error, created_at, updated_at, started_at, finished_at)
+                VALUES (@id, @profileId, @status, @appInfo, @format, @concurrency, @total, @nextCursor, @error, @createdAt, @updatedAt, @startedAt, @finishedAt)
+                ON CONFLICT (id) DO UPDATE SET
+                    status = excluded.status, error = excluded.error, updated_at = excluded.updated_at,
+                    started_at = excluded.started_at, finished_at = excluded.finished_at
+            `).run({
+                id: job.id,
+                profileId: job.profileId ?? null,
+                status: job.status,
+                appInfo: JSON.stringify(job.appInfo),
+                format: JSON.stringify(job.format),
+                concurrency: job.concurrency,
+                total: job.total,
+                nextCursor: job.nextCursor,
+                error: job.error ?? null,
+                createdAt: job.createdAt,
+                updatedAt: job.updatedAt,
+                startedAt: job.startedAt ?? null,
+                finishedAt: job.finishedAt ?? null
+            });
+            sites.forEach(site => this.saveSite(job, site));
+        })();
+    }
+
+    private saveSite(job: AnalysisJob, site: JobSite): void {
+        const db = this.database.connection;
+        db.prepare(`
+            INSERT INTO run_sites (run_id, site_id, position, site_url, site_name, status, attempts, error, analysis, finished_at)
+            VALUES (@runId, @siteId, @position, @siteUrl, @siteName, @status, @attempts, @error, @analysis, @finishedAt)
+            ON CONFLICT (run_id, site_id) DO UPDATE SET
+                status = excluded.status, attempts = excluded.attempts, error = excluded.error,
+                analysis = excluded.analysis, finished_at = excluded.finished_at
+        `).run({
+            runId: job.id,
+            siteId: site.siteId,
+            position: job.sites.indexOf(site),
+            siteUrl: site.siteUrl,
+            siteName: site.siteName,
+            status: site.status,
+            attempts: site.attempts,
+            error: site.error ?? null,
+            analysis: site.analysis ? JSON.stringify(site.analysis) : null,
+            finishedAt: site.finishedAt ?? null
+        });
+
+        db.prepare('DELETE FROM run_answers WHERE run_id = ? AND site_id = ?').run(job.id, site.siteId);
+        const insertAnswer = db.prepare(`
+            INSERT INTO run_answers (run_id, site_id, question_id, question, question_hash, field, confidence, status, reason, answer)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        site.analysis?.questions.forEach(question => {
+            insertAnswer.run(
+                job.id, site.siteId, question.id, question.question, question.questionHash, question.field,
+                question.confidence, question.status, question.reason ?? null, question.answer
+            );
+        });
+    }
+
+    get(id: string): AnalysisJob | undefined {
+        const db = this.database.connection;
+        const row = db.prepare('SELECT * FROM analysis_runs WHERE id = ?').get(id) as RunRow | undefined;
+        if (!row) {
+            return undefined;
+        }
+        const sites = db.prepare('SELECT * FROM run_sites WHERE run_id = ? ORDER BY position').all(id) as RunSiteRow[];
+        return toJob(row, sites.map(toJobSite));
+    }
+
+    /**
+     * Jobs newest first, with their directories' status but not their answers
+     */
+    list(filter: JobListFilter): AnalysisJob[] {
+        const db = this.database.connection;
+        const rows = db.prepare(`
+            SELECT * FROM analysis_runs
+            WHERE (@profileId IS NULL OR profile_id = @profileId) AND (@status IS NULL OR status = @status)
+            ORDER BY created_at DESC, id
+            LIMIT @limit
+        `).all({ profileId: filter.profileId ?? null, status: filter.status ?? null, limit: filter.limit }) as RunRow[];
+
+        const siteQuery = db.prepare(`
+            SELECT site_id, site_url, site_name, status, attempts, error, finished_at
+            FROM run_sites WHERE run_id = ? ORDER BY position
+        `);
+        return rows.map(row => toJob(row, (siteQuery.all(row.id) as RunSiteRow[]).map(toJobSite)));
+    }
+
+    // Queued and running jobs, oldest first
+    unfinished(): AnalysisJob[] {
+        const ids = this.database.connection
+            .prepare(`SELECT id FROM analysis_runs WHERE status IN ('queued', 'running') ORDER BY created_at`)
+            .pluck()
+            .all() as string[];
+        return ids.map(id => this.get(id)!);
+    }
+}
+
+export const analysisJobStore = new AnalysisJobStore(database);
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { AppInfoField } from '../types';
+import { validateQuestion, ValidationError } from '../validation';
+import { APP_INFO_FIELDS, normalizeQuestionText } from './mappingRules';
+
+export type OverrideStatus = 'pending' | 'active' | 'promoted';
+
+/**
+ * A user's correction for one question: answer it from `field` (null leaves it blank),
+ * or always with the `literal` text. Without a `siteId` it applies to every directory. Either
+ * way it stays `pending` until an admin approves it.
+ */
+export interface AnswerOverride {
+    id: string;
+    questionHash: string;
+    // Normalized question text; missing when the correction was recorded by hash only
+    question?: string;
+    siteId: string | null;
+    field?: AppInfoField | null;
+    literal?: string;
+    // How many times users recorded this correction
+    count: number;
+    status: OverrideStatus;
+    // Rule created when an admin promoted the override into the rules file
+    promotedRuleId?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface AnswerOverrideInput {
+    questionHash: string;
+    question?: string;
+    siteId: string | null;
+    field?: AppInfoField | null;
+    literal?: string;
+}
+
+const MAX_LITERAL_LENGTH = 5000;
+
+/**
+ * Stable key for a question: the first 16 hex characters of the SHA-1 of its normalized text,
+ * so "Your Email:" and "your email" share corrections.
+ */
+export function questionHash(question: string): string {
+    return crypto.createHash('sha1').update(normalizeQuestionText(question)).digest('hex').slice(0, 16);
+}
+
+export function overrideId(questionHash: string, siteId: string | null): string {
+    return siteId ? `${siteId}:${questionHash}` : questionHash;
+}
+
+/**
+ * Validate a correction from a request body: `{ question | questionHash, siteId?, field | literal }`.
+ */
+export function parseOverrideInput(body: unknown): AnswerOverrideInput {
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        throw new ValidationError('Request body must be an object', 'invalid-override');
+    }
+    const raw = body as Record<string, unknown>;
+
+    let question: string | undefined;
+    let hash: string;
+    if (raw.question !== undefined) {
+        if (typeof raw.question !== 'string') {
+            throw new ValidationError('question must be a string', 'invalid-override');
+        }
+        question = normalizeQuestionText(validateQuestion(raw.question));
+        if (!question) {
+            throw new ValidationError('question must contain letters or digits', 'invalid-override');
+        }
+        hash = questionHash(question);
+        if (raw.questionHash !== undefined && raw.questionHash !== hash) {
+            throw new ValidationError('questionHash does not match question', 'invalid-override');
+        }
+    } else if (typeof raw.questionHash === 'string' && /^[0-9a-f]{16}$/.test(raw.questionHash)) {
+        hash = raw.questionHash;
+    } else {
+        throw new ValidationError('Provide question text or a 16-character questionHash', 'invalid-override');
+    }
+
+    if (raw.siteId !== undefined && raw.siteId !== null && (typeof raw.siteId !== 'string' || !raw.siteId.trim())) {
+        throw new ValidationError('siteId must be a directory id', 'invalid-override');
+    }
+    const siteId = typeof raw.siteId === 'string' ? raw.siteId.trim() : null;
+
+    const hasField = raw.field !== undefined;
+    const hasLiteral = raw.literal !== undefined;
+    if (hasField === hasLiteral) {
+        throw new ValidationError('Provide either field or literal', 'invalid-override');
+    }
+
+    if (hasField) {
+        if (raw.field !== null && !APP_INFO_FIELDS.includes(raw.field as AppInfoField)) {
+            throw new ValidationError(`field must be null or one of ${APP_INFO_FIELDS.join(', ')}`, 'invalid-override');
+        }
+        return { questionHash: hash, ...(question && { question }), siteId, field: raw.field as AppInfoField | null };
+    }
+
+    if (typeof raw.literal !== 'string' || !raw.literal.trim()) {
+        throw new ValidationError('literal must be a non-empty string', 'invalid-override');
+    }
+    if (raw.literal.length > MAX_LITERAL_LENGTH) {
+        throw new ValidationError(`literal too long (max ${MAX_LITERAL_LENGTH} characters)`, 'invalid-override');
+    }
+    return { questionHash: hash, ...(question && { question }), siteId, literal: raw.literal.trim() };
+}
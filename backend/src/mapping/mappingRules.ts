@@ -0,0 +1,240 @@
+import { CompiledTemplate, compileTemplate } from '../answers/answerTemplates';
+import { AppInfoField } from '../types';
+
+// Every AppInfo field a rule may target
+const APP_INFO_FIELD_SET: Record<AppInfoField, true> = {
+    url: true,
+    name: true,
+    type: true,
+    description: true,
+    targetAudience: true,
+    mainFeatures: true,
+    techStack: true,
+    email: true,
+    companyName: true,
+    contactName: true,
+    location: true,
+    githubUrl: true,
+    launchDate: true,
+    tagline: true,
+    category: true,
+    linkedinUrl: true,
+    enableGithubActions: true,
+    enableLinkedinSharing: true,
+    xUrl: true,
+    isReleased: true
+};
+
+export const APP_INFO_FIELDS = Object.keys(APP_INFO_FIELD_SET) as (AppInfoField)[];
+
+/**
+ * One question-to-field mapping rule as written in the rules file.
+ * A `null` field claims the question without answering it (left for the user).
+ * A `template` answers from several fields; `field` is then the one the answer is mainly about.
+ */
+export interface MappingRule {
+    id: string;
+    field: AppInfoField | null;
+    keywords: string[];
+    synonyms: string[];
+    exclude: string[];
+    priority: number;
+    template?: string;
+}
+
+export interface FieldMatch {
+    // Rule id, override id for a user correction, `question-template` for a catalog question's
+    // own template, or `similarity` for a match found by the similarity matcher
+    ruleId: string;
+    field: AppInfoField | null;
+    // The keyword or synonym that matched, the corrected question or the closest example question
+    matched: string;
+    method: 'override' | 'template' | 'rule' | 'similarity';
+    // Fixed answer text from a user correction, used instead of the field
+    literal?: string;
+    // Answer template of the matched rule or catalog question, used instead of the field
+    template?: CompiledTemplate;
+    // 0-1: how much of the question the matched phrase explains; synonyms count for less than keywords
+    confidence: number;
+}
+
+export interface CompiledRule extends MappingRule {
+    patterns: { phrase: string; words: number; pattern: RegExp; synonym: boolean }[];
+    exclusions: RegExp[];
+    compiledTemplate?: CompiledTemplate;
+}
+
+/**
+ * Lowercase a question and reduce punctuation to single spaces, so `E-mail`, `x.com` and
+ * `Company's website:` compare as `e mail`, `x com` and `company s website`.
+ */
+export function normalizeQuestionText(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Filler words left out when measuring how much of a question a phrase covers
+export const FILLER_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'at', 'by', 'with', 'is', 'are', 'be',
+    'what', 'whats', 'which', 'who', 'where', 'how', 'your', 'you', 'our', 'my', 'please', 'enter',
+    'provide', 'share', 'give', 'us', 'do', 'does', 'if', 'any', 'it', 'this', 'that', 's'
+]);
+
+const SYNONYM_WEIGHT = 0.8;
+
+/**
+ * Confidence of a match: full weight when the phrase covers every meaningful word of the
+ * question, down to half weight as the question grows around it.
+ */
+function matchConfidence(text: string, phraseWords: number, synonym: boolean): number {
+    const contentWords = text.split(' ').filter(word => word && !FILLER_WORDS.has(word)).length;
+    const coverage = Math.min(1, phraseWords / Math.max(contentWords, 1));
+    const weight = synonym ? SYNONYM_WEIGHT : 1;
+    return Math.round(weight * (0.5 + 0.5 * coverage) * 100) / 100;
+}
+
+/**
+ * Whole-word phrase pattern; a trailing `*` on a word matches any ending (`feature*` → features).
+ */
+function phrasePattern(phrase: string): RegExp {
+    const words = phrase.split(' ').map(word => {
+        const prefix = word.endsWith('*');
+        const escaped = word.replace(/\*$/, '');
+        return prefix ? `${escaped}[a-z0-9]*` : escaped;
+    });
+    return new RegExp(`(?:^| )${words.join(' ')}(?= |$)`);
+}
+
+function parsePhrases(value: unknown, label: string): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new Error(`${label} must be a list of strings`);
+    }
+    // Same normalization as questions, keeping a `*` at the end of a word
+    return value
+        .map(item => item.toLowerCase().replace(/[^a-z0-9*]+/g, ' ').replace(/\*+(?=[a-z0-9*])/g, '').trim())
+        .filter(item => item.replace(/\*/g, '').length > 0);
+}
+
+function parseRule(value: unknown, index: number, seenIds: Set<string>): MappingRule {
+    const label = `rules[${index}]`;
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${label} must be an object`);
+    }
+    const raw = value as Record<string, unknown>;
+
+    if (typeof raw.id !== 'string' || !raw.id.trim()) {
+        throw new Error(`${label}.id must be a non-empty string`);
+    }
+    const id = raw.id.trim();
+    if (seenIds.has(id)) {
+        throw new Error(`${label}.id "${id}" is used by another rule`);
+    }
+    seenIds.add(id);
+
+    if (raw.field !== null && !APP_INFO_FIELDS.includes(raw.field as AppInfoField)) {
+        throw new Error(`${label} (${id}).field must be null or one of ${APP_INFO_FIELDS.join(', ')}`);
+    }
+
+    const priority = raw.priority === undefined ? 0 : raw.priority;
+    if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+        throw new Error(`${label} (${id}).priority must be a number`);
+    }
+
+    if (raw.template !== undefined && (typeof raw.template !== 'string' || !raw.template.trim())) {
+        throw new Error(`${label} (${id}).template must be a non-empty string`);
+    }
+
+    const keywords = parsePhrases(raw.keywords, `${label} (${id}).keywords`);
+    const synonyms = parsePhrases(raw.synonyms, `${label} (${id}).synonyms`);
+    if (keywords.length === 0 && synonyms.length === 0) {
+        throw new Error(`${label} (${id}) needs at least one keyword or synonym`);
+    }
+
+    return {
+        id,
+        field: raw.field as AppInfoField | null,
+        keywords,
+        synonyms,
+        exclude: parsePhrases(raw.exclude, `${label} (${id}).exclude`),
+        priority,
+        ...(typeof raw.template === 'string' && { template: raw.template.trim() })
+    };
+}
+
+/**
+ * Validate the contents of a rules file (`{ "rules": [...] }`) and prepare the rules for matching.
+ */
+export function compileMappingRules(document: unknown): CompiledRule[] {
+    const rules = document !== null && typeof document === 'object' && !Array.isArray(document)
+        ? (document as Record<string, unknown>).rules
+        : undefined;
+    if (!Array.isArray(rules)) {
+        throw new Error('Rules file must be an object with a "rules" list');
+    }
+
+    const seenIds = new Set<string>();
+    return rules.map((value, index) => {
+        const rule = parseRule(value, index, seenIds);
+        let compiledTemplate: CompiledTemplate | undefined;
+        try {
+            compiledTemplate = rule.template === undefined ? undefined : compileTemplate(rule.template);
+        } catch (error) {
+            throw new Error(`rules[${index}] (${rule.id}).template: ${error instanceof Error ? error.message : error}`);
+        }
+        return {
+            ...rule,
+            patterns: [
+                ...rule.keywords.map(phrase => ({ phrase, synonym: false })),
+                ...rule.synonyms.map(phrase => ({ phrase, synonym: true }))
+            ].map(({ phrase, synonym }) => ({
+                phrase,
+                words: phrase.split(' ').length,
+                pattern: phrasePattern(phrase),
+                synonym
+            })),
+            exclusions: rule.exclude.map(phrasePattern),
+            ...(compiledTemplate && { compiledTemplate })
+        };
+    });
+}
+
+/**
+ * Pick the rule for a question: among rules with a matching keyword or synonym and no
+ * matching exclusion, the highest priority wins, then the longest matched phrase, then file order.
+ */
+export function matchQuestion(rules: CompiledRule[], question: string): FieldMatch | null {
+    const text = normalizeQuestionText(question);
+    let best: { rule: CompiledRule; phrase: string; words: number; synonym: boolean } | null = null;
+
+    for (const rule of rules) {
+        if (rule.exclusions.some(pattern => pattern.test(text))) {
+            continue;
+        }
+
+        const hit = rule.patterns
+            .filter(({ pattern }) => pattern.test(text))
+            .sort((a, b) => b.words - a.words)[0];
+        if (!hit) {
+            continue;
+        }
+
+        if (!best
+            || rule.priority > best.rule.priority
+            || (rule.priority === best.rule.priority && hit.words > best.words)) {
+            best = { rule, phrase: hit.phrase, words: hit.words, synonym: hit.synonym };
+        }
+    }
+
+    return best
+        ? {
+            ruleId: best.rule.id,
+            field: best.rule.field,
+            matched: best.phrase,
+            method: 'rule',
+            confidence: matchConfidence(text, best.words, best.synonym),
+            ...(best.rule.compiledTemplate && { template: best.rule.compiledTemplate })
+        }
+        : null;
+}
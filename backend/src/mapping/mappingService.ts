@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import { MAPPING_RULES_PATH, MIN_SIMILARITY, QUESTION_CORPUS_PATH } from '../config';
+import { writeFileAtomic } from '../catalog/fileStore';
+import { CompiledRule, compileMappingRules, FieldMatch, MappingRule, matchQuestion } from './mappingRules';
+import { parseQuestionCorpus, SimilarityMatcher } from './similarityMatcher';
+
+const WATCH_INTERVAL_MS = 1000;
+
+export interface MappingRulesStatus {
+    rulesFile: string;
+    loaded: boolean;
+    loadedAt: string | null;
+    ruleCount: number;
+    lastError: string | null;
+    corpusFile: string;
+    corpusExamples: number;
+    corpusError: string | null;
+    watching: boolean;
+}
+
+function readJson(filePath: string): unknown {
+    return JSON.parse(fs.readFileSync(path.resolve(process.cwd(), filePath), 'utf8'));
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Lay out a rules document the way the rules file is written by hand: one key per line,
+ * phrase lists on a single line.
+ */
+function formatRulesDocument(document: Record<string, unknown>, rules: Record<string, unknown>[]): string {
+    const formatValue = (value: unknown) => Array.isArray(value)
+        ? `[${value.map(item => JSON.stringify(item)).join(', ')}]`
+        : JSON.stringify(value);
+    const formatRule = (rule: Record<string, unknown>) => [
+        '    {',
+        Object.entries(rule).map(([key, value]) => `      ${JSON.stringify(key)}: ${formatValue(value)}`).join(',\n'),
+        '    }'
+    ].join('\n');
+
+    const entries = Object.entries({ ...document, rules }).map(([key, value]) => key === 'rules'
+        ? `  "rules": [\n${rules.map(formatRule).join(',\n')}\n  ]`
+        : `  ${JSON.stringify(key)}: ${JSON.stringify(value)}`);
+    return `{\n${entries.join(',\n')}\n}\n`;
+}
+
+/**
+ * Keeps the question-to-field mapping rules and the similarity corpus in memory and reloads
+ * them when their files change. Questions no rule matches fall back to the similarity matcher.
+ */
+export class MappingRuleSet {
+    private rules: CompiledRule[] = [];
+    private similarity: SimilarityMatcher | null = null;
+    private loadedAt: Date | null = null;
+    private lastError: string | null = null;
+    private corpusError: string | null = null;
+    private watching = false;
+
+    constructor(private readonly filePath: string, private readonly corpusPath: string) {}
+
+    get resolvedPath(): string {
+        return path.resolve(process.cwd(), this.filePath);
+    }
+
+    get resolvedCorpusPath(): string {
+        return path.resolve(process.cwd(), this.corpusPath);
+    }
+
+    /**
+     * Read and validate the rules file and the corpus. On failure the previously loaded copy is kept.
+     */
+    load(): void {
+        this.loadRules();
+        this.loadCorpus();
+    }
+
+    private loadRules(): void {
+        try {
+            this.rules = compileMappingRules(readJson(this.filePath));
+            this.loadedAt = new Date();
+            this.lastError = null;
+            console.log(`✅ Loaded ${this.rules.length} mapping rules from ${this.filePath}`);
+        } catch (error) {
+            this.lastError = errorMessage(error);
+            console.error(`❌ Error loading mapping rules:`, this.lastError);
+        }
+    }
+
+    private loadCorpus(): void {
+        try {
+            this.similarity = new SimilarityMatcher(parseQuestionCorpus(readJson(this.corpusPath)), MIN_SIMILARITY);
+            this.corpusError = null;
+            console.log(`✅ Loaded ${this.similarity.size} example questions from ${this.corpusPath}`);
+        } catch (error) {
+            this.corpusError = errorMessage(error);
+            console.error(`❌ Error loading question corpus:`, this.corpusError);
+        }
+    }
+
+    /**
+     * Append a rule to the rules file. The file is re-read first so hand edits are kept, and
+     * nothing is written if the resulting rule set does not validate.
+     */
+    addRule(rule: MappingRule): void {
+        const document = readJson(this.filePath) as Record<string, unknown>;
+        const { synonyms, exclude, priority, template, ...required } = rule;
+        const rules = [
+            ...(Array.isArray(document.rules) ? document.rules : []),
+            {
+                ...required,
+                ...(synonyms.length > 0 && { synonyms }),
+                ...(exclude.length > 0 && { exclude }),
+                priority,
+                ...(template !== undefined && { template })
+            }
+        ];
+        const compiled = compileMappingRules({ ...document, rules });
+
+        writeFileAtomic(this.resolvedPath, tempPath => fs.writeFileSync(tempPath, formatRulesDocument(document, rules), 'utf8'));
+        this.rules = compiled;
+        this.loadedAt = new Date();
+        this.lastError = null;
+        console.log(`➕ Added mapping rule ${rule.id} to ${this.filePath}`);
+    }
+
+    watch(): void {
+        if (this.watching) {
+            return;
+        }
+        this.watching = true;
+        const watchFile = (filePath: string, reload: () => void) => {
+            fs.watchFile(filePath, { interval: WATCH_INTERVAL_MS }, (curr, prev) => {
+                if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) {
+                    return;
+                }
+                console.log(`🔄 ${path.basename(filePath)} changed, reloading`);
+                reload();
+            });
+        };
+        watchFile(this.resolvedPath, () => this.loadRules());
+        watchFile(this.resolvedCorpusPath, () => this.loadCorpus());
+    }
+
+    unwatch(): void {
+        fs.unwatchFile(this.resolvedPath);
+        fs.unwatchFile(this.resolvedCorpusPath);
+        this.watching = false;
+    }
+
+    private ensureLoaded(): void {
+        if (!this.loadedAt && !this.lastError) {
+            this.load();
+        }
+    }
+
+    /**
+     * Map a question to an AppInfo field: keyword rules first, then the closest corpus example
+     */
+    match(question: string): FieldMatch | null {
+        this.ensureLoaded();
+        const ruleMatch = matchQuestion(this.rules, question);
+        if (ruleMatch) {
+            return ruleMatch;
+        }
+
+        const similar = this.similarity?.match(question);
+        return similar
+            ? { ruleId: 'similarity', field: similar.field, matched: similar.example, method: 'similarity', confidence: similar.score }
+            : null;
+    }
+
+    getStatus(): MappingRulesStatus {
+        return {
+            rulesFile: this.filePath,
+            loaded: this.loadedAt !== null,
+            loadedAt: this.loadedAt ? this.loadedAt.toISOString() : null,
+            ruleCount: this.rules.length,
+            lastError: this.lastError,
+            corpusFile: this.corpusPath,
+            corpusExamples: this.similarity?.size ?? 0,
+            corpusError: this.corpusError,
+            watching: this.watching
+        };
+    }
+}
+
+export const mappingRules = new MappingRuleSet(MAPPING_RULES_PATH, QUESTION_CORPUS_PATH);
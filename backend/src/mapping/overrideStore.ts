@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import { MAPPING_RULES_WRITABLE, OVERRIDES_PATH } from '../config';
+import { writeFileAtomic } from '../catalog/fileStore';
+import { AnswerOverride, AnswerOverrideInput, OverrideStatus, overrideId, questionHash } from './answerOverrides';
+import { FieldMatch, MappingRule } from './mappingRules';
+import { mappingRules } from './mappingService';
+
+// Promoted corrections are exact questions users confirmed, so they outrank the generic rules
+const PROMOTED_RULE_PRIORITY = 100;
+
+export interface OverrideStoreStatus {
+    overridesFile: string;
+    loaded: boolean;
+    overrideCount: number;
+    activeCount: number;
+    pendingCount: number;
+    lastError: string | null;
+}
+
+export interface OverrideFilter {
+    // A directory id, or null for global overrides only
+    siteId?: string | null;
+    status?: OverrideStatus;
+}
+
+/**
+ * Raised when an override cannot be approved or promoted into the rules file
+ */
+export class OverrideConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OverrideConflictError';
+    }
+}
+
+/**
+ * Keeps user corrections (question → field or literal answer) in memory, persisted to a JSON file.
+ * Directory-specific corrections win over global ones, and both win over the mapping rules.
+ * Either kind reaches every user, so a correction only applies once an admin approved it.
+ */
+export class AnswerOverrideStore {
+    private overrides = new Map<string, AnswerOverride>();
+    private loaded = false;
+    private lastError: string | null = null;
+
+    constructor(private readonly filePath: string) {}
+
+    get resolvedPath(): string {
+        return path.resolve(process.cwd(), this.filePath);
+    }
+
+    /**
+     * Read the overrides file; a missing file means no overrides yet. On failure the previous overrides are kept.
+     */
+    load(): void {
+        try {
+            const overrides: AnswerOverride[] = fs.existsSync(this.resolvedPath)
+                ? JSON.parse(fs.readFileSync(this.resolvedPath, 'utf8')).overrides
+                : [];
+            if (!Array.isArray(overrides)) {
+                throw new Error(`${this.filePath} must hold { "overrides": [...] }`);
+            }
+            this.overrides = new Map(overrides.map(override => [override.id, override]));
+            this.loaded = true;
+            this.lastError = null;
+            console.log(`✅ Loaded ${this.overrides.size} answer overrides from ${this.filePath}`);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`❌ Error loading answer overrides:`, this.lastError);
+        }
+    }
+
+    private ensureLoaded(): void {
+        if (!this.loaded && !this.lastError) {
+            this.load();
+        }
+    }
+
+    private save(): void {
+        fs.mkdirSync(path.dirname(this.resolvedPath), { recursive: true });
+        const content = JSON.stringify({ overrides: [...this.overrides.values()] }, null, 2);
+        writeFileAtomic(this.resolvedPath, tempPath => fs.writeFileSync(tempPath, `${content}\n`, 'utf8'));
+    }
+
+    list(filter: OverrideFilter = {}): AnswerOverride[] {
+        this.ensureLoaded();
+        return [...this.overrides.values()]
+            .filter(override => filter.siteId === undefined || override.siteId === filter.siteId)
+            .filter(override => !filter.status || override.status === filter.status)
+            .sort((a, b) => b.count - a.count || a.id.localeCompare(b.id));
+    }
+
+    get(id: string): AnswerOverride | undefined {
+        this.ensureLoaded();
+        return this.overrides.get(id);
+    }
+
+    /**
+     * Record a correction. It starts out pending; recording the same question and scope again
+     * replaces the answer and bumps the count. An approved override keeps its approval while the
+     * answer stays the same, anything else (a new answer, or a promoted override) goes back to pending.
+     */
+    record(input: AnswerOverrideInput): { override: AnswerOverride; created: boolean } {
+        this.ensureLoaded();
+        const id = overrideId(input.questionHash, input.siteId);
+        const existing = this.overrides.get(id);
+        const now = new Date().toISOString();
+        const approved = existing?.status === 'active' && existing.field === input.field && existing.literal === input.literal;
+
+        const override: AnswerOverride = {
+            id,
+            questionHash: input.questionHash,
+            ...((input.question || existing?.question) && { question: input.question || existing?.question }),
+            siteId: input.siteId,
+            ...(input.field !== undefined && { field: input.field }),
+            ...(input.literal !== undefined && { literal: input.literal }),
+            count: (existing?.count || 0) + 1,
+            status: approved ? 'active' : 'pending',
+            createdAt: existing?.createdAt || now,
+            updatedAt: now
+        };
+
+        this.overrides.set(id, override);
+        this.save();
+        return { override, created: !existing };
+    }
+
+    remove(id: string): AnswerOverride | undefined {
+        this.ensureLoaded();
+        const override = this.overrides.get(id);
+        if (override) {
+            this.overrides.delete(id);
+            this.save();
+        }
+        return override;
+    }
+
+    /**
+     * Let a pending override answer its question for every user
+     */
+    approve(id: string): AnswerOverride | undefined {
+        this.ensureLoaded();
+        const override = this.overrides.get(id);
+        if (!override) {
+            return undefined;
+        }
+        if (override.status !== 'pending') {
+            throw new OverrideConflictError(`Override ${id} is ${override.status}, not pending`);
+        }
+
+        const approved: AnswerOverride = { ...override, status: 'active', updatedAt: new Date().toISOString() };
+        this.overrides.set(id, approved);
+        this.save();
+        return approved;
+    }
+
+    /**
+     * Turn an override into a rule in the mapping rules file, so every user gets it.
+     * Literal answers and overrides recorded by hash only cannot become rules.
+     */
+    promote(id: string, priority: number = PROMOTED_RULE_PRIORITY): { override: AnswerOverride; rule: MappingRule } | undefined {
+        this.ensureLoaded();
+        const override = this.overrides.get(id);
+        if (!override) {
+            return undefined;
+        }
+        if (!MAPPING_RULES_WRITABLE) {
+            throw new OverrideConflictError('Set MAPPING_RULES_PATH to the rules file to promote overrides into');
+        }
+        if (override.status === 'promoted') {
+            throw new OverrideConflictError(`Override ${id} was already promoted to rule ${override.promotedRuleId}`);
+        }
+        if (override.literal !== undefined || override.field === undefined) {
+            throw new OverrideConflictError('Only field corrections can be promoted; literal answers stay overrides');
+        }
+        if (!override.question) {
+            throw new OverrideConflictError('Override was recorded by hash only; record it with the question text before promoting');
+        }
+
+        const rule: MappingRule = {
+            id: `correction-${override.questionHash}`,
+            field: override.field,
+            keywords: [override.question],
+            synonyms: [],
+            exclude: [],
+            priority
+        };
+        try {
+            mappingRules.addRule(rule);
+        } catch (error) {
+            throw new OverrideConflictError(`Rule could not be added: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const promoted: AnswerOverride = { ...override, status: 'promoted', promotedRuleId: rule.id, updatedAt: new Date().toISOString() };
+        this.overrides.set(id, promoted);
+        this.save();
+        return { override: promoted, rule };
+    }
+
+    /**
+     * The active correction for a question: the directory's own first, then the global one
+     */
+    match(question: string, siteId?: string): FieldMatch | null {
+        this.ensureLoaded();
+        const hash = questionHash(question);
+        const override = [siteId ? overrideId(hash, siteId) : null, overrideId(hash, null)]
+            .map(id => id ? this.overrides.get(id) : undefined)
+            .find(candidate => candidate?.status === 'active');
+
+        if (!override) {
+            return null;
+        }
+        return {
+            ruleId: override.id,
+            field: override.field ?? null,
+            matched: override.question || override.questionHash,
+            method: 'override',
+            confidence: 1,
+            ...(override.literal !== undefined && { literal: override.literal })
+        };
+    }
+
+    getStatus(): OverrideStoreStatus {
+        return {
+            overridesFile: this.filePath,
+            loaded: this.loaded,
+            overrideCount: this.overrides.size,
+            activeCount: this.list({ status: 'active' }).length,
+            pendingCount: this.list({ status: 'pending' }).length,
+            lastError: this.lastError
+        };
+    }
+}
+
+export const answerOverrides = new AnswerOverrideStore(OVERRIDES_PATH);
+
+/**
+ * Map a question to an AppInfo field: user corrections (directory, then global), then the mapping rules
+ */
+export function matchQuestionField(question: string, siteId?: string): FieldMatch | null {
+    return answerOverrides.match(question, siteId) || mappingRules.match(question);
+}
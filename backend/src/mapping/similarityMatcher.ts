@@ -0,0 +1,174 @@
+import { AppInfoField } from '../types';
+import { APP_INFO_FIELDS, FILLER_WORDS, normalizeQuestionText } from './mappingRules';
+
+// Character n-grams let "introduce"/"introduction" or "repo"/"repository" share features
+const CHAR_GRAM_SIZE = 4;
+const CHAR_GRAM_WEIGHT = 0.5;
+
+export interface SimilarityMatch {
+    field: AppInfoField | null;
+    // The corpus example the question is closest to
+    example: string;
+    // Cosine similarity, 0-1
+    score: number;
+}
+
+// An example question; a null field marks questions AppInfo cannot answer (logos, pricing, ...)
+export interface CorpusExample {
+    field: AppInfoField | null;
+    example: string;
+}
+
+interface CorpusDocument extends CorpusExample {
+    vector: Map<string, number>;
+}
+
+type TermCounts = Map<string, number>;
+
+function stem(word: string): string {
+    if (word.length > 4 && word.endsWith('ies')) {
+        return `${word.slice(0, -3)}y`;
+    }
+    if (word.length > 5 && word.endsWith('ing')) {
+        return word.slice(0, -3);
+    }
+    if (word.length > 4 && word.endsWith('ed')) {
+        return word.slice(0, -2);
+    }
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+        return word.slice(0, -1);
+    }
+    return word;
+}
+
+/**
+ * Terms of a question: stemmed content words, adjacent word pairs and in-word character n-grams
+ */
+function termCounts(text: string): TermCounts {
+    const words = normalizeQuestionText(text)
+        .split(' ')
+        .filter(word => word && !FILLER_WORDS.has(word))
+        .map(stem);
+    const counts: TermCounts = new Map();
+    const add = (term: string, weight: number) => counts.set(term, (counts.get(term) || 0) + weight);
+
+    words.forEach((word, index) => {
+        add(word, 1);
+        if (index > 0) {
+            add(`${words[index - 1]} ${word}`, 1);
+        }
+        const padded = ` ${word} `;
+        for (let start = 0; start + CHAR_GRAM_SIZE <= padded.length; start++) {
+            add(`#${padded.slice(start, start + CHAR_GRAM_SIZE)}`, CHAR_GRAM_WEIGHT);
+        }
+    });
+    return counts;
+}
+
+function normalize(vector: Map<string, number>): Map<string, number> {
+    const length = Math.sqrt([...vector.values()].reduce((sum, value) => sum + value * value, 0));
+    if (length > 0) {
+        vector.forEach((value, term) => vector.set(term, value / length));
+    }
+    return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((value, term) => {
+        dot += value * (large.get(term) || 0);
+    });
+    return dot;
+}
+
+function parseExamples(value: unknown, label: string): string[] {
+    if (!Array.isArray(value) || value.some(example => typeof example !== 'string' || !example.trim())) {
+        throw new Error(`${label} must be a list of example questions`);
+    }
+    return value.map(example => example.trim());
+}
+
+/**
+ * Validate a question corpus file:
+ * `{ "fields": { "<AppInfo field>": ["example question", ...] }, "unanswerable": ["example question", ...] }`
+ */
+export function parseQuestionCorpus(document: unknown): CorpusExample[] {
+    const raw = document !== null && typeof document === 'object' && !Array.isArray(document)
+        ? document as Record<string, unknown>
+        : {};
+    if (!raw.fields || typeof raw.fields !== 'object' || Array.isArray(raw.fields)) {
+        throw new Error('Question corpus must be an object with a "fields" map');
+    }
+
+    const examples: CorpusExample[] = Object.entries(raw.fields).flatMap(([field, value]) => {
+        if (!APP_INFO_FIELDS.includes(field as AppInfoField)) {
+            throw new Error(`Question corpus field "${field}" must be one of ${APP_INFO_FIELDS.join(', ')}`);
+        }
+        return parseExamples(value, `Question corpus field "${field}"`).map(example => ({ field: field as AppInfoField, example }));
+    });
+    const unanswerable = raw.unanswerable === undefined ? [] : parseExamples(raw.unanswerable, 'Question corpus "unanswerable"');
+
+    return [...examples, ...unanswerable.map(example => ({ field: null, example }))];
+}
+
+/**
+ * TF-IDF nearest-neighbour matcher over a labelled corpus of example questions. Fully offline:
+ * a question maps to the field of its most similar example when the similarity reaches the threshold
+ * and that example is not one of the unanswerable ones.
+ */
+export class SimilarityMatcher {
+    private readonly idf = new Map<string, number>();
+    // IDF of a term no example contains
+    private readonly unseenIdf: number;
+    private readonly documents: CorpusDocument[];
+
+    constructor(examples: CorpusExample[], private readonly threshold: number) {
+        const counts = examples.map(({ example }) => termCounts(example));
+
+        const documentFrequency = new Map<string, number>();
+        counts.forEach(terms => terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+        // Smoothed IDF, so terms found in every example still count a little
+        documentFrequency.forEach((frequency, term) => this.idf.set(term, Math.log((1 + counts.length) / (1 + frequency)) + 1));
+        this.unseenIdf = Math.log(1 + counts.length) + 1;
+
+        this.documents = examples.map(({ field, example }, index) => ({ field, example, vector: this.weigh(counts[index]) }));
+    }
+
+    get size(): number {
+        return this.documents.length;
+    }
+
+    // Unseen terms match nothing but still weigh in, so a question that only shares a word or two is not a close match
+    private weigh(counts: TermCounts): Map<string, number> {
+        const vector = new Map<string, number>();
+        counts.forEach((count, term) => vector.set(term, count * (this.idf.get(term) ?? this.unseenIdf)));
+        return normalize(vector);
+    }
+
+    /**
+     * The closest example regardless of the threshold, or null for an empty question or corpus
+     */
+    nearest(question: string): SimilarityMatch | null {
+        const vector = this.weigh(termCounts(question));
+        let best: CorpusDocument | null = null;
+        let bestScore = 0;
+
+        for (const document of this.documents) {
+            const score = cosine(vector, document.vector);
+            if (score > bestScore) {
+                best = document;
+                bestScore = score;
+            }
+        }
+        return best ? { field: best.field, example: best.example, score: Math.round(bestScore * 100) / 100 } : null;
+    }
+
+    /**
+     * The field of the closest example, or null when nothing is close enough or the question is unanswerable
+     */
+    match(question: string): (SimilarityMatch & { field: AppInfoField }) | null {
+        const best = this.nearest(question);
+        return best && best.field && best.score >= this.threshold ? { ...best, field: best.field } : null;
+    }
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { AppProfile, ProfileRevision, ProfileSummary } from '@directory-bot/contract';
+import { PROFILE_REVISION_LIMIT } from '../config';
+import { database, SqliteDatabase } from '../db/database';
+import { AppInfo } from '../types';
+
+// A profile row joined with its latest revision
+interface ProfileRow {
+    id: string;
+    revision: number;
+    app_info: string;
+    created_at: string;
+    updated_at: string;
+}
+
+interface RevisionRow {
+    revision: number;
+    app_info: string;
+    created_at: string;
+}
+
+const LATEST_REVISION_QUERY = `
+    SELECT p.id, r.revision, r.app_info, p.created_at, p.updated_at
+    FROM profiles p
+    JOIN profile_revisions r ON r.profile_id = p.id
+        AND r.revision = (SELECT MAX(revision) FROM profile_revisions WHERE profile_id = p.id)`;
+
+function toProfile(row: ProfileRow): AppProfile {
+    const appInfo: AppInfo = JSON.parse(row.app_info);
+    return { id: row.id, name: appInfo.name, revision: row.revision, appInfo, createdAt: row.created_at, updatedAt: row.updated_at };
+}
+
+function toSummary(row: ProfileRow): ProfileSummary {
+    const { appInfo, ...rest } = toProfile(row);
+    return { ...rest, url: appInfo.url };
+}
+
+function toRevision(row: RevisionRow): ProfileRevision {
+    return { revision: row.revision, appInfo: JSON.parse(row.app_info), createdAt: row.created_at };
+}
+
+/**
+ * The apps users submit (AppInfo records), in the `profiles` and `profile_revisions` tables.
+ * Every change adds a revision; the last `revisionLimit` revisions of each profile are kept.
+ */
+export class AppProfileStore {
+    constructor(private readonly database: SqliteDatabase, private readonly revisionLimit: number) {}
+
+    // Most recently updated first
+    list(): ProfileSummary[] {
+        const rows = this.database.connection
+            .prepare(`${LATEST_REVISION_QUERY} ORDER BY p.updated_at DESC, p.id`)
+            .all() as ProfileRow[];
+        return rows.map(toSummary);
+    }
+
+    get(id: string): AppProfile | undefined {
+        const row = this.database.connection
+            .prepare(`${LATEST_REVISION_QUERY} WHERE p.id = ?`)
+            .get(id) as ProfileRow | undefined;
+        return row && toProfile(row);
+    }
+
+    /**
+     * The latest app info of a profile, as used by the analysis endpoints
+     */
+    getAppInfo(id: string): AppInfo | undefined {
+        return this.get(id)?.appInfo;
+    }
+
+    create(appInfo: AppInfo): AppProfile {
+        const db = this.database.connection;
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        db.transaction(() => {
+            db.prepare('INSERT INTO profiles (id, created_at, updated_at) VALUES (?, ?, ?)').run(id, now, now);
+            this.addRevision(id, 1, appInfo, now);
+        })();
+        return this.get(id)!;
+    }
+
+    /**
+     * Save new app info as the next revision. Saving the same app info again adds no revision.
+     */
+    update(id: string, appInfo: AppInfo): { profile: AppProfile; changed: boolean } | undefined {
+        const db = this.database.connection;
+        const latest = this.get(id);
+        if (!latest) {
+            return undefined;
+        }
+        if (JSON.stringify(latest.appInfo) === JSON.stringify(appInfo)) {
+            return { profile: latest, changed: false };
+        }
+
+        const now = new Date().toISOString();
+        const revision = latest.revision + 1;
+        db.transaction(() => {
+            this.addRevision(id, revision, appInfo, now);
+            db.prepare('DELETE FROM profile_revisions WHERE profile_id = ? AND revision <= ?').run(id, revision - this.revisionLimit);
+            db.prepare('UPDATE profiles SET updated_at = ? WHERE id = ?').run(now, id);
+        })();
+        return { profile: this.get(id)!, changed: true };
+    }
+
+    private addRevision(id: string, revision: number, appInfo: AppInfo, createdAt: string): void {
+        this.database.connection
+            .prepare('INSERT INTO profile_revisions (profile_id, revision, app_info, created_at) VALUES (?, ?, ?, ?)')
+            .run(id, revision, JSON.stringify(appInfo), createdAt);
+    }
+
+    // Removes its revisions and submissions too; analysis runs are kept without the profile
+    remove(id: string): AppProfile | undefined {
+        const profile = this.get(id);
+        if (profile) {
+            this.database.connection.prepare('DELETE FROM profiles WHERE id = ?').run(id);
+        }
+        return profile;
+    }
+
+    // Newest first
+    revisions(id: string): ProfileRevision[] | undefined {
+        if (!this.get(id)) {
+            return undefined;
+        }
+        const rows = this.database.connection
+            .prepare('SELECT revision, app_info, created_at FROM profile_revisions WHERE profile_id = ? ORDER BY revision DESC')
+            .all(id) as RevisionRow[];
+        return rows.map(toRevision);
+    }
+}
+
+export const appProfiles = new AppProfileStore(database, PROFILE_REVISION_LIMIT);
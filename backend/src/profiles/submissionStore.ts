@@ -0,0 +1,62 @@
+import { Submission, SubmissionInput } from '@directory-bot/contract';
+import { database, SqliteDatabase } from '../db/database';
+
+interface SubmissionRow {
+    profile_id: string;
+    site_id: string;
+    status: Submission['status'];
+    note: string | null;
+    submitted_at: string | null;
+    updated_at: string;
+}
+
+function toSubmission(row: SubmissionRow): Submission {
+    return {
+        profileId: row.profile_id,
+        siteId: row.site_id,
+        status: row.status,
+        note: row.note,
+        submittedAt: row.submitted_at,
+        updatedAt: row.updated_at
+    };
+}
+
+/**
+ * Where each saved app stands with each directory, in the `submissions` table
+ */
+export class SubmissionStore {
+    constructor(private readonly database: SqliteDatabase) {}
+
+    // Most recently updated first
+    list(profileId: string): Submission[] {
+        const rows = this.database.connection
+            .prepare('SELECT * FROM submissions WHERE profile_id = ? ORDER BY updated_at DESC, site_id')
+            .all(profileId) as SubmissionRow[];
+        return rows.map(toSubmission);
+    }
+
+    get(profileId: string, siteId: string): Submission | undefined {
+        const row = this.database.connection
+            .prepare('SELECT * FROM submissions WHERE profile_id = ? AND site_id = ?')
+            .get(profileId, siteId) as SubmissionRow | undefined;
+        return row && toSubmission(row);
+    }
+
+    /**
+     * Record a directory's status for a profile. `submittedAt` is set the first time the status moves past `planned`.
+     */
+    set(profileId: string, siteId: string, input: SubmissionInput): Submission {
+        const previous = this.get(profileId, siteId);
+        const now = new Date().toISOString();
+        const submittedAt = previous?.submittedAt ?? (input.status === 'planned' ? null : now);
+        this.database.connection.prepare(`
+            INSERT INTO submissions (profile_id, site_id, status, note, submitted_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (profile_id, site_id) DO UPDATE SET
+                status = excluded.status, note = excluded.note, submitted_at = excluded.submitted_at, updated_at = excluded.updated_at
+        `).run(profileId, siteId, input.status, input.note ?? null, submittedAt, now);
+        return this.get(profileId, siteId)!;
+    }
+}
+
+export const submissions = new SubmissionStore(database);
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { ADMIN_TOKEN } from '../config';
+
+function tokensMatch(given: string, expected: string): boolean {
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Guard for admin endpoints: requires `Authorization: Bearer <ADMIN_TOKEN>`. Without an ADMIN_TOKEN they are disabled.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (!ADMIN_TOKEN) {
+        return res.status(503).json({ error: 'Admin endpoints are disabled: ADMIN_TOKEN is not set' });
+    }
+
+    const header = req.get('authorization') || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    if (!token || !tokensMatch(token, ADMIN_TOKEN)) {
+        return res.status(401).json({ error: 'Admin token required' });
+    }
+    next();
+}
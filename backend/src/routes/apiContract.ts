@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    CONTRACT_VERSION,
+    CONTRACT_VERSION_HEADER,
+    ContractSchema,
+    formatIssues,
+    isCompatibleContractVersion,
+    validate,
+    ValidationErrorResponse
+} from '@directory-bot/contract';
+
+/**
+ * Stamp every response with the contract version, and turn away clients built against
+ * another major version before they misread a response. Clients that send no version are served.
+ */
+export function checkContractVersion(req: Request, res: Response, next: NextFunction) {
+    res.set(CONTRACT_VERSION_HEADER, CONTRACT_VERSION);
+
+    const clientVersion = req.get(CONTRACT_VERSION_HEADER);
+    if (clientVersion && !isCompatibleContractVersion(clientVersion)) {
+        return res.status(400).json({
+            error: `API contract version mismatch: client ${clientVersion}, server ${CONTRACT_VERSION}`,
+            clientVersion,
+            serverVersion: CONTRACT_VERSION
+        });
+    }
+    next();
+}
+
+/**
+ * Check the request body against its contract schema. On success the body is replaced by the
+ * parsed one (defaults filled in, unknown keys dropped); otherwise a 400 lists every problem
+ * as `{ field, code, message }`, so clients can show each one next to its input.
+ */
+export function validateBody(schema: ContractSchema) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const result = validate(schema, req.body);
+        if (!result.success) {
+            const body: ValidationErrorResponse = {
+                error: `Invalid request: ${formatIssues(result.issues)}`,
+                errors: result.issues
+            };
+            return res.status(400).json(body);
+        }
+        req.body = result.data;
+        next();
+    };
+}
@@ -0,0 +1,53 @@
+import express, { Request, Response } from 'express';
+import { CatalogSnapshotListResponse } from '@directory-bot/contract';
+import { directoryCatalog } from '../catalog/catalogService';
+import { lintExitCode } from '../catalog/catalogLint';
+import { parseCount } from '../catalog/siteQuery';
+import { catalogSnapshots } from '../catalog/snapshotStore';
+
+const router = express.Router();
+
+// Snapshots listed without a limit, and at most
+const SNAPSHOT_LIST_LIMIT = 20;
+const MAX_SNAPSHOT_LIST_LIMIT = 100;
+
+// Catalog data quality report
+router.get('/report', async (req: Request, res: Response) => {
+    try {
+        const report = directoryCatalog.getReport();
+        
+        res.status(200).json({
+            ...report,
+            exitCode: lintExitCode(report)
+        });
+    } catch (error) {
+        console.error("❌ Error in /api/catalog/report:", error);
+        res.status(500).json({ 
+            error: "Failed to build catalog report.", 
+            details: error instanceof Error ? error.message : "An unknown error occurred." 
+        });
+    }
+});
+
+// Catalog versions seen so far, newest first (supports limit)
+router.get('/snapshots', async (req: Request, res: Response) => {
+    let limit: number;
+    try {
+        limit = parseCount(req.query, 'limit', 1, MAX_SNAPSHOT_LIST_LIMIT) ?? SNAPSHOT_LIST_LIMIT;
+    } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid query' });
+    }
+
+    try {
+        const snapshots = catalogSnapshots.list(limit);
+        res.status(200).json({ count: snapshots.length, snapshots } satisfies CatalogSnapshotListResponse);
+    } catch (error) {
+        console.error("❌ Error in /api/catalog/snapshots:", error);
+        res.status(500).json({
+            error: "Failed to fetch catalog snapshots.",
+            details: error instanceof Error ? error.message : "An unknown error occurred."
+        });
+    }
+});
+
+export default router;
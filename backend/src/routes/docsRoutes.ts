@@ -0,0 +1,17 @@
+import express, { Request, Response } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { buildOpenApiDocument } from './openApi';
+
+const router = express.Router();
+
+const document = buildOpenApiDocument();
+
+// OpenAPI document, for client generation and contract tests
+router.get('/openapi.json', (req: Request, res: Response) => {
+    res.status(200).json(document);
+});
+
+// Interactive API explorer; its assets are served from the swagger-ui-dist package
+router.use('/docs', swaggerUi.serve, swaggerUi.setup(document, { customSiteTitle: 'Directory Bot API' }));
+
+export default router;
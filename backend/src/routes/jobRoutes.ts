@@ -0,0 +1,155 @@
+import express, { Request, Response } from 'express';
+import { BulkAnalysisRequestSchema, JOB_STATUSES, JobListResponse } from '@directory-bot/contract';
+import { BulkRequestError, parseBulkAnalysisRequest } from '../answers/bulkRequest';
+import { firstValue, parseCount, QueryParams } from '../catalog/siteQuery';
+import { isFinished, JobEvent, JobStatus, toJobSummary, toJobView } from '../jobs/analysisJob';
+import { analysisJobs, JobConflictError } from '../jobs/jobQueue';
+import { JobListFilter } from '../jobs/jobStore';
+import { ValidationError } from '../validation';
+import { validateBody } from './apiContract';
+
+const router = express.Router();
+
+// Comment line sent on idle event streams so proxies keep them open
+const HEARTBEAT_MS = 15000;
+// Jobs listed by GET /api/jobs without a limit, and at most
+const JOB_LIST_LIMIT = 20;
+const MAX_JOB_LIST_LIMIT = 100;
+
+function sendJobError(res: Response, route: string, error: unknown, message: string) {
+    if (error instanceof BulkRequestError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+    }
+    if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message });
+    }
+
+    console.error(`❌ Error in ${route}:`, error);
+    return res.status(500).json({
+        error: message,
+        details: error instanceof Error ? error.message : "An unknown error occurred."
+    });
+}
+
+function parseJobListQuery(params: QueryParams): JobListFilter {
+    const status = firstValue(params.status);
+    if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+        throw new ValidationError(`status must be one of ${JOB_STATUSES.join(', ')}`, 'invalid-status');
+    }
+    return {
+        profileId: firstValue(params.profileId),
+        status: status as JobStatus | undefined,
+        limit: parseCount(params, 'limit', 1, MAX_JOB_LIST_LIMIT) ?? JOB_LIST_LIMIT
+    };
+}
+
+// Past and current jobs, newest first (supports profileId, status and limit)
+router.get('/', async (req: Request, res: Response) => {
+    let filter: JobListFilter;
+    try {
+        filter = parseJobListQuery(req.query);
+    } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid query' });
+    }
+
+    try {
+        const jobs = analysisJobs.list(filter).map(toJobSummary);
+        res.status(200).json({
+            count: jobs.length,
+            jobs,
+            timestamp: new Date().toISOString()
+        } satisfies JobListResponse);
+    } catch (error) {
+        sendJobError(res, 'GET /api/jobs', error, "Failed to fetch analysis jobs.");
+    }
+});
+
+// Start a bulk analysis in the background; same body as POST /api/analyze-all
+router.post('/', validateBody(BulkAnalysisRequestSchema), async (req: Request, res: Response) => {
+    try {
+        const request = parseBulkAnalysisRequest(req.body);
+        const job = analysisJobs.create(request);
+        console.log(`📥 Queued analysis job ${job.id} for ${request.appInfo.name}: ${job.sites.length} directories`);
+        res.status(202).location(`/api/jobs/${job.id}`).json({ job: toJobView(job) });
+    } catch (error) {
+        sendJobError(res, 'POST /api/jobs', error, "Failed to start analysis job.");
+    }
+});
+
+// Status, progress and the results so far
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const job = analysisJobs.get(req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+        }
+        res.status(200).json({ job: toJobView(job) });
+    } catch (error) {
+        sendJobError(res, `GET /api/jobs/${req.params.id}`, error, "Failed to fetch analysis job.");
+    }
+});
+
+// Server-Sent Events: a `snapshot` of the job, then `site` and `status` events until it finishes
+router.get('/:id/events', (req: Request, res: Response) => {
+    const job = analysisJobs.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('snapshot', toJobView(job));
+    if (isFinished(job)) {
+        return res.end();
+    }
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+    };
+    const unsubscribe = analysisJobs.subscribe(job.id, (event: JobEvent) => {
+        send(event.type, event);
+        if (event.type === 'status' && isFinished(event)) {
+            close();
+        }
+    });
+    req.on('close', close);
+});
+
+// Stop a queued or running job; finished directories are kept
+router.post('/:id/cancel', async (req: Request, res: Response) => {
+    try {
+        const job = analysisJobs.cancel(req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+        }
+        res.status(200).json({ job: toJobView(job) });
+    } catch (error) {
+        sendJobError(res, `POST /api/jobs/${req.params.id}/cancel`, error, "Failed to cancel analysis job.");
+    }
+});
+
+// Run the failed and cancelled directories of a finished job again
+router.post('/:id/retry', async (req: Request, res: Response) => {
+    try {
+        const job = analysisJobs.retry(req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+        }
+        res.status(202).json({ job: toJobView(job) });
+    } catch (error) {
+        sendJobError(res, `POST /api/jobs/${req.params.id}/retry`, error, "Failed to retry analysis job.");
+    }
+});
+
+export default router;
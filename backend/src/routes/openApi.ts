@@ -0,0 +1,531 @@
+import {
+    AnalyzeAllResponseSchema,
+    AnalyzeSiteRequestSchema,
+    AnswerFormatSchema,
+    AnswerOverrideInputSchema,
+    AnswerOverrideListResponseSchema,
+    AnswerOverrideResponseSchema,
+    AnalysisJobSchema,
+    AppInfoSchema,
+    BulkAnalysisRequestSchema,
+    CatalogSnapshotListResponseSchema,
+    CONTRACT_VERSION,
+    CONTRACT_VERSION_HEADER,
+    DirectoryAnalysisSchema,
+    DirectoryDetailsResponseSchema,
+    ErrorResponseSchema,
+    GenerateCustomAnswersResponseSchema,
+    JobListResponseSchema,
+    JobResponseSchema,
+    JobSiteEventSchema,
+    JobStatusEventSchema,
+    JsonSchema,
+    PackListResponseSchema,
+    ProfileDeletedResponseSchema,
+    ProfileInputSchema,
+    ProfileListResponseSchema,
+    ProfileResponseSchema,
+    ProfileRevisionListResponseSchema,
+    ProfileRevisionResponseSchema,
+    PromoteOverrideRequestSchema,
+    QuestionInputSchema,
+    SiteDeletedResponseSchema,
+    SiteFilterSchema,
+    SiteInputSchema,
+    SiteListResponseSchema,
+    SiteResponseSchema,
+    SiteUpdateSchema,
+    SubmissionInputSchema,
+    SubmissionListResponseSchema,
+    SubmissionResponseSchema,
+    toJsonSchemas,
+    ValidationErrorResponseSchema
+} from '@directory-bot/contract';
+
+const SCHEMA_REF = '#/components/schemas/';
+
+// Request bodies, described as clients may send them (fields with defaults are optional)
+const REQUEST_SCHEMAS = {
+    AppInfoInput: AppInfoSchema,
+    AnswerFormat: AnswerFormatSchema,
+    SiteFilter: SiteFilterSchema,
+    AnalyzeSiteRequest: AnalyzeSiteRequestSchema,
+    BulkAnalysisRequest: BulkAnalysisRequestSchema,
+    SiteInput: SiteInputSchema,
+    SiteUpdate: SiteUpdateSchema,
+    QuestionInput: QuestionInputSchema,
+    AnswerOverrideInput: AnswerOverrideInputSchema,
+    PromoteOverrideRequest: PromoteOverrideRequestSchema,
+    ProfileInput: ProfileInputSchema,
+    SubmissionInput: SubmissionInputSchema
+};
+
+// Response bodies, as the server returns them
+const RESPONSE_SCHEMAS = {
+    ErrorResponse: ErrorResponseSchema,
+    ValidationErrorResponse: ValidationErrorResponseSchema,
+    DirectoryAnalysis: DirectoryAnalysisSchema,
+    AnalyzeAllResponse: AnalyzeAllResponseSchema,
+    GenerateCustomAnswersResponse: GenerateCustomAnswersResponseSchema,
+    SiteListResponse: SiteListResponseSchema,
+    DirectoryDetailsResponse: DirectoryDetailsResponseSchema,
+    SiteResponse: SiteResponseSchema,
+    SiteDeletedResponse: SiteDeletedResponseSchema,
+    PackListResponse: PackListResponseSchema,
+    CatalogSnapshotListResponse: CatalogSnapshotListResponseSchema,
+    AnalysisJob: AnalysisJobSchema,
+    JobResponse: JobResponseSchema,
+    JobListResponse: JobListResponseSchema,
+    JobSiteEvent: JobSiteEventSchema,
+    JobStatusEvent: JobStatusEventSchema,
+    AnswerOverrideResponse: AnswerOverrideResponseSchema,
+    AnswerOverrideListResponse: AnswerOverrideListResponseSchema,
+    ProfileResponse: ProfileResponseSchema,
+    ProfileListResponse: ProfileListResponseSchema,
+    ProfileRevisionListResponse: ProfileRevisionListResponseSchema,
+    ProfileRevisionResponse: ProfileRevisionResponseSchema,
+    ProfileDeletedResponse: ProfileDeletedResponseSchema,
+    SubmissionResponse: SubmissionResponseSchema,
+    SubmissionListResponse: SubmissionListResponseSchema
+};
+
+type ResponseSchemaName = keyof typeof RESPONSE_SCHEMAS;
+
+interface ApiParameter {
+    name: string;
+    in: 'path' | 'query';
+    description: string;
+    type?: 'string' | 'integer';
+}
+
+interface ApiResponse {
+    description: string;
+    // A response schema, or a plain object for responses the contract does not describe
+    schema?: ResponseSchemaName;
+}
+
+interface ApiOperation {
+    method: 'get' | 'post' | 'put' | 'delete';
+    // OpenAPI style, e.g. /api/sites/{id}
+    path: string;
+    tag: string;
+    // Method name in generated clients
+    operationId: string;
+    summary: string;
+    description?: string;
+    parameters?: ApiParameter[];
+    body?: keyof typeof REQUEST_SCHEMAS;
+    responses: Record<number, ApiResponse>;
+    // Requires `Authorization: Bearer <ADMIN_TOKEN>`; disabled while ADMIN_TOKEN is unset
+    admin?: boolean;
+    // Server-Sent Events instead of a JSON body
+    eventStream?: boolean;
+}
+
+const SITE_QUERY_PARAMETERS: ApiParameter[] = [
+    { name: 'pack', in: 'query', description: 'Pack ids, comma-separated' },
+    { name: 'q', in: 'query', description: 'Text searched in directory URLs and questions' },
+    { name: 'category', in: 'query', description: 'Categories, comma-separated' },
+    { name: 'minQuestions', in: 'query', description: 'Fewest questions a directory may have', type: 'integer' },
+    { name: 'maxQuestions', in: 'query', description: 'Most questions a directory may have', type: 'integer' },
+    { name: 'sort', in: 'query', description: 'url, id, category or questionCount; prefix with - for descending' },
+    { name: 'limit', in: 'query', description: 'Page size; without it the whole (filtered) list is returned', type: 'integer' },
+    { name: 'offset', in: 'query', description: 'Directories to skip, when no cursor is given', type: 'integer' },
+    { name: 'cursor', in: 'query', description: 'The nextCursor of the previous page' }
+];
+
+const pathParameter = (name: string, description: string): ApiParameter => ({ name, in: 'path', description });
+
+const SITE_ID = pathParameter('id', 'Directory id');
+const QUESTION_ID = pathParameter('questionId', '1-based question position');
+const JOB_ID = pathParameter('id', 'Job id');
+const OVERRIDE_ID = pathParameter('id', 'Override id');
+const PROFILE_ID = pathParameter('id', 'Profile id');
+
+// `errors` is only listed when the body does not match its contract schema
+const invalidBody: ApiResponse = { description: 'Invalid request body', schema: 'ValidationErrorResponse' };
+const invalidQuery: ApiResponse = { description: 'Invalid query parameter', schema: 'ErrorResponse' };
+const notFound = (description: string): ApiResponse => ({ description, schema: 'ErrorResponse' });
+const conflict = (description: string): ApiResponse => ({ description, schema: 'ErrorResponse' });
+
+/**
+ * Every endpoint of the API. Keep in step with the routes in server.ts and src/routes.
+ */
+const API_OPERATIONS: ApiOperation[] = [
+    {
+        method: 'get', path: '/api/health', tag: 'Status', operationId: 'getHealth',
+        summary: 'Server, catalog and answer provider status',
+        responses: { 200: { description: 'The server is up' } }
+    },
+    {
+        method: 'get', path: '/api/sites', tag: 'Directories', operationId: 'listSites',
+        summary: 'List directories',
+        parameters: SITE_QUERY_PARAMETERS,
+        responses: { 200: { description: 'One page of directories', schema: 'SiteListResponse' }, 400: invalidQuery, 404: notFound('Unknown pack') }
+    },
+    {
+        method: 'post', path: '/api/sites', tag: 'Directories', operationId: 'createSite',
+        summary: 'Add a directory',
+        body: 'SiteInput',
+        admin: true,
+        responses: { 201: { description: 'The directory as added', schema: 'SiteResponse' }, 400: invalidBody, 409: conflict('The id is taken, or the catalog cannot be edited') }
+    },
+    {
+        method: 'get', path: '/api/sites/{id}', tag: 'Directories', operationId: 'getSite',
+        summary: 'One directory with its questions',
+        description: 'Links that only know the directory URL may pass it, encoded, instead of the id.',
+        parameters: [SITE_ID],
+        responses: { 200: { description: 'The directory', schema: 'SiteResponse' }, 404: notFound('Directory not found') }
+    },
+    {
+        method: 'put', path: '/api/sites/{id}', tag: 'Directories', operationId: 'updateSite',
+        summary: "Update a directory's URL, category or questions",
+        parameters: [SITE_ID],
+        body: 'SiteUpdate',
+        admin: true,
+        responses: {
+            200: { description: 'The updated directory', schema: 'SiteResponse' },
+            400: invalidBody,
+            404: notFound('Directory not found'),
+            409: conflict('The catalog cannot be edited')
+        }
+    },
+    {
+        method: 'delete', path: '/api/sites/{id}', tag: 'Directories', operationId: 'deleteSite',
+        summary: 'Remove a directory',
+        parameters: [SITE_ID],
+        admin: true,
+        responses: { 200: { description: 'The directory was removed', schema: 'SiteDeletedResponse' }, 404: notFound('Directory not found') }
+    },
+    {
+        method: 'post', path: '/api/sites/{id}/questions', tag: 'Directories', operationId: 'addQuestion',
+        summary: 'Append a question to a directory',
+        parameters: [SITE_ID],
+        body: 'QuestionInput',
+        admin: true,
+        responses: { 201: { description: 'The updated directory', schema: 'SiteResponse' }, 400: invalidBody, 404: notFound('Directory not found') }
+    },
+    {
+        method: 'put', path: '/api/sites/{id}/questions/{questionId}', tag: 'Directories', operationId: 'updateQuestion',
+        summary: 'Replace one question',
+        parameters: [SITE_ID, QUESTION_ID],
+        body: 'QuestionInput',
+        admin: true,
+        responses: { 200: { description: 'The updated directory', schema: 'SiteResponse' }, 400: invalidBody, 404: notFound('Directory or question not found') }
+    },
+    {
+        method: 'delete', path: '/api/sites/{id}/questions/{questionId}', tag: 'Directories', operationId: 'deleteQuestion',
+        summary: 'Remove one question',
+        parameters: [SITE_ID, QUESTION_ID],
+        admin: true,
+        responses: {
+            200: { description: 'The updated directory', schema: 'SiteResponse' },
+            404: notFound('Directory or question not found'),
+            409: conflict('The last question of a directory cannot be removed')
+        }
+    },
+    {
+        method: 'get', path: '/api/directory-details', tag: 'Directories', operationId: 'listDirectoryDetails',
+        summary: 'List directories with sample questions',
+        parameters: [
+            ...SITE_QUERY_PARAMETERS,
+            { name: 'sampleSize', in: 'query', description: 'Sample questions per directory: a number, or all (default 3)' }
+        ],
+        responses: { 200: { description: 'One page of directories', schema: 'DirectoryDetailsResponse' }, 400: invalidQuery, 404: notFound('Unknown pack') }
+    },
+    {
+        method: 'get', path: '/api/packs', tag: 'Directories', operationId: 'listPacks',
+        summary: 'Directory packs (workbook sheets and data files)',
+        responses: { 200: { description: 'All packs', schema: 'PackListResponse' } }
+    },
+    {
+        method: 'get', path: '/api/catalog/report', tag: 'Directories', operationId: 'getCatalogReport',
+        summary: 'Catalog data quality report',
+        responses: { 200: { description: 'Findings of the catalog lint' } }
+    },
+    {
+        method: 'get', path: '/api/catalog/snapshots', tag: 'Directories', operationId: 'listCatalogSnapshots',
+        summary: 'Catalog versions seen so far, newest first',
+        description: 'A snapshot is kept whenever the loaded catalog differs from the previous one.',
+        parameters: [{ name: 'limit', in: 'query', description: 'Most snapshots to return (1-100, default 20)', type: 'integer' }],
+        responses: { 200: { description: 'The snapshots', schema: 'CatalogSnapshotListResponse' }, 400: invalidQuery }
+    },
+    {
+        method: 'post', path: '/api/analyze-site', tag: 'Answers', operationId: 'analyzeSite',
+        summary: "Answer one directory's questions",
+        description: 'The app is sent as appInfo or picked by profileId; the directory is picked by siteId or siteUrl. questionIds limits the run to some of its questions.',
+        body: 'AnalyzeSiteRequest',
+        responses: { 200: { description: 'The answers', schema: 'DirectoryAnalysis' }, 400: invalidBody, 404: notFound('Unknown profile, directory, pack or question') }
+    },
+    {
+        method: 'post', path: '/api/analyze-all', tag: 'Answers', operationId: 'analyzeAll',
+        summary: 'Answer many directories in one request',
+        description: 'The app is sent as appInfo or picked by profileId. siteIds and siteUrls narrow the catalog first, then filter applies to what is left.',
+        body: 'BulkAnalysisRequest',
+        responses: { 200: { description: 'One result per directory', schema: 'AnalyzeAllResponse' }, 400: invalidBody, 404: notFound('Unknown profile, directory or pack') }
+    },
+    {
+        method: 'post', path: '/api/generate-custom-answers', tag: 'Answers', operationId: 'generateCustomAnswers',
+        summary: 'Questions and answers only, for many directories',
+        description: 'Same body as POST /api/analyze-all. Answers one page of the matching directories; pass nextCursor as filter.cursor for the next page.',
+        body: 'BulkAnalysisRequest',
+        responses: { 200: { description: 'The answers per directory', schema: 'GenerateCustomAnswersResponse' }, 400: invalidBody, 404: notFound('Unknown profile, directory or pack') }
+    },
+    {
+        method: 'post', path: '/api/test-analysis', tag: 'Answers', operationId: 'testAnalysis',
+        summary: 'Answer a few common questions, for debugging',
+        responses: { 200: { description: 'The test answers and the data they were taken from' }, 400: { description: 'Missing appInfo or siteUrl', schema: 'ErrorResponse' } }
+    },
+    {
+        method: 'get', path: '/api/jobs', tag: 'Jobs', operationId: 'listJobs',
+        summary: 'Past and current jobs, newest first',
+        description: "Finished jobs are kept. Each job comes without its directories; GET /api/jobs/{id} has them with their answers.",
+        parameters: [
+            { name: 'profileId', in: 'query', description: 'Only jobs started from this profile' },
+            { name: 'status', in: 'query', description: 'queued, running, completed, failed or cancelled' },
+            { name: 'limit', in: 'query', description: 'Most jobs to return (1-100, default 20)', type: 'integer' }
+        ],
+        responses: { 200: { description: 'The jobs', schema: 'JobListResponse' }, 400: invalidQuery }
+    },
+    {
+        method: 'post', path: '/api/jobs', tag: 'Jobs', operationId: 'startJob',
+        summary: 'Start a bulk analysis in the background',
+        description: 'Same body as POST /api/analyze-all.',
+        body: 'BulkAnalysisRequest',
+        responses: { 202: { description: 'The queued job', schema: 'JobResponse' }, 400: invalidBody, 404: notFound('Unknown profile, directory or pack') }
+    },
+    {
+        method: 'get', path: '/api/jobs/{id}', tag: 'Jobs', operationId: 'getJob',
+        summary: 'Status, progress and the results so far',
+        parameters: [JOB_ID],
+        responses: { 200: { description: 'The job', schema: 'JobResponse' }, 404: notFound('Job not found') }
+    },
+    {
+        method: 'get', path: '/api/jobs/{id}/events', tag: 'Jobs', operationId: 'streamJobEvents',
+        summary: "Follow a job's progress",
+        description: 'Server-Sent Events: a `snapshot` event with the job, then `site` and `status` events until it finishes.',
+        parameters: [JOB_ID],
+        eventStream: true,
+        responses: { 200: { description: 'The event stream' }, 404: notFound('Job not found') }
+    },
+    {
+        method: 'post', path: '/api/jobs/{id}/cancel', tag: 'Jobs', operationId: 'cancelJob',
+        summary: 'Stop a queued or running job',
+        parameters: [JOB_ID],
+        responses: { 200: { description: 'The cancelled job', schema: 'JobResponse' }, 404: notFound('Job not found'), 409: conflict('The job already finished') }
+    },
+    {
+        method: 'post', path: '/api/jobs/{id}/retry', tag: 'Jobs', operationId: 'retryJob',
+        summary: 'Run the failed and cancelled directories of a finished job again',
+        parameters: [JOB_ID],
+        responses: { 202: { description: 'The queued job', schema: 'JobResponse' }, 404: notFound('Job not found'), 409: conflict('The job is still running or has nothing to retry') }
+    },
+    {
+        method: 'get', path: '/api/profiles', tag: 'Profiles', operationId: 'listProfiles',
+        summary: 'Saved apps, most recently updated first',
+        responses: { 200: { description: 'All profiles', schema: 'ProfileListResponse' } }
+    },
+    {
+        method: 'post', path: '/api/profiles', tag: 'Profiles', operationId: 'createProfile',
+        summary: 'Save an app',
+        body: 'ProfileInput',
+        responses: { 201: { description: 'The saved profile, at revision 1', schema: 'ProfileResponse' }, 400: invalidBody }
+    },
+    {
+        method: 'get', path: '/api/profiles/{id}', tag: 'Profiles', operationId: 'getProfile',
+        summary: 'One app, as its latest revision',
+        parameters: [PROFILE_ID],
+        responses: { 200: { description: 'The profile', schema: 'ProfileResponse' }, 404: notFound('Profile not found') }
+    },
+    {
+        method: 'put', path: '/api/profiles/{id}', tag: 'Profiles', operationId: 'updateProfile',
+        summary: "Replace an app's info",
+        description: 'Adds a revision, unless the app info is unchanged; earlier revisions stay in the history.',
+        parameters: [PROFILE_ID],
+        body: 'ProfileInput',
+        responses: { 200: { description: 'The updated profile', schema: 'ProfileResponse' }, 400: invalidBody, 404: notFound('Profile not found') }
+    },
+    {
+        method: 'delete', path: '/api/profiles/{id}', tag: 'Profiles', operationId: 'deleteProfile',
+        summary: 'Remove an app with all its revisions',
+        parameters: [PROFILE_ID],
+        responses: { 200: { description: 'The profile was removed', schema: 'ProfileDeletedResponse' }, 404: notFound('Profile not found') }
+    },
+    {
+        method: 'get', path: '/api/profiles/{id}/revisions', tag: 'Profiles', operationId: 'listProfileRevisions',
+        summary: "An app's revision history, newest first",
+        parameters: [PROFILE_ID],
+        responses: { 200: { description: 'The revisions kept', schema: 'ProfileRevisionListResponse' }, 404: notFound('Profile not found') }
+    },
+    {
+        method: 'get', path: '/api/profiles/{id}/revisions/{revision}', tag: 'Profiles', operationId: 'getProfileRevision',
+        summary: 'One earlier revision of an app',
+        parameters: [PROFILE_ID, { name: 'revision', in: 'path', description: 'Revision number', type: 'integer' }],
+        responses: {
+            200: { description: 'The revision', schema: 'ProfileRevisionResponse' },
+            400: { description: 'The revision is not a whole number', schema: 'ErrorResponse' },
+            404: notFound('Profile or revision not found')
+        }
+    },
+    {
+        method: 'get', path: '/api/profiles/{id}/submissions', tag: 'Profiles', operationId: 'listSubmissions',
+        summary: 'Where an app stands with each directory, most recently updated first',
+        parameters: [PROFILE_ID],
+        responses: { 200: { description: 'The submissions', schema: 'SubmissionListResponse' }, 404: notFound('Profile not found') }
+    },
+    {
+        method: 'put', path: '/api/profiles/{id}/submissions/{siteId}', tag: 'Profiles', operationId: 'updateSubmission',
+        summary: "Record an app's status with one directory",
+        parameters: [PROFILE_ID, pathParameter('siteId', 'Directory id or URL')],
+        body: 'SubmissionInput',
+        responses: { 200: { description: 'The submission', schema: 'SubmissionResponse' }, 400: invalidBody, 404: notFound('Profile or directory not found') }
+    },
+    {
+        method: 'post', path: '/api/overrides', tag: 'Overrides', operationId: 'recordOverride',
+        summary: "Record a user's correction for a question",
+        description: 'Corrections stay pending until an admin approves them.',
+        body: 'AnswerOverrideInput',
+        responses: {
+            200: { description: 'An existing override was updated', schema: 'AnswerOverrideResponse' },
+            201: { description: 'The override was recorded', schema: 'AnswerOverrideResponse' },
+            400: invalidBody,
+            404: notFound('Directory not found')
+        }
+    },
+    {
+        method: 'get', path: '/api/overrides', tag: 'Overrides', operationId: 'listOverrides',
+        summary: 'Review overrides',
+        parameters: [
+            { name: 'siteId', in: 'query', description: 'A directory id, or global' },
+            { name: 'status', in: 'query', description: 'pending, active or promoted' }
+        ],
+        admin: true,
+        responses: { 200: { description: 'The overrides', schema: 'AnswerOverrideListResponse' }, 400: invalidQuery }
+    },
+    {
+        method: 'post', path: '/api/overrides/{id}/approve', tag: 'Overrides', operationId: 'approveOverride',
+        summary: 'Approve a pending override',
+        parameters: [OVERRIDE_ID],
+        admin: true,
+        responses: { 200: { description: 'The approved override', schema: 'AnswerOverrideResponse' }, 404: notFound('Override not found'), 409: conflict('The override is not pending') }
+    },
+    {
+        method: 'post', path: '/api/overrides/{id}/promote', tag: 'Overrides', operationId: 'promoteOverride',
+        summary: 'Promote an override into the global mapping rules',
+        parameters: [OVERRIDE_ID],
+        body: 'PromoteOverrideRequest',
+        admin: true,
+        responses: {
+            200: { description: 'The promoted override and its new rule' },
+            400: invalidBody,
+            404: notFound('Override not found'),
+            409: conflict('The override cannot become a rule, or MAPPING_RULES_PATH is not set')
+        }
+    },
+    {
+        method: 'delete', path: '/api/overrides/{id}', tag: 'Overrides', operationId: 'deleteOverride',
+        summary: 'Discard an override',
+        parameters: [OVERRIDE_ID],
+        admin: true,
+        responses: { 200: { description: 'The override was removed' }, 404: notFound('Override not found') }
+    }
+];
+
+function toParameter(parameter: ApiParameter) {
+    return {
+        name: parameter.name,
+        in: parameter.in,
+        description: parameter.description,
+        required: parameter.in === 'path',
+        schema: { type: parameter.type || 'string' }
+    };
+}
+
+function toResponse(response: ApiResponse, eventStream: boolean) {
+    const schema = response.schema ? { $ref: `${SCHEMA_REF}${response.schema}` } : { type: 'object' };
+    const content = eventStream
+        ? { 'text/event-stream': { schema: { oneOf: [{ $ref: `${SCHEMA_REF}JobSiteEvent` }, { $ref: `${SCHEMA_REF}JobStatusEvent` }] } } }
+        : { 'application/json': { schema } };
+    return { description: response.description, content };
+}
+
+/**
+ * The OpenAPI 3.1 document of the API, with request and response schemas taken from the
+ * shared contract package.
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+    API_OPERATIONS.forEach(operation => {
+        const responses = Object.fromEntries(Object.entries(operation.responses).map(([status, response]) => [
+            status,
+            // Only the successful response of an event stream is a stream
+            toResponse(response, Boolean(operation.eventStream) && Number(status) < 300)
+        ]));
+        if (operation.admin) {
+            responses[401] = toResponse({ description: 'Missing or wrong admin token', schema: 'ErrorResponse' }, false);
+            responses[503] = toResponse({ description: 'Admin endpoints are disabled: ADMIN_TOKEN is not set', schema: 'ErrorResponse' }, false);
+        }
+        responses[500] = toResponse({ description: 'Unexpected server error', schema: 'ErrorResponse' }, false);
+
+        paths[operation.path] = {
+            ...paths[operation.path],
+            [operation.method]: {
+                tags: [operation.tag],
+                operationId: operation.operationId,
+                summary: operation.summary,
+                ...(operation.description && { description: operation.description }),
+                parameters: [
+                    ...(operation.parameters || []).map(toParameter),
+                    { $ref: '#/components/parameters/ContractVersion' }
+                ],
+                ...(operation.body && {
+                    requestBody: {
+                        required: true,
+                        content: { 'application/json': { schema: { $ref: `${SCHEMA_REF}${operation.body}` } } }
+                    }
+                }),
+                responses,
+                security: operation.admin ? [{ adminToken: [] }] : []
+            }
+        };
+    });
+
+    const schemas: Record<string, JsonSchema> = {
+        ...toJsonSchemas(REQUEST_SCHEMAS, 'input', SCHEMA_REF),
+        ...toJsonSchemas(RESPONSE_SCHEMAS, 'output', SCHEMA_REF)
+    };
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'Directory Bot API',
+            version: CONTRACT_VERSION,
+            description: `Answers directory submission forms from an app profile. The version is the API contract version, sent in the ${CONTRACT_VERSION_HEADER} header of every response; requests may send it too, and are turned away with a 400 when the major version differs.`
+        },
+        servers: [{ url: '/', description: 'This server' }],
+        tags: [
+            { name: 'Status', description: 'Server health' },
+            { name: 'Directories', description: 'The directory catalog' },
+            { name: 'Answers', description: 'Answers to directory questions' },
+            { name: 'Jobs', description: 'Bulk analyses run in the background' },
+            { name: 'Profiles', description: 'Saved apps, their revisions and directory submissions. Profiles have no owner: every caller can list and change all of them.' },
+            { name: 'Overrides', description: 'User corrections to answers' }
+        ],
+        paths,
+        components: {
+            schemas,
+            parameters: {
+                ContractVersion: {
+                    name: CONTRACT_VERSION_HEADER,
+                    in: 'header',
+                    required: false,
+                    description: 'API contract version the client was built against',
+                    schema: { type: 'string', example: CONTRACT_VERSION }
+                }
+            },
+            securitySchemes: {
+                adminToken: { type: 'http', scheme: 'bearer', description: 'ADMIN_TOKEN of the server' }
+            }
+        }
+    };
+}
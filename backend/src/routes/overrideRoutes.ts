@@ -0,0 +1,115 @@
+import express, { Request, Response } from 'express';
+import { AnswerOverrideInputSchema, PromoteOverrideRequestSchema } from '@directory-bot/contract';
+import { directoryCatalog } from '../catalog/catalogService';
+import { OverrideStatus, parseOverrideInput } from '../mapping/answerOverrides';
+import { answerOverrides, OverrideConflictError, OverrideFilter } from '../mapping/overrideStore';
+import { ValidationError } from '../validation';
+import { requireAdmin } from './adminAuth';
+import { validateBody } from './apiContract';
+
+const router = express.Router();
+
+const OVERRIDE_STATUSES: OverrideStatus[] = ['pending', 'active', 'promoted'];
+
+function sendOverrideError(res: Response, route: string, error: unknown, message: string) {
+    if (error instanceof ValidationError) {
+        return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof OverrideConflictError) {
+        return res.status(409).json({ error: error.message });
+    }
+
+    console.error(`❌ Error in ${route}:`, error);
+    return res.status(500).json({
+        error: message,
+        details: error instanceof Error ? error.message : "An unknown error occurred."
+    });
+}
+
+// Record a user's correction for a question, globally or for one directory; it applies once an admin approves it
+router.post('/', validateBody(AnswerOverrideInputSchema), async (req: Request, res: Response) => {
+    try {
+        const input = parseOverrideInput(req.body);
+        if (input.siteId && !directoryCatalog.findSite(input.siteId)) {
+            return res.status(404).json({ error: `Directory not found: ${input.siteId}` });
+        }
+
+        const { override, created } = answerOverrides.record(input);
+        console.log(`📝 ${created ? 'Recorded' : 'Updated'} answer override ${override.id}`);
+        res.status(created ? 201 : 200).json({ override });
+    } catch (error) {
+        sendOverrideError(res, 'POST /api/overrides', error, "Failed to record answer override.");
+    }
+});
+
+// Review overrides; ?siteId=<id> (or "global") and ?status=pending|active|promoted narrow the list
+router.get('/', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { siteId, status } = req.query;
+        if (status !== undefined && !OVERRIDE_STATUSES.includes(status as OverrideStatus)) {
+            throw new ValidationError(`status must be one of ${OVERRIDE_STATUSES.join(', ')}`, 'invalid-override-filter');
+        }
+        if (siteId !== undefined && (typeof siteId !== 'string' || !siteId)) {
+            throw new ValidationError('siteId must be a directory id or "global"', 'invalid-override-filter');
+        }
+
+        const filter: OverrideFilter = {
+            ...(siteId !== undefined && { siteId: siteId === 'global' ? null : siteId as string }),
+            ...(status !== undefined && { status: status as OverrideStatus })
+        };
+        const overrides = answerOverrides.list(filter);
+
+        res.status(200).json({
+            count: overrides.length,
+            overrides,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        sendOverrideError(res, 'GET /api/overrides', error, "Failed to fetch answer overrides.");
+    }
+});
+
+// Approve a pending override
+router.post('/:id/approve', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const override = answerOverrides.approve(req.params.id);
+        if (!override) {
+            return res.status(404).json({ error: `Override not found: ${req.params.id}` });
+        }
+        console.log(`✅ Approved answer override ${override.id}`);
+        res.status(200).json({ override });
+    } catch (error) {
+        sendOverrideError(res, 'POST /api/overrides/:id/approve', error, "Failed to approve answer override.");
+    }
+});
+
+// Promote an override into the global mapping rules
+router.post('/:id/promote', requireAdmin, validateBody(PromoteOverrideRequestSchema), async (req: Request, res: Response) => {
+    try {
+        const { priority } = req.body;
+        const result = answerOverrides.promote(req.params.id, priority);
+        if (!result) {
+            return res.status(404).json({ error: `Override not found: ${req.params.id}` });
+        }
+        console.log(`⬆️ Promoted answer override ${result.override.id} to rule ${result.rule.id}`);
+        res.status(200).json(result);
+    } catch (error) {
+        sendOverrideError(res, 'POST /api/overrides/:id/promote', error, "Failed to promote answer override.");
+    }
+});
+
+// Discard an override
+router.delete('/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const override = answerOverrides.remove(req.params.id);
+        if (!override) {
+            return res.status(404).json({ error: `Override not found: ${req.params.id}` });
+        }
+        console.log(`🗑️ Deleted answer override ${override.id}`);
+        res.status(200).json({ deleted: override.id });
+    } catch (error) {
+        sendOverrideError(res, 'DELETE /api/overrides/:id', error, "Failed to delete answer override.");
+    }
+});
+
+export default router;
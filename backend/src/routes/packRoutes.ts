@@ -0,0 +1,25 @@
+import express, { Request, Response } from 'express';
+import { directoryCatalog } from '../catalog/catalogService';
+
+const router = express.Router();
+
+// List directory packs (one per workbook sheet or data file)
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const packs = directoryCatalog.getPacks();
+        
+        res.status(200).json({
+            count: packs.length,
+            packs,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        console.error("❌ Error in /api/packs:", error);
+        res.status(500).json({ 
+            error: "Failed to fetch directory packs.", 
+            details: error instanceof Error ? error.message : "An unknown error occurred." 
+        });
+    }
+});
+
+export default router;
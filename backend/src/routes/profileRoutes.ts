@@ -0,0 +1,177 @@
+import express, { Request, Response } from 'express';
+import {
+    ProfileInput,
+    ProfileInputSchema,
+    ProfileListResponse,
+    ProfileRevisionListResponse,
+    ProfileRevisionResponse,
+    SubmissionInput,
+    SubmissionInputSchema,
+    SubmissionListResponse
+} from '@directory-bot/contract';
+import { directoryCatalog } from '../catalog/catalogService';
+import { appProfiles } from '../profiles/profileStore';
+import { submissions } from '../profiles/submissionStore';
+import { validateBody } from './apiContract';
+
+// Profiles have no owner: anyone who can reach the API can list, read, change and delete every
+// saved app. Serve the backend to a single team, or put it behind your own authentication.
+const router = express.Router();
+
+function sendProfileError(res: Response, route: string, error: unknown, message: string) {
+    console.error(`❌ Error in ${route}:`, error);
+    return res.status(500).json({
+        error: message,
+        details: error instanceof Error ? error.message : "An unknown error occurred."
+    });
+}
+
+function profileNotFound(res: Response, id: string) {
+    return res.status(404).json({ error: `Profile not found: ${id}` });
+}
+
+// Saved apps, most recently updated first
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const profiles = appProfiles.list();
+        res.status(200).json({
+            count: profiles.length,
+            profiles,
+            timestamp: new Date().toISOString()
+        } satisfies ProfileListResponse);
+    } catch (error) {
+        sendProfileError(res, 'GET /api/profiles', error, "Failed to fetch app profiles.");
+    }
+});
+
+// Save an app
+router.post('/', validateBody(ProfileInputSchema), async (req: Request, res: Response) => {
+    try {
+        const { appInfo }: ProfileInput = req.body;
+        const profile = appProfiles.create(appInfo);
+        console.log(`➕ Saved app profile ${profile.id} (${profile.name})`);
+        res.status(201).location(`/api/profiles/${profile.id}`).json({ profile });
+    } catch (error) {
+        sendProfileError(res, 'POST /api/profiles', error, "Failed to save app profile.");
+    }
+});
+
+// One app, as its latest revision
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const profile = appProfiles.get(req.params.id);
+        if (!profile) {
+            return profileNotFound(res, req.params.id);
+        }
+        res.status(200).json({ profile });
+    } catch (error) {
+        sendProfileError(res, 'GET /api/profiles/:id', error, "Failed to fetch app profile.");
+    }
+});
+
+// Replace an app's info; the previous info stays in its revisions
+router.put('/:id', validateBody(ProfileInputSchema), async (req: Request, res: Response) => {
+    try {
+        const { appInfo }: ProfileInput = req.body;
+        const result = appProfiles.update(req.params.id, appInfo);
+        if (!result) {
+            return profileNotFound(res, req.params.id);
+        }
+        if (result.changed) {
+            console.log(`✏️ Updated app profile ${result.profile.id} to revision ${result.profile.revision}`);
+        }
+        res.status(200).json({ profile: result.profile });
+    } catch (error) {
+        sendProfileError(res, 'PUT /api/profiles/:id', error, "Failed to update app profile.");
+    }
+});
+
+// Remove an app with all its revisions
+router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+        const profile = appProfiles.remove(req.params.id);
+        if (!profile) {
+            return profileNotFound(res, req.params.id);
+        }
+        console.log(`🗑️ Deleted app profile ${profile.id}`);
+        res.status(200).json({ deleted: profile.id });
+    } catch (error) {
+        sendProfileError(res, 'DELETE /api/profiles/:id', error, "Failed to delete app profile.");
+    }
+});
+
+// Revision history, newest first
+router.get('/:id/revisions', async (req: Request, res: Response) => {
+    try {
+        const revisions = appProfiles.revisions(req.params.id);
+        if (!revisions) {
+            return profileNotFound(res, req.params.id);
+        }
+        res.status(200).json({
+            profileId: req.params.id,
+            count: revisions.length,
+            revisions
+        } satisfies ProfileRevisionListResponse);
+    } catch (error) {
+        sendProfileError(res, 'GET /api/profiles/:id/revisions', error, "Failed to fetch profile revisions.");
+    }
+});
+
+// One earlier revision, e.g. to restore it with PUT /api/profiles/:id
+router.get('/:id/revisions/:revision', async (req: Request, res: Response) => {
+    if (!/^\d+$/.test(req.params.revision)) {
+        return res.status(400).json({ error: 'revision must be a whole number' });
+    }
+
+    try {
+        const revisions = appProfiles.revisions(req.params.id);
+        if (!revisions) {
+            return profileNotFound(res, req.params.id);
+        }
+        const revision = revisions.find(entry => entry.revision === Number(req.params.revision));
+        if (!revision) {
+            return res.status(404).json({ error: `Revision ${req.params.revision} not found for profile ${req.params.id}` });
+        }
+        res.status(200).json({ profileId: req.params.id, revision } satisfies ProfileRevisionResponse);
+    } catch (error) {
+        sendProfileError(res, 'GET /api/profiles/:id/revisions/:revision', error, "Failed to fetch profile revision.");
+    }
+});
+
+// Where the app stands with each directory it was tracked for, most recently updated first
+router.get('/:id/submissions', async (req: Request, res: Response) => {
+    try {
+        if (!appProfiles.get(req.params.id)) {
+            return profileNotFound(res, req.params.id);
+        }
+        const list = submissions.list(req.params.id);
+        res.status(200).json({
+            profileId: req.params.id,
+            count: list.length,
+            submissions: list
+        } satisfies SubmissionListResponse);
+    } catch (error) {
+        sendProfileError(res, 'GET /api/profiles/:id/submissions', error, "Failed to fetch submissions.");
+    }
+});
+
+// Record the app's status with one directory (id or URL)
+router.put('/:id/submissions/:siteId', validateBody(SubmissionInputSchema), async (req: Request, res: Response) => {
+    try {
+        if (!appProfiles.get(req.params.id)) {
+            return profileNotFound(res, req.params.id);
+        }
+        const input: SubmissionInput = req.body;
+        const site = directoryCatalog.findSite(req.params.siteId) || directoryCatalog.findSiteByUrl(req.params.siteId);
+        if (!site) {
+            return res.status(404).json({ error: `Directory not found: ${req.params.siteId}` });
+        }
+        const submission = submissions.set(req.params.id, site.id, input);
+        console.log(`📮 ${site.id} is ${submission.status} for app profile ${req.params.id}`);
+        res.status(200).json({ submission });
+    } catch (error) {
+        sendProfileError(res, 'PUT /api/profiles/:id/submissions/:siteId', error, "Failed to save submission.");
+    }
+});
+
+export default router;
@@ -0,0 +1,220 @@
+import express, { Request, Response } from 'express';
+import { QuestionInputSchema, SiteInputSchema, SiteListResponse, SiteResponse, SiteUpdateSchema } from '@directory-bot/contract';
+import { directoryCatalog } from '../catalog/catalogService';
+import { CatalogConflictError } from '../catalog/catalogTypes';
+import { findUnknownPacks } from '../catalog/packs';
+import { parseQuestionInput, parseSiteInput, parseSiteUpdate } from '../catalog/siteInput';
+import { parseSiteQuery, querySites, SiteQuery } from '../catalog/siteQuery';
+import { siteDisplayName } from '../answers/siteAnalysis';
+import { DirectoryQuestion, DirectorySite } from '../types';
+import { requireAdmin } from './adminAuth';
+import { validateBody } from './apiContract';
+
+const router = express.Router();
+
+function toSiteResponse(site: DirectorySite): SiteResponse['site'] {
+    return {
+        id: site.id,
+        url: site.url,
+        name: siteDisplayName(site.url),
+        ...(site.category && { category: site.category }),
+        ...(site.pack && { pack: site.pack }),
+        questionCount: site.questions.length,
+        questions: site.questions.map((question, index) => ({ id: index + 1, ...question }))
+    };
+}
+
+function sendCatalogError(res: Response, route: string, error: unknown, message: string) {
+    if (error instanceof CatalogConflictError) {
+        return res.status(409).json({ error: error.message });
+    }
+
+    console.error(`❌ Error in ${route}:`, error);
+    return res.status(500).json({
+        error: message,
+        details: error instanceof Error ? error.message : "An unknown error occurred."
+    });
+}
+
+// Question-level request problem with its own status code (plain errors are 400s)
+class QuestionRequestError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Resolve the 1-based question id from the route
+ */
+function questionIndex(site: DirectorySite, questionId: string): number {
+    const index = Number(questionId) - 1;
+    if (!Number.isInteger(index) || index < 0 || index >= site.questions.length) {
+        throw new QuestionRequestError(404, `Question not found: ${questionId}`);
+    }
+    return index;
+}
+
+function updateQuestions(
+    req: Request,
+    res: Response,
+    status: number,
+    change: (questions: DirectoryQuestion[], site: DirectorySite) => DirectoryQuestion[]
+) {
+    const site = directoryCatalog.findSite(req.params.id);
+    if (!site) {
+        return res.status(404).json({ error: `Directory not found: ${req.params.id}` });
+    }
+
+    let questions: DirectoryQuestion[];
+    try {
+        questions = change([...site.questions], site);
+    } catch (error) {
+        const statusCode = error instanceof QuestionRequestError ? error.status : 400;
+        return res.status(statusCode).json({ error: error instanceof Error ? error.message : 'Invalid question' });
+    }
+
+    try {
+        const updated = directoryCatalog.updateSite(site.id, { questions });
+        if (!updated) {
+            return res.status(404).json({ error: `Directory not found: ${req.params.id}` });
+        }
+        res.status(status).json({ site: toSiteResponse(updated) });
+    } catch (error) {
+        sendCatalogError(res, req.originalUrl, error, "Failed to update directory questions.");
+    }
+}
+
+// Fetch Available Sites (supports pack, q, category, minQuestions, maxQuestions, sort, limit, offset and cursor)
+router.get('/', async (req: Request, res: Response) => {
+    let query: SiteQuery;
+    try {
+        query = parseSiteQuery(req.query);
+    } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid query' });
+    }
+
+    try {
+        const unknownPacks = query.packs ? findUnknownPacks(query.packs, directoryCatalog.getPacks()) : [];
+        if (unknownPacks.length > 0) {
+            return res.status(404).json({ error: 'Unknown pack', unknownPacks });
+        }
+
+        const page = querySites(directoryCatalog.getSites(), query);
+        
+        res.status(200).json({
+            count: page.sites.length,
+            total: page.total,
+            offset: page.offset,
+            limit: page.limit,
+            nextCursor: page.nextCursor,
+            sites: page.sites.map(site => ({
+                id: site.id,
+                url: site.url,
+                name: siteDisplayName(site.url),
+                ...(site.category && { category: site.category }),
+                ...(site.pack && { pack: site.pack }),
+                questionCount: site.questions.length
+            })),
+            timestamp: new Date().toISOString()
+        } satisfies SiteListResponse);
+    } catch (error) {
+        console.error("❌ Error in /api/sites:", error);
+        res.status(500).json({ 
+            error: "Failed to fetch directory sites.", 
+            details: error instanceof Error ? error.message : "An unknown error occurred." 
+        });
+    }
+});
+
+// One directory with its questions; links that only know the URL may pass it (encoded) instead of the id
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const site = directoryCatalog.findSite(req.params.id) || directoryCatalog.findSiteByUrl(req.params.id);
+        if (!site) {
+            return res.status(404).json({ error: `Directory not found: ${req.params.id}` });
+        }
+        res.status(200).json({ site: toSiteResponse(site) });
+    } catch (error) {
+        sendCatalogError(res, 'GET /api/sites/:id', error, "Failed to fetch directory.");
+    }
+});
+
+// Add a directory
+router.post('/', requireAdmin, validateBody(SiteInputSchema), async (req: Request, res: Response) => {
+    let input;
+    try {
+        input = parseSiteInput(req.body);
+    } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid directory' });
+    }
+
+    try {
+        const site = directoryCatalog.createSite(input);
+        console.log(`➕ Added directory ${site.id} (${site.url})`);
+        res.status(201).json({ site: toSiteResponse(site) });
+    } catch (error) {
+        sendCatalogError(res, 'POST /api/sites', error, "Failed to add directory.");
+    }
+});
+
+// Update a directory's URL and/or questions
+router.put('/:id', requireAdmin, validateBody(SiteUpdateSchema), async (req: Request, res: Response) => {
+    let changes;
+    try {
+        changes = parseSiteUpdate(req.body);
+    } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid directory' });
+    }
+
+    try {
+        const site = directoryCatalog.updateSite(req.params.id, changes);
+        if (!site) {
+            return res.status(404).json({ error: `Directory not found: ${req.params.id}` });
+        }
+        console.log(`✏️ Updated directory ${site.id}`);
+        res.status(200).json({ site: toSiteResponse(site) });
+    } catch (error) {
+        sendCatalogError(res, 'PUT /api/sites/:id', error, "Failed to update directory.");
+    }
+});
+
+// Remove a directory
+router.delete('/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const site = directoryCatalog.deleteSite(req.params.id);
+        if (!site) {
+            return res.status(404).json({ error: `Directory not found: ${req.params.id}` });
+        }
+        console.log(`🗑️ Deleted directory ${site.id}`);
+        res.status(200).json({ deleted: site.id });
+    } catch (error) {
+        sendCatalogError(res, 'DELETE /api/sites/:id', error, "Failed to delete directory.");
+    }
+});
+
+// Append a question to a directory
+router.post('/:id/questions', requireAdmin, validateBody(QuestionInputSchema), async (req: Request, res: Response) => {
+    updateQuestions(req, res, 201, questions => [...questions, parseQuestionInput(req.body)]);
+});
+
+// Replace one question (ids are 1-based positions)
+router.put('/:id/questions/:questionId', requireAdmin, validateBody(QuestionInputSchema), async (req: Request, res: Response) => {
+    updateQuestions(req, res, 200, (questions, site) => {
+        questions[questionIndex(site, req.params.questionId)] = parseQuestionInput(req.body);
+        return questions;
+    });
+});
+
+// Remove one question; a directory must keep at least one
+router.delete('/:id/questions/:questionId', requireAdmin, async (req: Request, res: Response) => {
+    updateQuestions(req, res, 200, (questions, site) => {
+        const index = questionIndex(site, req.params.questionId);
+        if (questions.length === 1) {
+            throw new QuestionRequestError(409, 'Cannot remove the last question; delete the directory instead');
+        }
+        questions.splice(index, 1);
+        return questions;
+    });
+});
+
+export default router;
@@ -0,0 +1,63 @@
+/**
+ * Mapping rules check: runs the question fixtures against the rules file.
+ *
+ *   npm run check:mapping [-- <rules file>] [--fixtures <fixtures file>]
+ *
+ * Exit codes: 0 all fixtures pass, 1 a fixture maps to the wrong rule, 2 rules or fixtures could not be loaded.
+ */
+import fs from 'fs';
+import path from 'path';
+import { MAPPING_RULES_PATH } from '../config';
+import { compileMappingRules, matchQuestion } from '../mapping/mappingRules';
+
+const DEFAULT_FIXTURES_PATH = './rules/mapping-fixtures.json';
+
+interface MappingFixture {
+    question: string;
+    // Expected rule id, or null when no rule should match
+    rule: string | null;
+}
+
+function readJson(filePath: string): unknown {
+    return JSON.parse(fs.readFileSync(path.resolve(process.cwd(), filePath), 'utf8'));
+}
+
+function readFixtures(filePath: string): MappingFixture[] {
+    const cases = (readJson(filePath) as { cases?: unknown }).cases;
+    if (!Array.isArray(cases) || cases.some(item => typeof item?.question !== 'string' || (item.rule !== null && typeof item.rule !== 'string'))) {
+        throw new Error(`${filePath} must hold { "cases": [{ "question": string, "rule": string | null }] }`);
+    }
+    return cases;
+}
+
+function main(): void {
+    const args = process.argv.slice(2);
+    const fixturesIndex = args.indexOf('--fixtures');
+    const fixturesPath = fixturesIndex !== -1 ? args[fixturesIndex + 1] : DEFAULT_FIXTURES_PATH;
+    const rulesPath = args.find((arg, index) => !arg.startsWith('--') && (fixturesIndex === -1 || index !== fixturesIndex + 1))
+        || MAPPING_RULES_PATH;
+
+    let failures = 0;
+    try {
+        const rules = compileMappingRules(readJson(rulesPath));
+        const fixtures = readFixtures(fixturesPath);
+
+        console.log(`📋 Mapping rules check: ${rulesPath} (${rules.length} rules) against ${fixturesPath}`);
+        fixtures.forEach(fixture => {
+            const match = matchQuestion(rules, fixture.question);
+            const actual = match ? match.ruleId : null;
+            if (actual !== fixture.rule) {
+                failures++;
+                console.log(`   ❌ "${fixture.question}": expected ${fixture.rule ?? 'no match'}, got ${actual ?? 'no match'}${match ? ` (matched "${match.matched}")` : ''}`);
+            }
+        });
+        console.log(`\n${fixtures.length - failures}/${fixtures.length} fixture(s) passed`);
+    } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
+        process.exit(2);
+    }
+
+    process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
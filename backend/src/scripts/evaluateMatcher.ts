@@ -0,0 +1,156 @@
+/**
+ * Matcher evaluation: scores the keyword rules, the similarity matcher and the two combined
+ * against hand-labelled fields for every question in the directory data.
+ * Questions the similarity corpus already holds (the same once normalized) are left out of the scores,
+ * so the corpus cannot be tuned on the questions it is scored against.
+ * The keyword rules were written with these questions in view, so only the similarity score is held out.
+ *
+ *   npm run eval:matcher [-- <data file or directory>] [--labels <labels file>] [--verbose]
+ *
+ * Exit codes: 0 report printed, 2 data, rules, corpus or labels could not be loaded.
+ */
+import fs from 'fs';
+import path from 'path';
+import { DATA_FILE_PATH, MAPPING_RULES_PATH, MIN_SIMILARITY, QUESTION_CORPUS_PATH } from '../config';
+import { loadCatalog } from '../catalog/sources';
+import { APP_INFO_FIELDS, compileMappingRules, matchQuestion } from '../mapping/mappingRules';
+import { MappingRuleSet } from '../mapping/mappingService';
+import { parseQuestionCorpus, SimilarityMatcher } from '../mapping/similarityMatcher';
+import { AppInfoField } from '../types';
+
+const DEFAULT_LABELS_PATH = './rules/question-labels.json';
+
+type Prediction = AppInfoField | null;
+
+interface QuestionLabel {
+    question: string;
+    // Expected field, null when AppInfo cannot answer it, or a list when several answers are fine
+    field: Prediction | Prediction[];
+}
+
+interface Matcher {
+    name: string;
+    predict: (question: string) => Prediction;
+}
+
+function readJson(filePath: string): unknown {
+    return JSON.parse(fs.readFileSync(path.resolve(process.cwd(), filePath), 'utf8'));
+}
+
+function isPrediction(value: unknown): value is Prediction {
+    return value === null || APP_INFO_FIELDS.includes(value as AppInfoField);
+}
+
+function readLabels(filePath: string): Map<string, Prediction[]> {
+    const labels = (readJson(filePath) as { labels?: unknown }).labels;
+    const valid = Array.isArray(labels) && labels.every((label: QuestionLabel) =>
+        typeof label?.question === 'string'
+        && (Array.isArray(label.field) ? label.field.every(isPrediction) : isPrediction(label.field)));
+    if (!valid) {
+        throw new Error(`${filePath} must hold { "labels": [{ "question": string, "field": field | null | (field | null)[] }] }`);
+    }
+
+    return new Map((labels as QuestionLabel[]).map(label => [
+        label.question.trim(),
+        Array.isArray(label.field) ? label.field : [label.field]
+    ]));
+}
+
+// Distinct questions with how many directories ask them
+function collectQuestions(dataFile: string): Map<string, number> {
+    const { sites } = loadCatalog(path.resolve(process.cwd(), dataFile));
+    const questions = new Map<string, number>();
+    sites.forEach(site => site.questions.forEach(({ question }) => {
+        const text = question.trim();
+        questions.set(text, (questions.get(text) || 0) + 1);
+    }));
+    return questions;
+}
+
+function percent(correct: number, total: number): string {
+    return total === 0 ? 'n/a' : `${(100 * correct / total).toFixed(1)}%`;
+}
+
+function main(): void {
+    const args = process.argv.slice(2);
+    const verbose = args.includes('--verbose');
+    const labelsIndex = args.indexOf('--labels');
+    const labelsPath = labelsIndex !== -1 ? args[labelsIndex + 1] : DEFAULT_LABELS_PATH;
+    const dataFile = args.find((arg, index) => !arg.startsWith('--') && (labelsIndex === -1 || index !== labelsIndex + 1))
+        || DATA_FILE_PATH;
+
+    let questions: Map<string, number>;
+    let labels: Map<string, Prediction[]>;
+    let matchers: Matcher[];
+    let inCorpus: (question: string) => boolean;
+
+    // Keep the loaders' progress logs out of the report output
+    const log = console.log;
+    const warn = console.warn;
+    console.log = () => undefined;
+    console.warn = () => undefined;
+    try {
+        questions = collectQuestions(dataFile);
+        labels = readLabels(labelsPath);
+        const rules = compileMappingRules(readJson(MAPPING_RULES_PATH));
+        const similarity = new SimilarityMatcher(parseQuestionCorpus(readJson(QUESTION_CORPUS_PATH)), MIN_SIMILARITY);
+        const combined = new MappingRuleSet(MAPPING_RULES_PATH, QUESTION_CORPUS_PATH);
+        combined.load();
+
+        matchers = [
+            { name: 'rules', predict: question => matchQuestion(rules, question)?.field ?? null },
+            { name: 'similarity', predict: question => similarity.match(question)?.field ?? null },
+            { name: 'rules + similarity', predict: question => combined.match(question)?.field ?? null }
+        ];
+        inCorpus = question => similarity.nearest(question)?.score === 1;
+    } catch (error) {
+        console.log = log;
+        console.warn = warn;
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
+        process.exit(2);
+    }
+    console.log = log;
+    console.warn = warn;
+
+    const overlapping = [...questions.keys()].filter(question => labels.has(question) && inCorpus(question));
+    const labelled = [...questions.entries()].filter(([question]) => labels.has(question) && !overlapping.includes(question));
+    const unlabelled = [...questions.keys()].filter(question => !labels.has(question));
+    const askedTotal = labelled.reduce((sum, [, count]) => sum + count, 0);
+
+    console.log(`📋 Matcher evaluation: ${dataFile} against ${labelsPath}`);
+    console.log(`   ${labelled.length} labelled question(s) (${askedTotal} asked in total), similarity threshold ${MIN_SIMILARITY}\n`);
+
+    matchers.forEach(matcher => {
+        let correct = 0;
+        let correctAsked = 0;
+        const misses: string[] = [];
+
+        labelled.forEach(([question, count]) => {
+            const expected = labels.get(question) as Prediction[];
+            const predicted = matcher.predict(question);
+            if (expected.includes(predicted)) {
+                correct++;
+                correctAsked += count;
+            } else {
+                misses.push(`      "${question}": expected ${expected.map(field => field ?? 'none').join(' or ')}, got ${predicted ?? 'none'}`);
+            }
+        });
+
+        console.log(`   ${matcher.name.padEnd(20)} ${percent(correct, labelled.length).padStart(6)} of questions, ${percent(correctAsked, askedTotal).padStart(6)} weighted by directories`);
+        if (verbose) {
+            misses.forEach(miss => console.log(miss));
+        }
+    });
+
+    if (overlapping.length > 0) {
+        console.log(`\n⚠️ ${overlapping.length} labelled question(s) are also in ${QUESTION_CORPUS_PATH} and were not scored:`);
+        overlapping.forEach(question => console.log(`      "${question}"`));
+    }
+
+    if (unlabelled.length > 0) {
+        console.log(`\n⚠️ ${unlabelled.length} question(s) have no label in ${labelsPath}:`);
+        unlabelled.forEach(question => console.log(`      "${question}"`));
+    }
+}
+
+main();
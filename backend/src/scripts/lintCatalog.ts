@@ -0,0 +1,65 @@
+/**
+ * Catalog lint CLI: checks the directory data before it ships.
+ *
+ *   npm run lint:catalog [-- <data file or directory>] [--json] [--strict]
+ *
+ * Exit codes: 0 clean or warnings only, 1 warnings only with --strict, 2 errors, 3 data could not be loaded.
+ */
+import fs from 'fs';
+import path from 'path';
+import { DATA_FILE_PATH } from '../config';
+import { CatalogReport, CatalogFinding, lintCatalog, lintExitCode } from '../catalog/catalogLint';
+import { loadCatalog } from '../catalog/sources';
+
+function loadReport(dataFile: string): CatalogReport {
+    const resolvedPath = path.resolve(process.cwd(), dataFile);
+
+    if (!fs.existsSync(resolvedPath)) {
+        return lintCatalog({ dataFile, sites: [], rowCount: 0, issues: [], loadError: `Data file not found: ${resolvedPath}` });
+    }
+
+    try {
+        const result = loadCatalog(resolvedPath);
+        return lintCatalog({ dataFile, sites: result.sites, rowCount: result.rowCount, issues: result.issues });
+    } catch (error) {
+        const loadError = error instanceof Error ? error.message : String(error);
+        return lintCatalog({ dataFile, sites: [], rowCount: 0, issues: [], loadError });
+    }
+}
+
+function formatFinding(finding: CatalogFinding): string {
+    const location = finding.file ? `${finding.file}${finding.sheet ? ` [${finding.sheet}]` : ''}:${finding.line ?? 1}` : '(catalog)';
+    const marker = finding.severity === 'error' ? '❌' : '⚠️';
+    return `${marker} ${location}  ${finding.code}  ${finding.message}`;
+}
+
+function main(): void {
+    const args = process.argv.slice(2);
+    const json = args.includes('--json');
+    const strict = args.includes('--strict');
+    const dataFile = args.find(arg => !arg.startsWith('--')) || DATA_FILE_PATH;
+
+    // Keep the loaders' progress logs out of the report output
+    const log = console.log;
+    const warn = console.warn;
+    console.log = () => undefined;
+    console.warn = () => undefined;
+    const report = loadReport(dataFile);
+    console.log = log;
+    console.warn = warn;
+
+    const exitCode = lintExitCode(report, strict);
+
+    if (json) {
+        console.log(JSON.stringify({ ...report, exitCode }, null, 2));
+    } else {
+        console.log(`📋 Catalog lint: ${report.dataFile}`);
+        console.log(`   ${report.siteCount} directories from ${report.rowCount} rows`);
+        report.findings.forEach(finding => console.log(`   ${formatFinding(finding)}`));
+        console.log(`\n${report.summary.errors} error(s), ${report.summary.warnings} warning(s)`);
+    }
+
+    process.exit(exitCode);
+}
+
+main();
@@ -1,390 +1,87 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import fs from 'fs';
-import path from 'path';
-import XLSX from 'xlsx';
-
-dotenv.config();
+import {
+    AnalyzeAllResponse,
+    AnalyzeSiteBody,
+    AnalyzeSiteRequestSchema,
+    BulkAnalysisRequestSchema,
+    CONTRACT_VERSION,
+    CONTRACT_VERSION_HEADER,
+    DirectoryAnalysis,
+    DirectoryDetailsResponse,
+    GenerateCustomAnswersResponse
+} from '@directory-bot/contract';
+import { ADMIN_TOKEN, ANALYZE_CONCURRENCY, DATA_FILE_PATH, DATABASE_PATH, MAX_SITES_PER_RUN, PORT } from './config';
+import { getAnswerProviderStatus, getBatchAnswers } from './answers/answerService';
+import { assessAnswer } from './answers/answerStatus';
+import { AnswerFormatOptions, parseAnswerFormat } from './answers/fieldFormatters';
+import { copyAnswer } from './answers/providers';
+import { BulkRequestError, parseBulkAnalysisRequest } from './answers/bulkRequest';
+import { analyzeSite, analyzeSites, siteDisplayName, toCustomAnswers } from './answers/siteAnalysis';
+import { directoryCatalog } from './catalog/catalogService';
+import { catalogSnapshots } from './catalog/snapshotStore';
+import { database } from './db/database';
+import { mappingRules } from './mapping/mappingService';
+import { answerOverrides, matchQuestionField } from './mapping/overrideStore';
+import { analysisJobs } from './jobs/jobQueue';
+import { appProfiles } from './profiles/profileStore';
+import { findUnknownPacks, isInPacks, parsePackParam } from './catalog/packs';
+import { parseSampleSize, parseSiteQuery, querySites, SiteQuery } from './catalog/siteQuery';
+import catalogRoutes from './routes/catalogRoutes';
+import docsRoutes from './routes/docsRoutes';
+import jobRoutes from './routes/jobRoutes';
+import overrideRoutes from './routes/overrideRoutes';
+import packRoutes from './routes/packRoutes';
+import profileRoutes from './routes/profileRoutes';
+import siteRoutes from './routes/siteRoutes';
+import { checkContractVersion, validateBody } from './routes/apiContract';
+import { BatchQuestion, DirectorySite } from './types';
 
 const app = express();
-const PORT = 3004;
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || 'your_openrouter_api_key_here';
-const DATA_FILE_PATH = process.env.DATA_FILE_PATH || './data/Directory_Bot.xlsx';
-const MAX_ROWS = 1000;
-const MAX_QUESTIONS_PER_BATCH = 10;
 
 // --- Setup Middlewares ---
 app.use(cors({
-    origin: ['http://localhost:3000', 'http://localhost:12000', 'https://directory-bot.vercel.app','https://work-1-qisfyhentxwgdxaf.prod-runtime.all-hands.dev', 'https://work-2-qisfyhentxwgdxaf.prod-runtime.all-hands.dev']
+    origin: ['http://localhost:3000', 'http://localhost:12000', 'https://directory-bot.vercel.app','https://work-1-qisfyhentxwgdxaf.prod-runtime.all-hands.dev', 'https://work-2-qisfyhentxwgdxaf.prod-runtime.all-hands.dev'],
+    exposedHeaders: [CONTRACT_VERSION_HEADER]
 }));
 app.use(express.json({ limit: '10mb' }));
 
+// Contract version header on every response; clients on another major version get a 400
+app.use(checkContractVersion);
+
 // Request logging middleware
 app.use((req: Request, res: Response, next) => {
     console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
     next();
 });
 
-// --- Type Definitions ---
-interface SiteQuestion {
-    id: number;
-    question: string;
-    answer: string;
-}
-
-interface SiteAnalysis {
-    siteUrl: string;
-    siteName: string;
-    questions: SiteQuestion[];
-}
-
-// AppInfo interface matching frontend EXACTLY
-interface AppInfo {
-    // Basic Info
-    url: string;
-    name: string;
-    type: 'saas' | 'ecommerce' | 'blog' | 'portfolio' | 'webapp' | 'other';
-    description: string;
-    targetAudience: string;
-    mainFeatures: string[];
-    techStack: string[];
-    
-    // Contact Information
-    email: string;
-    companyName: string;
-    contactName: string;
-    location: string;
-    githubUrl: string;
-    launchDate: string;
-    
-    // Marketing & Categorization
-    tagline: string;
-    category: string;
-    
-    // Social & Automation Fields
-    linkedinUrl: string;
-    enableGithubActions: boolean;
-    enableLinkedinSharing: boolean;
-    xUrl: string;
-    isReleased: boolean;
-}
-
-interface DirectorySite {
-    url: string;
-    questions: string[];
-}
-
-interface BatchQuestion {
-    id: number;
-    question: string;
-}
-
-interface BatchAnswers {
-    [key: number]: string;
-}
-
 // --- Helper Functions ---
 
 /**
  * Validate all required environment variables
  */
 function validateEnvironment(): void {
-    // Always use simple copy mode
-    console.log('✅ Using simple copy responses (OpenRouter disabled)');
-    console.log('✅ Environment variables validated');
-}
-
-/**
- * Validate and sanitize URL input
- */
-function validateAndSanitizeUrl(url: string): string {
-    const trimmed = url.trim();
-    if (!trimmed) {
-        throw new Error("URL cannot be empty");
-    }
-    if (!trimmed.startsWith('http://') && !trimmed.startsWith('https://')) {
-        return `https://${trimmed}`;
+    const provider = getAnswerProviderStatus();
+    if (provider.active === 'copy') {
+        console.log('✅ Using simple copy responses (no AI provider)');
+    } else {
+        console.log(`✅ Using ${provider.active} answers (${provider.model}), copy mode as fallback`);
     }
-    return trimmed;
-}
-
-/**
- * Validate question input
- */
-function validateQuestion(question: string): string {
-    const trimmed = question.trim();
-    if (!trimmed) {
-        throw new Error("Question cannot be empty");
-    }
-    if (trimmed.length > 500) {
-        throw new Error("Question too long (max 500 characters)");
-    }
-    return trimmed;
-}
-
-/**
- * More robust sheet detection
- */
-function getDataSheet(workbook: XLSX.WorkBook): XLSX.WorkSheet {
-    const possibleNames = ['Sheet1', 'Data', 'Questions', 'URLs'];
-    const sheetName = possibleNames.find(name => workbook.SheetNames.includes(name)) || workbook.SheetNames[0];
-
-    if (!sheetName) {
-        throw new Error("No sheets found in XLSX file");
-    }
-
-    console.log(`📊 Using sheet: ${sheetName}`);
-    return workbook.Sheets[sheetName];
+    console.log('✅ Environment variables validated');
 }
 
 /**
- * Reads data from local XLSX file and structures it.
+ * Resolve the target directory by stable id, or by exact normalized URL, within the given packs
  */
-async function fetchAllSiteData(): Promise<DirectorySite[]> {
-    try {
-        const resolvedPath = path.resolve(process.cwd(), DATA_FILE_PATH);
-        if (!fs.existsSync(resolvedPath)) {
-            console.error(`❌ Data file not found: ${resolvedPath}`);
-            return [];
-        }
-
-        console.log(`📖 Reading XLSX file: ${resolvedPath}`);
-        const workbook = XLSX.readFile(resolvedPath);
-        const worksheet = getDataSheet(workbook);
-        const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as string[][];
-        const dataRows = data ? data.slice(1, MAX_ROWS + 1).filter(row => row.length > 0 && (row[0] || row[1])) : [];
-
-        const directorySites: DirectorySite[] = [];
-
-        console.log(`📊 Processing ${dataRows.length} rows`);
-
-        dataRows.forEach((row: string[], rowIndex: number) => {
-            try {
-                const siteUrl = row[0] ? validateAndSanitizeUrl(String(row[0]).trim()) : `Unknown Site ${rowIndex + 1}`;
-                const questionsString = row[1] ? String(row[1]).trim() : '';
-
-                if (questionsString) {
-                    const questionsArray = questionsString.split(',')
-                        .map(q => validateQuestion(q.trim()))
-                        .filter(q => q.length > 0);
-
-                    directorySites.push({
-                        url: siteUrl,
-                        questions: questionsArray
-                    });
-                }
-            } catch (rowError) {
-                console.warn(`⚠️ Skipping row ${rowIndex + 1} due to error:`, rowError instanceof Error ? rowError.message : rowError);
-            }
-        });
-
-        console.log(`✅ Successfully loaded ${directorySites.length} directory sites from XLSX file`);
-        return directorySites;
-
-    } catch (error) {
-        console.error(`❌ Error loading XLSX data:`, error);
-        return [];
+function findDirectory(siteId: unknown, siteUrl: unknown, packIds?: string[]): DirectorySite | undefined {
+    if (typeof siteId === 'string' && siteId.trim()) {
+        const site = directoryCatalog.findSite(siteId.trim());
+        return site && (!packIds || isInPacks(site, packIds)) ? site : undefined;
     }
-}
-
-/**
- * Get questions for a specific site URL
- */
-async function getQuestionsForSite(siteUrl: string): Promise<string[]> {
-    try {
-        const directorySites = await fetchAllSiteData();
-        const normalizedTargetUrl = siteUrl.toLowerCase().trim();
-
-        // Find the site in the directory
-        const site = directorySites.find(dirSite => {
-            const dirSiteUrl = dirSite.url.toLowerCase().trim();
-            // Check for exact match or domain match
-            return dirSiteUrl === normalizedTargetUrl || 
-                   dirSiteUrl.includes(normalizedTargetUrl) || 
-                   normalizedTargetUrl.includes(dirSiteUrl);
-        });
-        
-        if (site && site.questions.length > 0) {
-            console.log(`✅ Found ${site.questions.length} questions for ${siteUrl}`);
-            return site.questions;
-        }
-        
-        console.log(`⚠️ No questions found for ${siteUrl}, using default questions`);
-        return [
-            'What can we learn from their user experience design?',
-            'How do they handle customer engagement?',
-            'What are their key features for user retention?',
-            'How do they present their value proposition?'
-        ];
-        
-    } catch (error) {
-        console.error(`❌ Error getting questions for ${siteUrl}:`, error);
-        throw new Error(`Failed to get questions for site: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (typeof siteUrl === 'string' && siteUrl.trim()) {
+        return directoryCatalog.findSiteByUrl(siteUrl, packIds);
     }
-}
-
-/**
- * Match question to user data and return the exact value
- */
-/**
- * Match question to user data and return the exact value
- */
-function getExactUserData(question: string, appInfo: AppInfo): string {
-    const q = question.toLowerCase().trim();
-    
-    // GitHub related questions
-    if (q.includes('github') || q.includes('repository') || q.includes('repo')) {
-        return appInfo.githubUrl || '';
-    }
-    
-    // LinkedIn related questions
-    if (q.includes('linkedin') || q.includes('linked in') || q.includes('professional profile')) {
-        return appInfo.linkedinUrl || '';
-    }
-    
-    // X/Twitter related questions
-    if (q.includes('twitter') || q.includes('x.com') || q.includes('x profile') || q.includes('social media') && q.includes('x')) {
-        return appInfo.xUrl || '';
-    }
-    
-    // Product/App website - specific
-    if ((q.includes('website') || q.includes('url') || q.includes('link')) && 
-        (q.includes('product') || q.includes('app') || q.includes('your') || q.includes('main'))) {
-        return appInfo.url || '';
-    }
-    
-    // Generic URL/website - less specific
-    if (q.includes('website') || q.includes('url') || q.includes('web address')) {
-        // Default to product URL if nothing more specific
-        return appInfo.url || '';
-    }
-    
-    // Company name
-    if (q.includes('company') && q.includes('name')) {
-        return appInfo.companyName || '';
-    }
-    if (q.includes('company') && !q.includes('name')) {
-        return appInfo.companyName || '';
-    }
-    
-    // Contact name
-    if (q.includes('contact') && q.includes('name')) {
-        return appInfo.contactName || '';
-    }
-    if (q.includes('contact') && !q.includes('name')) {
-        return appInfo.contactName || '';
-    }
-    
-    // App name
-    if (q.includes('name') && !q.includes('company') && !q.includes('contact')) {
-        return appInfo.name || '';
-    }
-    
-    // Email
-    if (q.includes('email') || q.includes('e-mail')) {
-        return appInfo.email || '';
-    }
-    
-    // Location
-    if (q.includes('location') || q.includes('based') || q.includes('city') || q.includes('country')) {
-        return appInfo.location || '';
-    }
-    
-    // Launch date
-    if (q.includes('launch') || q.includes('date') || q.includes('released on')) {
-        return appInfo.launchDate || '';
-    }
-    
-    // Description
-    if (q.includes('description') || q.includes('about') || q.includes('what is') || q.includes('what does')) {
-        return appInfo.description || '';
-    }
-    
-    // Target audience
-    if (q.includes('audience') || q.includes('target') || q.includes('users') || q.includes('customers')) {
-        return appInfo.targetAudience || '';
-    }
-    
-    // App type
-    if (q.includes('type') || q.includes('kind of') || q.includes('category') && !q.includes('app')) {
-        return appInfo.type || '';
-    }
-    
-    // Features
-    if (q.includes('feature') || q.includes('functionality') || q.includes('what can') || q.includes('capabilities')) {
-        return appInfo.mainFeatures.join(', ') || '';
-    }
-    
-    // Tech stack
-    if (q.includes('tech') || q.includes('technology') || q.includes('stack') || q.includes('built with')) {
-        return appInfo.techStack.join(', ') || '';
-    }
-    
-    // Tagline
-    if (q.includes('tagline') || q.includes('slogan') || q.includes('catchphrase')) {
-        return appInfo.tagline || '';
-    }
-    
-    // Category
-    if (q.includes('category') && !q.includes('type')) {
-        return appInfo.category || '';
-    }
-    
-    // Released status
-    if (q.includes('released') || q.includes('live') || q.includes('available') || q.includes('launched') || q.includes('public')) {
-        return appInfo.isReleased ? 'Yes' : 'No';
-    }
-    
-    // Default: return empty string if no match
-    return '';
-}
-
-/**
- * Generate SIMPLE answer that copies user input
- */
-function generateSimpleAnswer(question: string, context: { 
-    appInfo: AppInfo;
-    siteUrl: string;
-}): string {
-    const userData = getExactUserData(question, context.appInfo);
-    
-    // Simple templates that just return the user's data
-    const templates = [
-        `${userData}`,
-        `The answer is: ${userData}`,
-        `Based on your input: ${userData}`,
-        `Your provided information: ${userData}`,
-        `${userData} (as you specified)`
-    ];
-    
-    return templates[Math.floor(Math.random() * templates.length)];
-}
-
-/**
- * Generate simple answers for batch of questions
- */
-function generateSimpleBatchAnswers(questions: BatchQuestion[], context: {
-    appInfo: AppInfo;
-    siteUrl: string;
-}): BatchAnswers {
-    const answers: BatchAnswers = {};
-    questions.forEach(q => {
-        answers[q.id] = generateSimpleAnswer(q.question, context);
-    });
-    return answers;
-}
-
-/**
- * Function to get answers - SIMPLE COPY MODE ONLY
- */
-async function getBatchAnswers(questions: BatchQuestion[], context: {
-    appInfo: AppInfo;
-    siteUrl: string;
-}): Promise<BatchAnswers> {
-    // Always use simple copy responses
-    console.log('📋 Using simple copy mode - returning exact user data');
-    return generateSimpleBatchAnswers(questions, context);
+    return undefined;
 }
 
 // --- API Endpoints ---
@@ -392,17 +89,27 @@ async function getBatchAnswers(questions: BatchQuestion[], context: {
 // Health Check Endpoint
 app.get('/api/health', async (req: Request, res: Response) => {
     try {
-        const dataFileExists = fs.existsSync(path.resolve(process.cwd(), DATA_FILE_PATH));
+        const catalogStatus = directoryCatalog.getStatus();
+        const providerStatus = getAnswerProviderStatus();
+        const copyMode = providerStatus.active === 'copy';
         
         res.status(200).json({ 
             status: 'healthy', 
             timestamp: new Date().toISOString(),
-            dataFile: dataFileExists,
-            openrouterKey: false,
-            aiModel: 'NONE - Simple Copy Mode',
+            contractVersion: CONTRACT_VERSION,
+            dataFile: catalogStatus.dataFileExists,
+            catalog: catalogStatus,
+            mappingRules: mappingRules.getStatus(),
+            answerOverrides: answerOverrides.getStatus(),
+            analysisJobs: analysisJobs.getStatus(),
+            database: database.getStatus(),
+            answerProvider: providerStatus,
+            aiModel: copyMode ? 'NONE - Simple Copy Mode' : providerStatus.model,
             batchMode: true,
-            answerStyle: 'exact-user-data',
-            description: 'Returns exact user input without AI analysis'
+            answerStyle: copyMode ? 'exact-user-data' : 'ai-generated',
+            description: copyMode
+                ? 'Returns exact user input without AI analysis'
+                : `Answers generated by ${providerStatus.active}, falling back to exact user input`
         });
     } catch (error) {
         res.status(500).json({ 
@@ -412,130 +119,211 @@ app.get('/api/health', async (req: Request, res: Response) => {
     }
 });
 
-// Fetch Available Sites
-app.get('/api/sites', async (req: Request, res: Response) => {
-    try {
-        const directorySites = await fetchAllSiteData();
-        
-        res.status(200).json({
-            count: directorySites.length,
-            sites: directorySites.map(site => ({ url: site.url, questionCount: site.questions.length })),
-            timestamp: new Date().toISOString()
-        });
-    } catch (error) {
-        console.error("❌ Error in /api/sites:", error);
-        res.status(500).json({ 
-            error: "Failed to fetch directory sites.", 
-            details: error instanceof Error ? error.message : "An unknown error occurred." 
-        });
-    }
-});
+// Directory catalog: list and CRUD
+app.use('/api/sites', siteRoutes);
+
+// Directory catalog: data quality report
+app.use('/api/catalog', catalogRoutes);
+
+// Directory catalog: named packs
+app.use('/api/packs', packRoutes);
+
+// Answer overrides (user corrections)
+app.use('/api/overrides', overrideRoutes);
+
+// Background bulk analysis jobs
+app.use('/api/jobs', jobRoutes);
+
+// Saved app profiles with their revisions
+app.use('/api/profiles', profileRoutes);
+
+// OpenAPI document and API explorer
+app.use('/api', docsRoutes);
 
 // Analyze Site with App Info
-app.post('/api/analyze-site', async (req: Request, res: Response) => {
+app.post('/api/analyze-site', validateBody(AnalyzeSiteRequestSchema), async (req: Request, res: Response) => {
     try {
-        const { appInfo, siteUrl } = req.body;
-        
+        const { profileId, siteId, siteUrl: requestedUrl, pack, questionIds }: AnalyzeSiteBody = req.body;
+        const appInfo = profileId ? appProfiles.getAppInfo(profileId) : req.body.appInfo;
         if (!appInfo) {
-            return res.status(400).json({ error: "Missing appInfo in request body." });
-        }
-        if (!siteUrl) {
-            return res.status(400).json({ error: "Missing siteUrl in request body." });
+            return res.status(404).json({ error: `Profile not found: ${profileId}`, profileId });
         }
 
-        // Validate required fields
-        if (!appInfo.name) {
-            return res.status(400).json({ error: "Missing required app name field." });
+        let format: AnswerFormatOptions;
+        try {
+            format = parseAnswerFormat(req.body.answerFormat);
+        } catch (error) {
+            return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid answerFormat' });
+        }
+        if (!siteId && !requestedUrl) {
+            return res.status(400).json({ error: "Missing siteId or siteUrl in request body." });
         }
 
         console.log(`🚀 Starting analysis for ${appInfo.name}`);
-        console.log(`🎯 Target directory site: ${siteUrl}`);
+        console.log(`🎯 Target directory site: ${siteId || requestedUrl}`);
         
-        // 1. Get questions for this specific site from Excel
-        const siteQuestions = await getQuestionsForSite(siteUrl);
+        // 1. Resolve the directory from the catalog, optionally limited to some packs
+        const packIds = parsePackParam(pack);
+        const unknownPacks = packIds ? findUnknownPacks(packIds, directoryCatalog.getPacks()) : [];
+        if (unknownPacks.length > 0) {
+            return res.status(404).json({ error: 'Unknown pack', unknownPacks });
+        }
+
+        const site = findDirectory(siteId, requestedUrl, packIds);
+        
+        if (!site) {
+            console.log(`⚠️ Unknown directory: ${siteId || requestedUrl}`);
+            return res.status(404).json({ 
+                error: 'Unknown directory',
+                unknownDirectory: true,
+                siteId: siteId || null,
+                siteUrl: requestedUrl || null,
+                ...(packIds && { packs: packIds })
+            });
+        }
+        
+        const siteUrl = site.url;
+        const siteQuestions = site.questions;
+        console.log(`✅ Found ${siteQuestions.length} questions for ${site.id}`);
         
-        if (!siteQuestions || siteQuestions.length === 0) {
+        if (siteQuestions.length === 0) {
             return res.status(404).json({ 
                 error: 'No questions found for this site',
+                siteId: site.id,
                 siteUrl 
             });
         }
         
-        // Limit questions per batch
-        const limitedQuestions = siteQuestions.slice(0, MAX_QUESTIONS_PER_BATCH);
+        const unknownQuestions = questionIds ? questionIds.filter(id => id > siteQuestions.length) : [];
+        if (unknownQuestions.length > 0) {
+            return res.status(404).json({ error: 'Unknown question', unknownQuestions, siteId: site.id });
+        }
         
-        console.log(`📝 Processing ${limitedQuestions.length} questions for ${siteUrl}`);
-
-        // Prepare batch questions
-        const batchQuestions: BatchQuestion[] = limitedQuestions.map((question, index) => ({
-            id: index + 1,
-            question: question
-        }));
+        // 2. Answer the questions (all, or just `questionIds`) with the configured provider (copy mode as fallback) and rate them
+        const analysis = await analyzeSite(site, appInfo, format, questionIds);
+        console.log(`📊 Sample response: Q: "${analysis.questions[0]?.question}" → A: "${analysis.questions[0]?.answer}"`);
         
-        // 2. Get answers (SIMPLE COPY MODE ONLY)
-        const batchAnswers = await getBatchAnswers(batchQuestions, {
-            appInfo,
-            siteUrl
+        res.status(200).json(analysis satisfies DirectoryAnalysis);
+
+    } catch (error) {
+        console.error("❌ Error in /api/analyze-site:", error);
+        res.status(500).json({ 
+            error: "Failed to process site.", 
+            details: error instanceof Error ? error.message : "An unknown error occurred."
         });
-        
-        // 3. Convert batch answers to SiteQuestion array
-        const questionsWithAnswers: SiteQuestion[] = batchQuestions.map(q => ({
-            id: q.id,
-            question: q.question,
-            answer: batchAnswers[q.id] || generateSimpleAnswer(q.question, { appInfo, siteUrl })
-        }));
-        
-        // 4. Get site display name
-        let siteName = siteUrl;
-        try {
-            const urlObj = new URL(siteUrl);
-            siteName = urlObj.hostname.replace(/^www\./, '');
-        } catch {
-            siteName = siteUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
-        }
-        
-        console.log(`✅ Successfully processed ${siteUrl} with ${questionsWithAnswers.length} responses`);
-        console.log(`📊 Sample response: Q: "${questionsWithAnswers[0]?.question}" → A: "${questionsWithAnswers[0]?.answer}"`);
+    }
+});
+
+// Analyze many directories on the server, a few at a time
+app.post('/api/analyze-all', validateBody(BulkAnalysisRequestSchema), async (req: Request, res: Response) => {
+    try {
+        const { appInfo, format, concurrency, sites, total, offset, nextCursor } = parseBulkAnalysisRequest(req.body);
+        console.log(`🚀 Starting bulk analysis for ${appInfo.name}: ${sites.length} of ${total} directories, ${concurrency} at a time`);
+        const { results, succeeded, failed, durationMs } = await analyzeSites(sites, appInfo, format, concurrency);
+        console.log(`✅ Bulk analysis done in ${durationMs}ms: ${succeeded} succeeded, ${failed} failed`);
         
         res.status(200).json({
-            siteUrl: siteUrl,
-            siteName: siteName,
-            questions: questionsWithAnswers,
+            results,
+            summary: {
+                requested: sites.length,
+                succeeded,
+                failed
+            },
+            total,
+            offset,
+            nextCursor,
             metadata: {
                 analyzedAt: new Date().toISOString(),
                 appName: appInfo.name,
-                mode: 'simple-copy',
-                aiModel: 'NONE',
-                description: 'Returns exact user input data'
+                concurrency,
+                durationMs,
+                answerFormat: format
             }
+        } satisfies AnalyzeAllResponse);
+
+    } catch (error) {
+        if (error instanceof BulkRequestError) {
+            return res.status(error.status).json({ error: error.message, ...error.details });
+        }
+        console.error("❌ Error in /api/analyze-all:", error);
+        res.status(500).json({ 
+            error: "Failed to analyze directories.", 
+            details: error instanceof Error ? error.message : "An unknown error occurred."
         });
+    }
+});
+
+// Answers only, for every directory or the ones picked by siteIds / siteUrls / filter (same body as analyze-all)
+app.post('/api/generate-custom-answers', validateBody(BulkAnalysisRequestSchema), async (req: Request, res: Response) => {
+    try {
+        const { appInfo, format, concurrency, sites, total, offset, nextCursor } = parseBulkAnalysisRequest(req.body);
+        console.log(`🚀 Generating custom answers for ${appInfo.name}: ${sites.length} of ${total} directories`);
+        const { results, succeeded, failed, durationMs } = await analyzeSites(sites, appInfo, format, concurrency);
+        console.log(`✅ Custom answers done in ${durationMs}ms: ${succeeded} succeeded, ${failed} failed`);
+
+        res.status(200).json({
+            appInfo,
+            analyses: results.flatMap(result => result.status === 'success' ? [toCustomAnswers(result)] : []),
+            failed: results.flatMap(result => result.status === 'error'
+                ? [{ siteUrl: result.siteUrl, siteName: result.siteName, error: result.error }]
+                : []),
+            total,
+            offset,
+            nextCursor,
+            timestamp: new Date().toISOString()
+        } satisfies GenerateCustomAnswersResponse);
 
     } catch (error) {
-        console.error("❌ Error in /api/analyze-site:", error);
+        if (error instanceof BulkRequestError) {
+            return res.status(error.status).json({ error: error.message, ...error.details });
+        }
+        console.error("❌ Error in /api/generate-custom-answers:", error);
         res.status(500).json({ 
-            error: "Failed to process site.", 
+            error: "Failed to generate custom answers.", 
             details: error instanceof Error ? error.message : "An unknown error occurred."
         });
     }
 });
 
-// Get directory details
+// Get directory details (same filters as /api/sites, plus sampleSize=<n>|all)
 app.get('/api/directory-details', async (req: Request, res: Response) => {
+    let query: SiteQuery;
+    let sampleSize: number;
     try {
-        const directorySites = await fetchAllSiteData();
+        query = parseSiteQuery(req.query);
+        sampleSize = parseSampleSize(req.query.sampleSize);
+    } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid query' });
+    }
+
+    try {
+        const unknownPacks = query.packs ? findUnknownPacks(query.packs, directoryCatalog.getPacks()) : [];
+        if (unknownPacks.length > 0) {
+            return res.status(404).json({ error: 'Unknown pack', unknownPacks });
+        }
+
+        const page = querySites(directoryCatalog.getSites(), query);
         
         // Return detailed directory information
-        const detailedSites = directorySites.map(site => ({
+        const detailedSites = page.sites.map(site => ({
+            id: site.id,
             url: site.url,
+            name: siteDisplayName(site.url),
+            ...(site.category && { category: site.category }),
+            ...(site.pack && { pack: site.pack }),
             questionCount: site.questions.length,
-            sampleQuestions: site.questions.slice(0, 3)
+            sampleQuestions: site.questions.slice(0, sampleSize).map(q => q.question)
         }));
         
         res.status(200).json({
             count: detailedSites.length,
+            total: page.total,
+            offset: page.offset,
+            limit: page.limit,
+            nextCursor: page.nextCursor,
             sites: detailedSites,
             timestamp: new Date().toISOString()
-        });
+        } satisfies DirectoryDetailsResponse);
     } catch (error) {
         console.error("❌ Error in /api/directory-details:", error);
         res.status(500).json({ 
@@ -550,6 +338,13 @@ app.post('/api/test-analysis', async (req: Request, res: Response) => {
     try {
         const { appInfo, siteUrl } = req.body;
         
+        let format: AnswerFormatOptions;
+        try {
+            format = parseAnswerFormat(req.body.answerFormat);
+        } catch (error) {
+            return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid answerFormat' });
+        }
+
         if (!appInfo || !siteUrl) {
             return res.status(400).json({ 
                 error: "Missing appInfo or siteUrl",
@@ -584,16 +379,25 @@ app.post('/api/test-analysis', async (req: Request, res: Response) => {
         console.log(`📤 Email: ${appInfo.email}`);
         console.log(`📤 URL: ${appInfo.url}`);
         
-        const batchAnswers = await getBatchAnswers(testQuestions, {
+        const { answers: batchAnswers, provider } = await getBatchAnswers(testQuestions, {
             appInfo,
-            siteUrl
+            siteUrl,
+            format
         });
         
-        const results = testQuestions.map(q => ({
-            question: q.question,
-            answer: batchAnswers[q.id] || "No data",
-            expectedData: getExactUserData(q.question, appInfo)
-        }));
+        const results = testQuestions.map(q => {
+            const match = matchQuestionField(q.question);
+            const { field, confidence, status } = assessAnswer(match, batchAnswers[q.id] || '');
+            return {
+                question: q.question,
+                answer: batchAnswers[q.id] || "No data",
+                expectedData: copyAnswer(q, appInfo, format),
+                rule: match?.ruleId || null,
+                field,
+                confidence,
+                status
+            };
+        });
         
         console.log(`✅ Test results (showing exact user data):`);
         results.forEach(r => {
@@ -610,8 +414,9 @@ app.post('/api/test-analysis', async (req: Request, res: Response) => {
                 questions: results,
                 generatedAt: new Date().toISOString()
             },
-            mode: 'simple-copy',
-            description: 'Simple copy of user input data'
+            mode: provider === 'copy' ? 'simple-copy' : 'ai',
+            provider,
+            description: provider === 'copy' ? 'Simple copy of user input data' : `Answers generated by ${provider}`
         });
 
     } catch (error) {
@@ -626,39 +431,88 @@ app.post('/api/test-analysis', async (req: Request, res: Response) => {
 // Graceful Shutdown Handlers
 process.on('SIGTERM', () => {
     console.log('🛑 SIGTERM received, shutting down gracefully');
+    directoryCatalog.unwatch();
+    mappingRules.unwatch();
+    database.close();
     process.exit(0);
 });
 
 process.on('SIGINT', () => {
     console.log('🛑 SIGINT received, shutting down gracefully');
+    directoryCatalog.unwatch();
+    mappingRules.unwatch();
+    database.close();
     process.exit(0);
 });
 
 // --- Server Startup ---
-try {
-    validateEnvironment();
+// Only when run directly; tests import the app without starting it
+if (require.main === module) {
+    try {
+        validateEnvironment();
+        database.open();
+        directoryCatalog.onLoad((sites, sourceFiles) => {
+            const snapshot = catalogSnapshots.record(sites, sourceFiles);
+            if (snapshot) {
+                console.log(`📸 Saved catalog snapshot ${snapshot.id}: ${snapshot.siteCount} directories, ${snapshot.questionCount} questions`);
+            }
+        });
+        directoryCatalog.load();
+        directoryCatalog.watch();
+        mappingRules.load();
+        mappingRules.watch();
+        answerOverrides.load();
+        analysisJobs.load();
     
-    app.listen(PORT, '0.0.0.0', () => {
-        console.log(`\n\n✅ Backend running at http://localhost:${PORT}`);
-        console.log(`📊 Health check available at: http://localhost:${PORT}/api/health`);
-        console.log("🌐 CORS enabled for: http://localhost:3000, http://localhost:12000, and external runtime URLs");
-        console.log(`📁 Using data file: ${DATA_FILE_PATH}`);
-        console.log(`🤖 AI MODEL: NONE (Simple copy mode)`);
-        console.log(`🎯 MODE: SIMPLE COPY USER INPUT`);
-        console.log(`📋 Description: Returns your exact input data without AI analysis`);
-        console.log("🛠️ Available endpoints:");
-        console.log("   GET  /api/health");
-        console.log("   GET  /api/sites");
-        console.log("   GET  /api/directory-details");
-        console.log("   POST /api/analyze-site          ← Returns your exact input data");
-        console.log("   POST /api/test-analysis         ← Test endpoint");
-        console.log("\nExample responses:");
-        console.log('  Q: "Your Name" → A: "YourProductName"');
-        console.log('  Q: "Your Email" → A: "your@email.com"');
-        console.log('  Q: "Website URL" → A: "https://yourwebsite.com"');
-        console.log("\nPress Ctrl+C to stop the server\n");
-    });
-} catch (error) {
-    console.error('❌ Failed to start server:', error);
-    process.exit(1);
-}
\ No newline at end of file
+        app.listen(PORT, '0.0.0.0', () => {
+            console.log(`\n\n✅ Backend running at http://localhost:${PORT}`);
+            console.log(`📊 Health check available at: http://localhost:${PORT}/api/health`);
+            console.log("🌐 CORS enabled for: http://localhost:3000, http://localhost:12000, and external runtime URLs");
+            console.log(`📁 Using data file: ${DATA_FILE_PATH}`);
+            console.log(`🗄️ Using database: ${DATABASE_PATH}`);
+            console.log(`📜 API contract version ${CONTRACT_VERSION} (${CONTRACT_VERSION_HEADER} header)`);
+            const provider = getAnswerProviderStatus();
+            if (provider.active === 'copy') {
+                console.log(`🤖 AI MODEL: NONE (Simple copy mode)`);
+                console.log(`🎯 MODE: SIMPLE COPY USER INPUT`);
+                console.log(`📋 Description: Returns your exact input data without AI analysis`);
+            } else {
+                console.log(`🤖 AI MODEL: ${provider.model} via ${provider.active}${provider.baseUrl ? ` (${provider.baseUrl})` : ''}`);
+                console.log(`🎯 MODE: AI ANSWERS, COPY MODE FALLBACK`);
+            }
+            console.log("🛠️ Available endpoints:");
+            console.log("   GET  /api/health");
+            console.log("   GET  /api/openapi.json          ← OpenAPI document / GET /api/docs for the API explorer");
+            console.log("   GET  /api/sites                 ← ?pack=&q=&category=&sort=&limit=&cursor=");
+            console.log("   GET  /api/sites/:id             ← One directory with its questions (id or URL)");
+            console.log("   GET  /api/packs                 ← Directory packs (workbook sheets / data files)");
+            console.log("   POST /api/sites                 ← Add a directory (admin)");
+            console.log("   PUT  /api/sites/:id             ← Update a directory (admin)");
+            console.log("   DEL  /api/sites/:id             ← Remove a directory (admin)");
+            console.log("   POST /api/sites/:id/questions   ← Add / PUT, DEL /:questionId to edit questions (admin)");
+            console.log("   GET  /api/directory-details");
+            console.log("   GET  /api/catalog/report        ← Catalog data quality report");
+            console.log("   GET  /api/catalog/snapshots     ← Catalog versions kept in the database");
+            console.log("   POST /api/analyze-site          ← Returns your exact input data; questionIds to redo some answers");
+            console.log(`   POST /api/analyze-all           ← Many directories (filter / siteIds), ${ANALYZE_CONCURRENCY} at a time, max ${MAX_SITES_PER_RUN}`);
+            console.log("   POST /api/generate-custom-answers ← Answers only (siteIds / siteUrls / filter), same body and paging as analyze-all");
+            console.log("   POST /api/jobs                  ← Start a background bulk analysis (same body as analyze-all) / GET for past jobs");
+            console.log("   GET  /api/jobs/:id              ← Progress and results / GET /:id/events (SSE), POST /:id/cancel, /:id/retry");
+            console.log("   GET  /api/profiles              ← Saved apps, usable as profileId in analyses / POST, GET, PUT, DEL /:id, GET /:id/revisions");
+            console.log("   GET  /api/profiles/:id/submissions ← Directory submission status / PUT /:siteId to update");
+            console.log("   POST /api/test-analysis         ← Test endpoint");
+            console.log("   POST /api/overrides             ← Record a correction (question → field or literal)");
+            console.log(`   GET  /api/overrides             ← Review / POST /:id/approve, /:id/promote, DEL /:id (admin${ADMIN_TOKEN ? '' : ', disabled: ADMIN_TOKEN not set'})`);
+            console.log("\nExample responses:");
+            console.log('  Q: "Product Name" → A: "YourProductName"');
+            console.log('  Q: "Your Email" → A: "your@email.com"');
+            console.log('  Q: "Website URL" → A: "https://yourwebsite.com"');
+            console.log("\nPress Ctrl+C to stop the server\n");
+        });
+    } catch (error) {
+        console.error('❌ Failed to start server:', error);
+        process.exit(1);
+    }
+}
+
+export default app;
@@ -0,0 +1,117 @@
+// --- Shared Type Definitions ---
+
+import type { AppInfo, QuestionFieldType } from '@directory-bot/contract';
+
+// AppInfo and the question field types come, with their schemas, from the shared API contract
+export type { AppInfo, QuestionFieldType, TextVariants } from '@directory-bot/contract';
+
+// Form constraints a directory attaches to a question
+export interface QuestionConstraints {
+    type: QuestionFieldType;
+    required: boolean;
+    maxLength?: number;
+    // Some directories limit long answers by words rather than characters
+    maxWords?: number;
+    options?: string[];
+    placeholder?: string;
+    // Answer template combining several AppInfo fields, see answers/answerTemplates.ts
+    template?: string;
+}
+
+export interface DirectoryQuestion extends QuestionConstraints {
+    question: string;
+}
+
+export interface LengthLimits {
+    maxLength?: number;
+    maxWords?: number;
+}
+
+// How an answer measures up against its question's length limits
+export interface AnswerLengthCheck extends LengthLimits {
+    length: number;
+    words: number;
+    // Cut back to whole sentences to fit
+    truncated: boolean;
+    // Still too long; the user needs to shorten it
+    overLimit: boolean;
+}
+
+// matched: answered from a confidently matched field; partial: answered, but check it;
+// unmatched: no answer, the user has to fill it in
+export type AnswerStatus = 'matched' | 'partial' | 'unmatched';
+
+// Why a question is not fully matched
+export type AnswerStatusReason = 'no-rule' | 'left-for-user' | 'missing-data' | 'low-confidence' | 'over-limit';
+
+export interface AnswerAssessment {
+    // AppInfo field the question was mapped to, null when none
+    field: AppInfoField | null;
+    // Confidence (0-1) of the question-to-field match, 0 when nothing matched
+    confidence: number;
+    status: AnswerStatus;
+    reason?: AnswerStatusReason;
+}
+
+export interface SiteQuestion extends QuestionConstraints, AnswerAssessment {
+    id: number;
+    question: string;
+    answer: string;
+    // Key for recording a correction to this question, see POST /api/overrides
+    questionHash: string;
+    // Present when the question has a character or word limit
+    lengthCheck?: AnswerLengthCheck;
+}
+
+export interface ManualQuestion {
+    id: number;
+    question: string;
+    required: boolean;
+    reason?: AnswerStatusReason;
+}
+
+// Per-site overview of what the user still has to do before submitting
+export interface AnswerSummary {
+    matched: number;
+    partial: number;
+    unmatched: number;
+    // No answer: fill these in by hand
+    manualQuestions: ManualQuestion[];
+    // Answered, but worth checking
+    reviewQuestions: ManualQuestion[];
+}
+
+export interface SiteAnalysis {
+    siteUrl: string;
+    siteName: string;
+    questions: SiteQuestion[];
+}
+
+// AppInfo fields a directory question can be answered from
+export type AppInfoField = Exclude<keyof AppInfo, 'descriptionVariants' | 'taglineVariants'>;
+
+export interface DirectorySite {
+    // Stable identifier, taken from the catalog or derived from the URL
+    id: string;
+    url: string;
+    category?: string;
+    // Named list the directory belongs to: the workbook sheet, or the file name for other formats
+    pack?: string;
+    questions: DirectoryQuestion[];
+    // File (and sheet) and line the directory was loaded from
+    source?: { file: string; line: number; sheet?: string };
+}
+
+export interface BatchQuestion {
+    id: number;
+    question: string;
+    // Form field type, when known; structured fields are never phrased as prose
+    type?: QuestionFieldType;
+    maxLength?: number;
+    maxWords?: number;
+    template?: string;
+}
+
+export interface BatchAnswers {
+    [key: number]: string;
+}
@@ -0,0 +1,39 @@
+export const MAX_QUESTION_LENGTH = 500;
+
+/**
+ * Input validation failure with a machine-readable code
+ */
+export class ValidationError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * Validate and sanitize URL input
+ */
+export function validateAndSanitizeUrl(url: string): string {
+    const trimmed = url.trim();
+    if (!trimmed) {
+        throw new ValidationError("URL cannot be empty", 'empty-url');
+    }
+    if (!trimmed.startsWith('http://') && !trimmed.startsWith('https://')) {
+        return `https://${trimmed}`;
+    }
+    return trimmed;
+}
+
+/**
+ * Validate question input
+ */
+export function validateQuestion(question: string): string {
+    const trimmed = question.trim();
+    if (!trimmed) {
+        throw new ValidationError("Question cannot be empty", 'empty-question');
+    }
+    if (trimmed.length > MAX_QUESTION_LENGTH) {
+        throw new ValidationError(`Question too long (max ${MAX_QUESTION_LENGTH} characters)`, 'question-too-long');
+    }
+    return trimmed;
+}
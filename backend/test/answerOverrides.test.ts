@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test } from 'node:test';
+import { parseOverrideInput } from '../src/mapping/answerOverrides';
+import { AnswerOverrideStore, OverrideConflictError } from '../src/mapping/overrideStore';
+
+function emptyStore(): AnswerOverrideStore {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'answer-overrides-'));
+    return new AnswerOverrideStore(path.join(dir, 'answer-overrides.json'));
+}
+
+test('a directory correction waits for approval, then applies to that directory only', () => {
+    const store = emptyStore();
+    const { override } = store.record(parseOverrideInput({ question: 'Number of employees', siteId: 'dang-ai', literal: 'HACKED' }));
+
+    assert.equal(override.status, 'pending');
+    assert.equal(store.match('Number of employees', 'dang-ai'), null);
+
+    store.record(parseOverrideInput({ question: 'Number of employees', siteId: 'dang-ai', literal: '5' }));
+    store.approve(override.id);
+    assert.equal(store.match('Number of employees', 'dang-ai')?.literal, '5');
+    assert.equal(store.match('Number of employees', 'wellfound-com'), null);
+    assert.equal(store.match('Number of employees'), null);
+});
+
+test('a global correction waits for an admin to approve it', () => {
+    const store = emptyStore();
+    const { override } = store.record(parseOverrideInput({ question: 'Number of employees', literal: '5' }));
+
+    assert.equal(override.status, 'pending');
+    assert.equal(store.match('Number of employees', 'wellfound-com'), null);
+
+    store.approve(override.id);
+    assert.equal(store.match('Number of employees', 'wellfound-com')?.literal, '5');
+    assert.throws(() => store.approve(override.id), OverrideConflictError);
+
+    // The same answer keeps the approval, a different one needs a new approval
+    assert.equal(store.record(parseOverrideInput({ question: 'Number of employees', literal: '5' })).override.status, 'active');
+    assert.equal(store.record(parseOverrideInput({ question: 'Number of employees', literal: '500' })).override.status, 'pending');
+    assert.equal(store.match('Number of employees', 'wellfound-com'), null);
+});
+
+test('overrides are not promoted without an explicit rules file', () => {
+    const store = emptyStore();
+    const { override } = store.record(parseOverrideInput({ question: 'Company name', field: 'companyName' }));
+
+    assert.throws(() => store.promote(override.id), /MAPPING_RULES_PATH/);
+});
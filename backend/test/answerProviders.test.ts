@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import { DEFAULT_ANSWER_FORMAT } from '../src/answers/fieldFormatters';
+import { parseAnswerJson } from '../src/answers/providers/prompt';
+import { BatchQuestion } from '../src/types';
+
+type AnswerService = typeof import('../src/answers/answerService');
+
+const appInfo = AppInfoSchema.parse({ name: 'Directory Bot', email: 'hello@example.com', tagline: 'Fill in directory forms' });
+const context = { appInfo, siteUrl: 'https://example.com', format: DEFAULT_ANSWER_FORMAT };
+const questions: BatchQuestion[] = [
+    { id: 1, question: 'Product name' },
+    { id: 2, question: 'Contact email' }
+];
+
+// Stub chat-completions server; each test sets how it replies
+let reply: (response: ServerResponse) => void;
+const requests: { path: string; body: any }[] = [];
+
+const stub = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let body = '';
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => {
+        requests.push({ path: request.url || '', body: JSON.parse(body) });
+        reply(response);
+    });
+});
+
+function completion(content: string | null) {
+    return (response: ServerResponse) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ choices: [{ message: { content } }] }));
+    };
+}
+
+let answerService: AnswerService;
+
+before(async () => {
+    await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+    // The provider is picked from the environment when answerService is first loaded
+    process.env.ANSWER_PROVIDER = 'openai';
+    process.env.LLM_BASE_URL = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/v1`;
+    process.env.LLM_MODEL = 'stub-model';
+    process.env.ANSWER_TIMEOUT_MS = '2000';
+    answerService = require('../src/answers/answerService');
+});
+
+after(() => {
+    stub.closeAllConnections();
+    stub.close();
+});
+
+beforeEach(() => {
+    requests.length = 0;
+});
+
+test('answers come from the model', async () => {
+    reply = completion('{"1": "Directory Bot AI", "2": "team@example.com"}');
+
+    const result = await answerService.getBatchAnswers(questions, context);
+
+    assert.deepEqual(result.answers, { 1: 'Directory Bot AI', 2: 'team@example.com' });
+    assert.deepEqual(result.fallbackIds, []);
+    assert.equal(result.provider, 'openai');
+    assert.equal(result.model, 'stub-model');
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].path, '/v1/chat/completions');
+    assert.equal(requests[0].body.model, 'stub-model');
+});
+
+test('an HTTP error falls back to copy mode for every question', async () => {
+    reply = response => {
+        response.writeHead(500, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ error: { message: 'overloaded' } }));
+    };
+
+    const result = await answerService.getBatchAnswers(questions, context);
+
+    assert.deepEqual(result.answers, { 1: 'Directory Bot', 2: 'hello@example.com' });
+    assert.deepEqual(result.fallbackIds, [1, 2]);
+});
+
+test('a timeout falls back to copy mode for every question', async () => {
+    reply = response => setTimeout(() => completion('{"1": "too late"}')(response), 5000);
+
+    const result = await answerService.getBatchAnswers(questions, context);
+
+    assert.deepEqual(result.answers, { 1: 'Directory Bot', 2: 'hello@example.com' });
+    assert.deepEqual(result.fallbackIds, [1, 2]);
+});
+
+test('empty or missing model answers fall back per question', async () => {
+    reply = completion('{"1": "Directory Bot AI", "2": "  "}');
+    const partial = await answerService.getBatchAnswers(questions, context);
+
+    assert.deepEqual(partial.answers, { 1: 'Directory Bot AI', 2: 'hello@example.com' });
+    assert.deepEqual(partial.fallbackIds, [2]);
+
+    reply = completion('');
+    const empty = await answerService.getBatchAnswers(questions, context);
+
+    assert.deepEqual(empty.answers, { 1: 'Directory Bot', 2: 'hello@example.com' });
+    assert.deepEqual(empty.fallbackIds, [1, 2]);
+});
+
+test('model replies are read from fenced, bare and wrapped JSON', () => {
+    assert.deepEqual(parseAnswerJson('```json\n{"1": "Fenced", "2": 42}\n```'), { 1: 'Fenced', 2: '42' });
+    assert.deepEqual(parseAnswerJson('Here you go: {"1": " Bare "}'), { 1: 'Bare' });
+    assert.deepEqual(parseAnswerJson('{"answers": {"3": "Wrapped"}}'), { 3: 'Wrapped' });
+    assert.deepEqual(parseAnswerJson('[{"id": 1, "answer": "Listed"}, {"id": "x", "answer": "skipped"}]'), { 1: 'Listed' });
+});
+
+test('garbage model replies are rejected', () => {
+    assert.throws(() => parseAnswerJson('Sorry, I cannot help with that.'), /no JSON/);
+    assert.throws(() => parseAnswerJson('"1": "no braces"'), /no JSON/);
+    assert.throws(() => parseAnswerJson('{"1": oops}'), SyntaxError);
+});
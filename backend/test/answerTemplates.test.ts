@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import { compileTemplate, renderTemplate, TemplateError } from '../src/answers/answerTemplates';
+
+const appInfo = AppInfoSchema.parse({
+    name: 'Directory Bot',
+    type: 'saas',
+    tagline: 'Fill in directory forms',
+    mainFeatures: ['Form filling', 'Length limits', 'Bulk runs'],
+    location: 'Berlin'
+});
+
+function render(template: string, info = appInfo): string {
+    return renderTemplate(compileTemplate(template), info);
+}
+
+test('fields, filters and literal braces render', () => {
+    assert.equal(render('{name} - {tagline}'), 'Directory Bot - Fill in directory forms');
+    assert.equal(render('Features: {mainFeatures|and}'), 'Features: Form filling, Length limits and Bulk runs');
+    assert.equal(render('{mainFeatures|join:" / "}'), 'Form filling / Length limits / Bulk runs');
+    assert.equal(render('{mainFeatures|first|upper}'), 'FORM FILLING');
+    assert.equal(render('{{{name}}}'), '{Directory Bot}');
+});
+
+test('fallbacks take the first non-empty value', () => {
+    assert.equal(render('{description ?? tagline}'), 'Fill in directory forms');
+    assert.equal(render('{companyName ?? "independent"}, by {name}'), 'independent, by Directory Bot');
+});
+
+test('sections follow whether their value is empty', () => {
+    const template = '{name}.{#location} Based in {location}.{/location}{^githubUrl} Closed source.{/githubUrl}';
+
+    assert.equal(render(template), 'Directory Bot. Based in Berlin. Closed source.');
+    assert.equal(
+        render(template, { ...appInfo, location: '', githubUrl: 'https://github.com/example/bot' }),
+        'Directory Bot.'
+    );
+});
+
+test('space left by empty values is collapsed', () => {
+    assert.equal(render('{name} {companyName} , {tagline}'), 'Directory Bot, Fill in directory forms');
+});
+
+test('a template that uses none of the data renders empty', () => {
+    assert.equal(render('Built by {companyName ?? "us"}'), '');
+    assert.equal(render('{#companyName}By {companyName}{/companyName}'), '');
+});
+
+test('invalid templates are rejected when compiled', () => {
+    const invalid: [string, RegExp][] = [
+        ['{nmae}', /Unknown field "nmae"/],
+        ['{name|shout}', /Unknown filter "shout"/],
+        ['{"none" ?? name}', /must come last/],
+        ['{name', /Unclosed "\{"/],
+        ['name}', /Unexpected "\}"/],
+        ['{#location}Based in {location}', /never closed/],
+        ['{#location}x{/tagline}', /does not match/],
+        ['x{/location}', /closes no section/]
+    ];
+
+    invalid.forEach(([template, message]) => {
+        assert.throws(() => compileTemplate(template), (error: unknown) =>
+            error instanceof TemplateError && message.test(error.message) && error.message.endsWith(`in template "${template}"`));
+    });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { after, before, test } from 'node:test';
+import express from 'express';
+import { CONTRACT_VERSION, CONTRACT_VERSION_HEADER } from '@directory-bot/contract';
+import { checkContractVersion } from '../src/routes/apiContract';
+
+const app = express();
+app.use(checkContractVersion);
+app.get('/ping', (req, res) => res.json({ ok: true }));
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.close();
+});
+
+async function ping(clientVersion?: string) {
+    const res = await fetch(`${baseUrl}/ping`, { headers: clientVersion === undefined ? {} : { [CONTRACT_VERSION_HEADER]: clientVersion } });
+    return { status: res.status, version: res.headers.get(CONTRACT_VERSION_HEADER), body: await res.json() };
+}
+
+test('clients on the same major version, or sending none, are served', async () => {
+    const major = CONTRACT_VERSION.split('.')[0];
+
+    for (const clientVersion of [undefined, CONTRACT_VERSION, `${major}.99.0`]) {
+        const { status, version, body } = await ping(clientVersion);
+        assert.equal(status, 200, `client version ${clientVersion}`);
+        assert.equal(version, CONTRACT_VERSION);
+        assert.deepEqual(body, { ok: true });
+    }
+});
+
+test('clients on another major version get a 400 naming both versions', async () => {
+    for (const clientVersion of [`${Number(CONTRACT_VERSION.split('.')[0]) + 1}.0.0`, '0.9.0', 'banana']) {
+        const { status, version, body } = await ping(clientVersion);
+        assert.equal(status, 400, `client version ${clientVersion}`);
+        assert.equal(version, CONTRACT_VERSION);
+        assert.deepEqual(body, {
+            error: `API contract version mismatch: client ${clientVersion}, server ${CONTRACT_VERSION}`,
+            clientVersion,
+            serverVersion: CONTRACT_VERSION
+        });
+    }
+});
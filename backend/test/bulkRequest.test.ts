@@ -0,0 +1,124 @@
+import './useTempDatabase';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { before, mock, test } from 'node:test';
+import { AppInfoSchema, BulkAnalysisRequestSchema } from '@directory-bot/contract';
+import { DEFAULT_ANSWER_FORMAT } from '../src/answers/fieldFormatters';
+
+type BulkRequest = typeof import('../src/answers/bulkRequest');
+type SiteAnalysis = typeof import('../src/answers/siteAnalysis');
+type ProfileStore = typeof import('../src/profiles/profileStore');
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+
+const appInfo = AppInfoSchema.parse({ name: 'Directory Bot', email: 'hello@example.com', tagline: 'Fill in directory forms' });
+
+let bulk: BulkRequest;
+let siteAnalysis: SiteAnalysis;
+let profiles: ProfileStore;
+
+before(() => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'bulk-')), 'directories.json');
+    fs.writeFileSync(file, JSON.stringify({
+        directories: [
+            { url: 'https://alpha.com', category: 'AI', questions: ['Product name', 'Contact email'] },
+            { url: 'https://bravo.com', category: 'SaaS', questions: ['Product name'] },
+            { url: 'https://charlie.com', category: 'AI', questions: ['Tagline'] },
+            { url: 'https://delta.com', category: 'AI', questions: ['Website'] }
+        ]
+    }));
+
+    // The catalog file and limits are read from the environment when the modules are first loaded
+    process.env.DATA_FILE_PATH = file;
+    process.env.ANSWER_PROVIDER = 'copy';
+    process.env.ANALYZE_CONCURRENCY = '2';
+    process.env.MAX_SITES_PER_RUN = '2';
+    bulk = require('../src/answers/bulkRequest');
+    siteAnalysis = require('../src/answers/siteAnalysis');
+    profiles = require('../src/profiles/profileStore');
+});
+
+function parse(body: Record<string, unknown>) {
+    return bulk.parseBulkAnalysisRequest(BulkAnalysisRequestSchema.parse(body));
+}
+
+function rejects(body: Record<string, unknown>, status: number, details: Record<string, unknown> = {}) {
+    assert.throws(() => parse(body), (error: unknown) => {
+        assert.ok(error instanceof bulk.BulkRequestError);
+        assert.equal(error.status, status);
+        assert.deepEqual(error.details, details);
+        return true;
+    });
+}
+
+test('a run covers one page of the catalog at a time', () => {
+    const first = parse({ appInfo });
+    assert.deepEqual(first.sites.map(site => site.url), ['https://alpha.com', 'https://bravo.com']);
+    assert.equal(first.total, 4);
+    assert.equal(first.concurrency, 2);
+    assert.deepEqual(first.format, DEFAULT_ANSWER_FORMAT);
+
+    const second = parse({ appInfo, filter: { cursor: first.nextCursor } });
+    assert.deepEqual(second.sites.map(site => site.url), ['https://charlie.com', 'https://delta.com']);
+    assert.equal(second.nextCursor, null);
+});
+
+test('site ids and URLs narrow the catalog before the filter', () => {
+    const byUrl = parse({ appInfo, siteUrls: ['https://www.delta.com/', 'https://bravo.com'], filter: { category: 'ai' } });
+    assert.deepEqual(byUrl.sites.map(site => site.url), ['https://delta.com']);
+
+    const [charlie] = parse({ appInfo, siteUrls: ['https://charlie.com'] }).sites;
+    const byId = parse({ appInfo, siteIds: [` ${charlie.id} `] });
+    assert.deepEqual(byId.sites, [charlie]);
+});
+
+test('a saved profile can stand in for appInfo', () => {
+    const profile = profiles.appProfiles.create(appInfo);
+
+    const request = parse({ profileId: profile.id });
+    assert.equal(request.profileId, profile.id);
+    assert.deepEqual(request.appInfo, profile.appInfo);
+
+    rejects({ profileId: 'no-such-profile' }, 404, { profileId: 'no-such-profile' });
+});
+
+test('bad requests are refused with a status and details', () => {
+    rejects({ appInfo, concurrency: 3 }, 400);
+    rejects({ appInfo, filter: { sort: 'popularity' } }, 400);
+    rejects({ appInfo, filter: { pack: 'games' } }, 404, { unknownPacks: ['games'] });
+    rejects({ appInfo, siteIds: ['no-such-site'] }, 404, { unknownDirectories: ['no-such-site'] });
+    rejects({ appInfo, siteUrls: ['https://echo.com'] }, 404, { unknownDirectories: ['https://echo.com'] });
+    rejects({ appInfo, filter: { category: 'games' } }, 404, { total: 0 });
+});
+
+test('no more than `concurrency` tasks run at once and results keep their order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await siteAnalysis.mapWithConcurrency([30, 5, 20, 10, 1], 2, async delay => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        running--;
+        return delay * 2;
+    });
+
+    assert.equal(peak, 2);
+    assert.deepEqual(results, [60, 10, 40, 20, 2]);
+});
+
+test('a failing directory is reported without stopping the others', async () => {
+    const { sites } = parse({ appInfo, siteUrls: ['https://alpha.com', 'https://bravo.com'] });
+    const empty = { ...sites[1], questions: [] };
+
+    const analysis = await siteAnalysis.analyzeSites([sites[0], empty], appInfo, DEFAULT_ANSWER_FORMAT, 2);
+
+    assert.equal(analysis.succeeded, 1);
+    assert.equal(analysis.failed, 1);
+    assert.deepEqual(analysis.results.map(result => result.status), ['success', 'error']);
+    assert.deepEqual(analysis.results.map(result => result.siteUrl), ['https://alpha.com', 'https://bravo.com']);
+    assert.equal(analysis.results[1].status === 'error' && analysis.results[1].error, 'No questions found for this site');
+});
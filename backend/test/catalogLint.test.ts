@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { LINT_EXIT_CODES, lintCatalog, lintExitCode } from '../src/catalog/catalogLint';
+import { CatalogIssue } from '../src/catalog/catalogTypes';
+import { normalizeQuestion } from '../src/catalog/questionSchema';
+import { DirectorySite } from '../src/types';
+
+function site(id: string, url: string, questions: string[], line: number, pack = 'data'): DirectorySite {
+    return {
+        id,
+        url,
+        pack,
+        questions: questions.map(question => normalizeQuestion({ question })),
+        source: { file: 'catalog.csv', line }
+    };
+}
+
+function findings(sites: DirectorySite[], issues: CatalogIssue[] = []) {
+    const report = lintCatalog({ dataFile: 'catalog.csv', sites, rowCount: sites.length, issues });
+    return report.findings.map(finding => [finding.code, finding.severity, finding.line]);
+}
+
+test('a clean catalog has no findings', () => {
+    const report = lintCatalog({
+        dataFile: 'catalog.csv',
+        sites: [site('a', 'https://a-directory.com', ['Product name', 'Website'], 2)],
+        rowCount: 1,
+        issues: []
+    });
+
+    assert.deepEqual(report.findings, []);
+    assert.deepEqual(report.summary, { errors: 0, warnings: 0 });
+    assert.equal(lintExitCode(report), LINT_EXIT_CODES.clean);
+});
+
+test('the same URL twice in a pack is an error, across packs it is fine', () => {
+    assert.deepEqual(findings([
+        site('a', 'https://a-directory.com/', ['Product name'], 2),
+        site('a-2', 'http://www.a-directory.com', ['Tagline'], 3),
+        site('a-3', 'https://a-directory.com', ['Tagline'], 2, 'saas')
+    ]), [['duplicate-url', 'error', 3]]);
+});
+
+test('unreachable-looking URLs are warnings', () => {
+    const urls = [
+        'Unknown Site 4',
+        'https://AI Tools',
+        'ftp://files.a-directory.com',
+        'https://intranet',
+        'https://192.168.1.10',
+        'http://localhost:3000',
+        'https://demo.example.com',
+        'https://a-directory.c0m'
+    ];
+
+    const report = lintCatalog({
+        dataFile: 'catalog.csv',
+        sites: urls.map((url, index) => site(`s${index}`, url, ['Product name'], index + 2)),
+        rowCount: urls.length,
+        issues: []
+    });
+
+    assert.deepEqual(report.findings.map(finding => [finding.code, finding.severity]), urls.map(() => ['suspicious-url', 'warning']));
+    assert.match(report.findings[0].message, /row has no URL/);
+    assert.match(report.findings[4].message, /IP address/);
+});
+
+test('repeated and near-duplicate questions are warnings', () => {
+    const report = lintCatalog({
+        dataFile: 'catalog.csv',
+        sites: [site('a', 'https://a-directory.com', ['Product name', 'Product name?', 'Pricing URL', 'Pricing URLs', 'Tagline'], 2)],
+        rowCount: 1,
+        issues: []
+    });
+
+    assert.deepEqual(report.findings.map(finding => finding.code), ['duplicate-question', 'near-duplicate-question']);
+    assert.match(report.findings[1].message, /Questions 3 \("Pricing URL"\) and 4 \("Pricing URLs"\)/);
+});
+
+test('load issues pass through and set the exit code', () => {
+    const warning: CatalogIssue = { file: 'catalog.csv', line: 5, code: 'no-questions', severity: 'warning', message: 'No questions' };
+    const error: CatalogIssue = { file: 'catalog.csv', line: 6, code: 'invalid-row', severity: 'error', message: 'Bad row' };
+    const sites = [site('a', 'https://a-directory.com', ['Product name'], 2)];
+
+    const withWarning = lintCatalog({ dataFile: 'catalog.csv', sites, rowCount: 2, issues: [warning] });
+    assert.equal(lintExitCode(withWarning), LINT_EXIT_CODES.clean);
+    assert.equal(lintExitCode(withWarning, true), LINT_EXIT_CODES.warnings);
+
+    const withError = lintCatalog({ dataFile: 'catalog.csv', sites, rowCount: 3, issues: [warning, error] });
+    assert.deepEqual(withError.summary, { errors: 1, warnings: 1 });
+    assert.equal(lintExitCode(withError), LINT_EXIT_CODES.errors);
+
+    const failed = lintCatalog({ dataFile: 'catalog.csv', sites: [], rowCount: 0, issues: [], loadError: 'Data file not found' });
+    assert.deepEqual(failed.findings.map(finding => finding.code), ['load-failed']);
+    assert.equal(lintExitCode(failed), LINT_EXIT_CODES.loadFailed);
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mock, test } from 'node:test';
+import { DirectoryCatalog } from '../src/catalog/catalogService';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+mock.method(console, 'error', () => {});
+
+function writeDirectories(file: string, directories: { url: string; questions: string[] }[]): void {
+    fs.writeFileSync(file, JSON.stringify({ directories }, null, 2));
+}
+
+function tempCatalog(): string {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-')), 'directories.json');
+    writeDirectories(file, [{ url: 'https://first.example', questions: ['Product name', 'Website'] }]);
+    return file;
+}
+
+async function until(condition: () => boolean, timeoutMs = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for the catalog');
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+}
+
+test('the catalog is read once and served from memory', () => {
+    const file = tempCatalog();
+    const catalog = new DirectoryCatalog(file);
+    assert.equal(catalog.getStatus().loaded, false);
+
+    const [site] = catalog.getSites();
+    assert.equal(site.url, 'https://first.example');
+    assert.equal(catalog.findSite(site.id), site);
+    assert.equal(catalog.findSiteByUrl('http://www.first.example/'), site);
+
+    // Changes on disk are not seen until the catalog reloads
+    writeDirectories(file, []);
+    assert.equal(catalog.getSites().length, 1);
+    assert.equal(catalog.getStatus().siteCount, 1);
+});
+
+test('a failed reload keeps the sites loaded before', () => {
+    const file = tempCatalog();
+    const catalog = new DirectoryCatalog(file);
+    catalog.load();
+
+    fs.writeFileSync(file, '{ "directories": [');
+    catalog.load();
+
+    assert.deepEqual(catalog.getSites().map(site => site.url), ['https://first.example']);
+    assert.match(catalog.getStatus().lastError!, /directories\.json/);
+});
+
+test('a missing data file is reported instead of thrown', () => {
+    const catalog = new DirectoryCatalog(path.join(os.tmpdir(), 'no-such-dir', 'directories.json'));
+
+    assert.deepEqual(catalog.getSites(), []);
+    assert.match(catalog.getStatus().lastError!, /Data file not found/);
+    assert.equal(catalog.getStatus().dataFileExists, false);
+});
+
+test('listeners run after every successful load', () => {
+    const file = tempCatalog();
+    const catalog = new DirectoryCatalog(file);
+    const loads: number[] = [];
+    catalog.onLoad(sites => loads.push(sites.length));
+
+    catalog.load();
+    fs.writeFileSync(file, 'not: [valid');
+    catalog.load();
+    writeDirectories(file, [
+        { url: 'https://first.example', questions: ['Product name'] },
+        { url: 'https://second.example', questions: ['Tagline'] }
+    ]);
+    catalog.load();
+
+    assert.deepEqual(loads, [1, 2]);
+});
+
+test('a watched catalog reloads when its file changes', async () => {
+    const file = tempCatalog();
+    const catalog = new DirectoryCatalog(file);
+    catalog.load();
+    catalog.watch();
+
+    try {
+        assert.equal(catalog.getStatus().watching, true);
+        writeDirectories(file, [
+            { url: 'https://first.example', questions: ['Product name'] },
+            { url: 'https://second.example', questions: ['Tagline'] }
+        ]);
+
+        await until(() => catalog.getSites().length === 2);
+        assert.ok(catalog.findSiteByUrl('https://second.example'));
+    } finally {
+        catalog.unwatch();
+    }
+    assert.equal(catalog.getStatus().watching, false);
+});
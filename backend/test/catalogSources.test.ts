@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mock, test } from 'node:test';
+import { CatalogLoadError } from '../src/catalog/catalogTypes';
+import { getSourceForFile, loadCatalog } from '../src/catalog/sources';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+
+function tempDir(files: Record<string, string>): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-sources-'));
+    Object.entries(files).forEach(([name, content]) => fs.writeFileSync(path.join(dir, name), content));
+    return dir;
+}
+
+const CSV = [
+    'directory_website,question,type,required,max_length',
+    'https://csv.example,Product name,,yes,',
+    ',"Description, in a few words",textarea,,160'
+].join('\n');
+
+const JSON_CATALOG = JSON.stringify({
+    directories: [
+        { url: 'https://json.example', questions: ['Product name', { question: 'Tagline', required: true, maxLength: 60 }] }
+    ]
+}, null, 2);
+
+const YAML_CATALOG = [
+    'directories:',
+    '  - url: https://yaml.example',
+    '    questions:',
+    '      - Product name',
+    '      - { question: Category, type: select, options: AI | SaaS }'
+].join('\n');
+
+test('the source is picked from the file extension', () => {
+    assert.equal(getSourceForFile('catalog.XLSX')?.format, 'xlsx');
+    assert.equal(getSourceForFile('catalog.csv')?.format, 'csv');
+    assert.equal(getSourceForFile('catalog.json')?.format, 'json');
+    assert.equal(getSourceForFile('catalog.yml')?.format, 'yaml');
+    assert.equal(getSourceForFile('catalog.txt'), undefined);
+});
+
+test('CSV, JSON and YAML files give the same directory shape', () => {
+    const dir = tempDir({ 'a.csv': CSV, 'b.json': JSON_CATALOG, 'c.yaml': YAML_CATALOG });
+
+    const [csv] = loadCatalog(path.join(dir, 'a.csv')).sites;
+    assert.deepEqual(csv.questions, [
+        { question: 'Product name', type: 'text', required: true },
+        { question: 'Description, in a few words', type: 'textarea', required: false, maxLength: 160 }
+    ]);
+    assert.deepEqual(csv.source, { file: 'a.csv', line: 2 });
+
+    const [json] = loadCatalog(path.join(dir, 'b.json')).sites;
+    assert.deepEqual(json.questions[1], { question: 'Tagline', type: 'text', required: true, maxLength: 60 });
+    assert.equal(json.pack, 'b');
+
+    const [yaml] = loadCatalog(path.join(dir, 'c.yaml')).sites;
+    assert.deepEqual(yaml.questions[1], { question: 'Category', type: 'select', required: false, options: ['AI', 'SaaS'] });
+    assert.deepEqual(yaml.source, { file: 'c.yaml', line: 2 });
+});
+
+test('a data directory merges every supported file, skipping hidden and temporary ones', () => {
+    const dir = tempDir({
+        'a.csv': CSV,
+        'b.json': JSON_CATALOG,
+        'c.yaml': YAML_CATALOG,
+        '.hidden.json': JSON_CATALOG,
+        '~$lock.csv': CSV,
+        'notes.txt': 'not a catalog'
+    });
+
+    const result = loadCatalog(dir);
+
+    assert.deepEqual(result.files.map(file => path.basename(file)), ['a.csv', 'b.json', 'c.yaml']);
+    assert.deepEqual(result.sites.map(site => site.url), ['https://csv.example', 'https://json.example', 'https://yaml.example']);
+    assert.deepEqual(result.issues, []);
+});
+
+test('load errors name the file and line', () => {
+    const dir = tempDir({
+        'bad-row.csv': 'directory_website,question,type\nhttps://ok.example,Product name,\n,Tagline,spaceship',
+        'broken.yaml': 'directories:\n  - url: https://broken.example\n    questions: [Tagline',
+        'good.json': JSON_CATALOG
+    });
+
+    const single = loadCatalog(path.join(dir, 'bad-row.csv'));
+    assert.deepEqual(single.issues.map(issue => [issue.file, issue.line, issue.severity]), [['bad-row.csv', 3, 'error']]);
+
+    assert.throws(() => loadCatalog(path.join(dir, 'broken.yaml')), (error: unknown) =>
+        error instanceof CatalogLoadError && error.file === 'broken.yaml' && error.line !== undefined);
+
+    // In a directory, a broken file is reported and the others still load
+    const merged = loadCatalog(dir);
+    assert.deepEqual(merged.sites.map(site => site.url), ['https://ok.example', 'https://json.example']);
+    assert.deepEqual(merged.issues.map(issue => [issue.file, issue.code]), [
+        ['bad-row.csv', 'invalid-row'],
+        ['broken.yaml', 'unreadable-file']
+    ]);
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test } from 'node:test';
+import XLSX from 'xlsx';
+import { DirectoryCatalog } from '../src/catalog/catalogService';
+import { CatalogConflictError } from '../src/catalog/catalogTypes';
+import { parseQuestionInput } from '../src/catalog/siteInput';
+import { parseDirectoryRows } from '../src/catalog/rowParser';
+
+const WORKBOOK = path.join(__dirname, '..', 'data', 'Directory_Bot.xlsx');
+
+// A copy of the real workbook, so edits never touch the tracked file
+function copyWorkbook(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-write-'));
+    const file = path.join(dir, 'Directory_Bot.xlsx');
+    fs.copyFileSync(WORKBOOK, file);
+    return file;
+}
+
+// A copy that also lists toolsfine.com a second time, as two directories sharing a URL
+function copyWorkbookWithSharedUrl(): string {
+    const file = copyWorkbook();
+    const workbook = XLSX.readFile(file);
+    XLSX.utils.sheet_add_aoa(workbook.Sheets.data, [[
+        'https://toolsfine.com/',
+        'Your name,Your email,Product name,Product website url,Is it possible to provide backlink for Toolsfine.com?'
+    ]], { origin: -1 });
+    XLSX.writeFile(workbook, file);
+    return file;
+}
+
+function sheetValues(file: string): Record<string, unknown[][]> {
+    const workbook = XLSX.readFile(file);
+    return Object.fromEntries(workbook.SheetNames.map(name => [
+        name,
+        XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, blankrows: true, defval: '' }) as unknown[][]
+    ]));
+}
+
+function directories(catalog: DirectoryCatalog) {
+    return catalog.getSites().map(({ id, url, category, pack, questions }) => ({ id, url, category, pack, questions }));
+}
+
+test('adding and removing a directory leaves the workbook as it was', () => {
+    const file = copyWorkbookWithSharedUrl();
+    const before = sheetValues(file);
+    const catalog = new DirectoryCatalog(file);
+    const sitesBefore = directories(catalog);
+
+    const created = catalog.createSite({ url: 'https://newdir.io/', questions: [parseQuestionInput('Product name')] });
+    assert.equal(catalog.getSites().length, sitesBefore.length + 1);
+    catalog.deleteSite(created.id);
+
+    assert.deepEqual(directories(catalog), sitesBefore);
+    assert.deepEqual(sheetValues(file), before);
+    assert.ok(catalog.findSite('toolsfine-com'));
+    assert.ok(catalog.findSite('toolsfine-com-2'));
+});
+
+test('editing a directory rewrites its row only', () => {
+    const file = copyWorkbookWithSharedUrl();
+    const before = sheetValues(file);
+    const catalog = new DirectoryCatalog(file);
+    const edited = catalog.findSite('toolsfine-com-2')!;
+
+    const questions = ['Product name', 'Product website url', 'Tagline, in one sentence'].map(parseQuestionInput);
+    catalog.updateSite('toolsfine-com-2', { questions });
+
+    assert.deepEqual(catalog.findSite('toolsfine-com-2')!.questions, questions);
+    assert.ok(catalog.findSite('toolsfine-com')!.questions.length > 3);
+
+    const after = sheetValues(file);
+    const editedRow = edited.source!.line - 1;
+    assert.deepEqual(after.legend, before.legend);
+    assert.equal(after.data.length, before.data.length);
+    after.data.forEach((row, index) => {
+        if (index !== editedRow) {
+            assert.deepEqual(row, before.data[index]);
+        }
+    });
+    assert.deepEqual(after.data[editedRow], ['https://toolsfine.com/', questions.map(question => question.question).join('\n')]);
+});
+
+test('question limits are refused in a one-cell question list', () => {
+    const file = copyWorkbook();
+    const before = fs.readFileSync(file);
+    const catalog = new DirectoryCatalog(file);
+
+    assert.throws(
+        () => catalog.updateSite('dang-ai', { questions: [parseQuestionInput({ question: 'Your Name', maxLength: 40 })] }),
+        CatalogConflictError
+    );
+    assert.deepEqual(fs.readFileSync(file), before);
+});
+
+test('per-question rows sharing a URL are kept apart by their id', () => {
+    const rows = [
+        ['id', 'directory_website', 'question'],
+        ['toolsfine', 'https://toolsfine.com/', 'Your name'],
+        ['toolsfine-pro', 'https://toolsfine.com/', 'Product name'],
+        ['toolsfine', 'https://toolsfine.com/', 'Your email']
+    ];
+    const { sites } = parseDirectoryRows(rows, { file: 'directories.csv' });
+
+    assert.deepEqual(sites.map(site => [site.id, site.questions.map(question => question.question)]), [
+        ['toolsfine', ['Your name', 'Your email']],
+        ['toolsfine-pro', ['Product name']]
+    ]);
+});
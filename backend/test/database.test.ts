@@ -0,0 +1,82 @@
+import './useTempDatabase';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mock, test } from 'node:test';
+import { SqliteDatabase } from '../src/db/database';
+import { Migration, MIGRATIONS } from '../src/db/migrations';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+function tempFile(): string {
+    return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'database-')), 'test.sqlite');
+}
+
+function appliedVersions(database: SqliteDatabase): number[] {
+    return database.connection.prepare('SELECT version FROM schema_migrations ORDER BY version').pluck().all() as number[];
+}
+
+const ADD_PROFILE_NOTES: Migration = {
+    version: 2,
+    name: 'profile notes',
+    sql: "ALTER TABLE profiles ADD COLUMN notes TEXT NOT NULL DEFAULT ''"
+};
+
+test('a fresh database gets every migration', () => {
+    const database = new SqliteDatabase(':memory:', MIGRATIONS);
+
+    assert.deepEqual(appliedVersions(database), MIGRATIONS.map(migration => migration.version));
+    const status = database.getStatus();
+    assert.equal(status.open, true);
+    assert.equal(status.schemaVersion, status.latestVersion);
+    assert.deepEqual(status.rowCounts, { profiles: 0, analysis_runs: 0, run_answers: 0, catalog_snapshots: 0, submissions: 0 });
+    database.close();
+});
+
+test('an existing database is upgraded in place and keeps its rows', () => {
+    const file = tempFile();
+    const old = new SqliteDatabase(file, MIGRATIONS);
+    old.connection.prepare("INSERT INTO profiles (id, created_at, updated_at) VALUES ('p1', 'then', 'then')").run();
+    old.close();
+
+    const upgraded = new SqliteDatabase(file, [...MIGRATIONS, ADD_PROFILE_NOTES]);
+
+    assert.deepEqual(appliedVersions(upgraded), [1, 2]);
+    assert.equal(upgraded.getStatus().schemaVersion, 2);
+    assert.deepEqual(upgraded.connection.prepare('SELECT id, notes FROM profiles').all(), [{ id: 'p1', notes: '' }]);
+    upgraded.close();
+
+    // Reopening applies nothing again
+    const reopened = new SqliteDatabase(file, [...MIGRATIONS, ADD_PROFILE_NOTES]);
+    assert.deepEqual(appliedVersions(reopened), [1, 2]);
+    reopened.close();
+});
+
+test('a failed migration leaves the schema at the previous version', () => {
+    const file = tempFile();
+    const current = new SqliteDatabase(file, MIGRATIONS);
+    current.open();
+    current.close();
+
+    const broken: Migration = { version: 2, name: 'broken', sql: 'ALTER TABLE profiles ADD COLUMN notes TEXT; SELECT * FROM no_such_table' };
+    const failing = new SqliteDatabase(file, [...MIGRATIONS, broken]);
+    assert.throws(() => failing.open(), /no such table/);
+    assert.match(failing.getStatus().lastError!, /no such table/);
+
+    const reopened = new SqliteDatabase(file, MIGRATIONS);
+    assert.deepEqual(appliedVersions(reopened), [1]);
+    const columns = reopened.connection.prepare('PRAGMA table_info(profiles)').all() as { name: string }[];
+    assert.ok(!columns.some(column => column.name === 'notes'));
+    reopened.close();
+});
+
+test('a database from a newer backend is refused', () => {
+    const file = tempFile();
+    const newer = new SqliteDatabase(file, [...MIGRATIONS, ADD_PROFILE_NOTES]);
+    newer.open();
+    newer.close();
+
+    assert.throws(() => new SqliteDatabase(file, MIGRATIONS).open(), /schema version 2, newer than this backend's 1/);
+});
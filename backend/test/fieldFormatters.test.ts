@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import {
+    DEFAULT_ANSWER_FORMAT,
+    formatAnswer,
+    formatAnswerVariants,
+    formatFieldValue,
+    joinWithAnd,
+    parseAnswerFormat
+} from '../src/answers/fieldFormatters';
+import { ValidationError } from '../src/validation';
+
+const appInfo = AppInfoSchema.parse({
+    name: 'Directory Bot',
+    url: 'directorybot.example',
+    type: 'saas',
+    description: 'Fills in   startup directory forms',
+    targetAudience: 'indie makers',
+    mainFeatures: ['Form filling', 'Length limits', 'Bulk runs'],
+    techStack: ['TypeScript'],
+    email: 'Hello@Example.com',
+    launchDate: '2024-05-31',
+    isReleased: true,
+    taglineVariants: { short: 'Directory forms, done', long: 'Directory forms, filled in from one profile' }
+});
+
+const prose = { ...DEFAULT_ANSWER_FORMAT, style: 'prose' as const };
+
+test('plain values are ready to paste', () => {
+    assert.equal(formatFieldValue(appInfo, 'url'), 'https://directorybot.example');
+    assert.equal(formatFieldValue({ ...appInfo, xUrl: '@directorybot' }, 'xUrl'), 'https://x.com/directorybot');
+    assert.equal(formatFieldValue(appInfo, 'email'), 'hello@example.com');
+    assert.equal(formatFieldValue(appInfo, 'launchDate'), '2024-05-31');
+    assert.equal(formatFieldValue(appInfo, 'type'), 'SaaS');
+    assert.equal(formatFieldValue(appInfo, 'isReleased'), 'Yes');
+    assert.equal(formatFieldValue(appInfo, 'enableGithubActions'), 'No');
+    assert.equal(formatFieldValue(appInfo, 'mainFeatures'), 'Form filling, Length limits, Bulk runs');
+    assert.equal(formatFieldValue(appInfo, 'description'), 'Fills in startup directory forms');
+    assert.equal(formatFieldValue(appInfo, 'githubUrl'), '');
+    assert.equal(formatFieldValue(appInfo, null), '');
+});
+
+test('locale dates keep the calendar day', () => {
+    const format = { ...DEFAULT_ANSWER_FORMAT, dateFormat: 'locale' as const };
+
+    assert.equal(formatFieldValue(appInfo, 'launchDate', format), 'May 31, 2024');
+    assert.equal(formatFieldValue(appInfo, 'launchDate', { ...format, locale: 'de-DE' }), '31. Mai 2024');
+    assert.equal(formatFieldValue({ ...appInfo, launchDate: 'soon' }, 'launchDate', format), 'soon');
+});
+
+test('prose turns free-text fields into sentences but leaves structured questions bare', () => {
+    assert.equal(formatAnswer(appInfo, 'description', 'textarea', prose), 'Fills in startup directory forms.');
+    assert.equal(formatAnswer(appInfo, 'targetAudience', undefined, prose), 'Directory Bot is built for indie makers.');
+    assert.equal(formatAnswer(appInfo, 'mainFeatures', 'text', prose), 'Key features include Form filling, Length limits and Bulk runs.');
+    assert.equal(formatAnswer(appInfo, 'type', 'text', prose), 'Directory Bot is a SaaS product.');
+    assert.equal(formatAnswer(appInfo, 'type', 'select', prose), 'SaaS');
+    assert.equal(formatAnswer(appInfo, 'url', 'text', prose), 'https://directorybot.example');
+    assert.equal(formatAnswer(appInfo, 'location', 'text', prose), '');
+    assert.equal(formatAnswer(appInfo, 'description', 'textarea'), 'Fills in startup directory forms');
+});
+
+test('variants follow the formatted value, without duplicates', () => {
+    assert.deepEqual(formatAnswerVariants(appInfo, 'tagline', 'text'), ['Directory forms, done', 'Directory forms, filled in from one profile']);
+    assert.deepEqual(
+        formatAnswerVariants({ ...appInfo, tagline: 'Directory forms, done' }, 'tagline', 'text'),
+        ['Directory forms, done', 'Directory forms, filled in from one profile']
+    );
+    assert.deepEqual(formatAnswerVariants(appInfo, 'email', 'email'), ['hello@example.com']);
+});
+
+test('lists are joined with "and"', () => {
+    assert.equal(joinWithAnd([]), '');
+    assert.equal(joinWithAnd(['a']), 'a');
+    assert.equal(joinWithAnd(['a', 'b']), 'a and b');
+    assert.equal(joinWithAnd(['a', 'b', 'c']), 'a, b and c');
+});
+
+test('answer format options are validated', () => {
+    assert.equal(parseAnswerFormat(undefined), DEFAULT_ANSWER_FORMAT);
+    assert.deepEqual(parseAnswerFormat({ style: 'prose', locale: 'fr-FR' }), { style: 'prose', dateFormat: 'iso', locale: 'fr-FR' });
+
+    [[], 'prose', { style: 'fancy' }, { dateFormat: 'us' }, { locale: 'not a locale!' }].forEach(value => {
+        assert.throws(() => parseAnswerFormat(value), (error: unknown) =>
+            error instanceof ValidationError && error.code === 'invalid-answer-format');
+    });
+});
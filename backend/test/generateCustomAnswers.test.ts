@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { after, before, mock, test } from 'node:test';
+import { Server } from 'http';
+import * as answerService from '../src/answers/answerService';
+import { directoryCatalog } from '../src/catalog/catalogService';
+import app from '../src/server';
+
+const appInfo = { name: 'Directory Bot', email: 'hello@example.com', tagline: 'Fill in directory forms' };
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.close();
+});
+
+async function generate(body: Record<string, unknown>) {
+    const res = await fetch(`${baseUrl}/api/generate-custom-answers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appInfo, ...body })
+    });
+    return { status: res.status, body: await res.json() };
+}
+
+const siteUrlOf = (id: string) => directoryCatalog.findSite(id)!.url;
+
+test('siteIds and siteUrls pick the directories to answer', async () => {
+    const { status, body } = await generate({ siteIds: ['dang-ai', 'wellfound-com'] });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.analyses.map((analysis: { siteUrl: string }) => analysis.siteUrl).sort(), [siteUrlOf('dang-ai'), siteUrlOf('wellfound-com')].sort());
+    assert.deepEqual(body.failed, []);
+    assert.equal(body.total, 2);
+    assert.equal(body.nextCursor, null);
+
+    const byUrl = await generate({ siteUrls: [siteUrlOf('alternative-me')] });
+    assert.equal(byUrl.status, 200);
+    assert.deepEqual(byUrl.body.analyses.map((analysis: { siteUrl: string }) => analysis.siteUrl), [siteUrlOf('alternative-me')]);
+    assert.equal(byUrl.body.analyses[0].questions.length, directoryCatalog.findSite('alternative-me')!.questions.length);
+});
+
+test('more matching directories than one page come with a cursor', async () => {
+    const first = await generate({ filter: { limit: 2 } });
+    assert.equal(first.status, 200);
+    assert.equal(first.body.analyses.length, 2);
+    assert.equal(first.body.total, directoryCatalog.getSites().length);
+    assert.equal(typeof first.body.nextCursor, 'string');
+
+    const second = await generate({ filter: { limit: 2, cursor: first.body.nextCursor } });
+    assert.equal(second.status, 200);
+    assert.equal(second.body.offset, 2);
+    const urls = (page: typeof first) => page.body.analyses.map((analysis: { siteUrl: string }) => analysis.siteUrl);
+    assert.ok(urls(second).every((url: string) => !urls(first).includes(url)));
+});
+
+test('unknown directories are refused', async () => {
+    const byId = await generate({ siteIds: ['dang-ai', 'no-such-directory'] });
+    assert.equal(byId.status, 404);
+    assert.deepEqual(byId.body.unknownDirectories, ['no-such-directory']);
+
+    const byUrl = await generate({ siteUrls: ['https://no-such-directory.example/'] });
+    assert.equal(byUrl.status, 404);
+    assert.deepEqual(byUrl.body.unknownDirectories, ['https://no-such-directory.example/']);
+});
+
+test('a failing directory is reported without stopping the others', async () => {
+    const getBatchAnswers = answerService.getBatchAnswers;
+    const failing = mock.method(answerService, 'getBatchAnswers', (questions: Parameters<typeof getBatchAnswers>[0], context: Parameters<typeof getBatchAnswers>[1]) => {
+        if (context.siteId === 'dang-ai') {
+            throw new Error('Provider unavailable');
+        }
+        return getBatchAnswers(questions, context);
+    });
+
+    try {
+        const { status, body } = await generate({ siteIds: ['dang-ai', 'wellfound-com'] });
+
+        assert.equal(status, 200);
+        assert.deepEqual(body.analyses.map((analysis: { siteUrl: string }) => analysis.siteUrl), [siteUrlOf('wellfound-com')]);
+        assert.deepEqual(body.failed, [{ siteUrl: siteUrlOf('dang-ai'), siteName: 'dang.ai', error: 'Provider unavailable' }]);
+    } finally {
+        failing.mock.restore();
+    }
+});
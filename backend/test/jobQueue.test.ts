@@ -0,0 +1,160 @@
+import './useTempDatabase';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { mock, test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import * as answerService from '../src/answers/answerService';
+import { parseBulkAnalysisRequest } from '../src/answers/bulkRequest';
+import { SqliteDatabase } from '../src/db/database';
+import { MIGRATIONS } from '../src/db/migrations';
+import { createJob, isFinished } from '../src/jobs/analysisJob';
+import { AnalysisJobQueue, JobConflictError } from '../src/jobs/jobQueue';
+import { AnalysisJobStore } from '../src/jobs/jobStore';
+import app from '../src/server';
+
+// The queue logs every step; that much output between its messages trips up Node 20's test runner
+mock.method(console, 'log', () => {});
+const appInfo = AppInfoSchema.parse({ name: 'Directory Bot', email: 'hello@example.com', tagline: 'Fill in directory forms' });
+
+function newQueue(file = ':memory:') {
+    const store = new AnalysisJobStore(new SqliteDatabase(file, MIGRATIONS));
+    return { store, queue: new AnalysisJobQueue(store) };
+}
+
+function request(siteIds: string[]) {
+    return parseBulkAnalysisRequest({ appInfo, siteIds, concurrency: 1 });
+}
+
+async function until(condition: () => boolean): Promise<void> {
+    while (!condition()) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+// Hold every provider call until release(), so a test can act while directories are in flight
+function holdAnswers() {
+    const getBatchAnswers = answerService.getBatchAnswers;
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const held = mock.method(answerService, 'getBatchAnswers', async (...args: Parameters<typeof getBatchAnswers>) => {
+        await released;
+        return getBatchAnswers(...args);
+    });
+    return { release, calls: () => held.mock.callCount(), restore: () => held.mock.restore() };
+}
+
+test('cancel skips pending directories and retry waits for the ones in flight', async () => {
+    const { store, queue } = newQueue();
+    const answers = holdAnswers();
+    try {
+        const job = queue.create(request(['dang-ai', 'wellfound-com', 'openalternative-co']));
+        await until(() => answers.calls() === 1);
+
+        const cancelled = queue.cancel(job.id)!;
+        assert.equal(cancelled.status, 'cancelled');
+        assert.deepEqual(cancelled.sites.map(site => site.status), ['running', 'cancelled', 'cancelled']);
+        assert.throws(() => queue.retry(job.id), JobConflictError);
+
+        answers.release();
+        await until(() => queue.getStatus().running === null);
+        assert.deepEqual(store.get(job.id)!.sites.map(site => site.status), ['success', 'cancelled', 'cancelled']);
+        assert.equal(answers.calls(), 1);
+
+        const retried = queue.retry(job.id)!;
+        assert.equal(retried.status, 'queued');
+        await until(() => isFinished(queue.get(job.id)!));
+
+        const finished = store.get(job.id)!;
+        assert.equal(finished.status, 'completed');
+        assert.deepEqual(finished.sites.map(site => [site.status, site.attempts]), [['success', 1], ['success', 1], ['success', 1]]);
+    } finally {
+        answers.restore();
+    }
+});
+
+test('retry runs failed directories again and keeps the successful ones', async () => {
+    const { store, queue } = newQueue();
+    const getBatchAnswers = answerService.getBatchAnswers;
+    const failing = mock.method(answerService, 'getBatchAnswers', (...args: Parameters<typeof getBatchAnswers>) => {
+        if (args[1].siteId === 'dang-ai') {
+            throw new Error('Provider unavailable');
+        }
+        return getBatchAnswers(...args);
+    });
+
+    const job = queue.create(request(['dang-ai', 'wellfound-com']));
+    await until(() => isFinished(queue.get(job.id)!));
+    failing.mock.restore();
+
+    const bySite = (id: string) => Object.fromEntries(store.get(id)!.sites.map(site => [site.siteId, [site.status, site.attempts, site.error]]));
+    assert.equal(store.get(job.id)!.status, 'completed');
+    assert.deepEqual(bySite(job.id), { 'dang-ai': ['error', 1, 'Provider unavailable'], 'wellfound-com': ['success', 1, undefined] });
+    assert.equal(queue.retry('no-such-job'), undefined);
+
+    queue.retry(job.id);
+    await until(() => isFinished(queue.get(job.id)!));
+    assert.deepEqual(bySite(job.id), { 'dang-ai': ['success', 2, undefined], 'wellfound-com': ['success', 1, undefined] });
+    assert.throws(() => queue.retry(job.id), JobConflictError);
+});
+
+test('unfinished jobs are resumed from the database after a restart', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'job-queue-')), 'jobs.sqlite');
+    const before = newQueue(file);
+    const job = createJob(request(['dang-ai', 'wellfound-com']));
+    job.status = 'running';
+    job.sites[0].status = 'success';
+    job.sites[0].attempts = 1;
+    job.sites[1].status = 'running';
+    job.sites[1].attempts = 1;
+    before.store.save(job);
+
+    const after = newQueue(file);
+    after.queue.load();
+    assert.equal(after.queue.get(job.id)!.status, 'queued');
+    await until(() => isFinished(after.queue.get(job.id)!));
+
+    const resumed = newQueue(file).store.get(job.id)!;
+    assert.equal(resumed.status, 'completed');
+    assert.deepEqual(resumed.sites.map(site => [site.status, site.attempts]), [['success', 1], ['success', 2]]);
+    assert.ok(resumed.sites[1].analysis!.questions.length > 0);
+});
+
+test('the events stream reports each directory and the final status', async () => {
+    const server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const answers = holdAnswers();
+    try {
+        const created = await fetch(`${baseUrl}/api/jobs`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ appInfo, siteIds: ['dang-ai', 'wellfound-com'], concurrency: 1 })
+        });
+        assert.equal(created.status, 202);
+        const { job } = await created.json();
+
+        const stream = await fetch(`${baseUrl}/api/jobs/${job.id}/events`);
+        assert.equal(stream.headers.get('content-type'), 'text/event-stream');
+        answers.release();
+        const events = (await stream.text())
+            .split('\n\n')
+            .filter(chunk => chunk.startsWith('event: '))
+            .map(chunk => {
+                const [type, data] = chunk.split('\n');
+                return { type: type.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+            });
+
+        assert.equal(events[0].type, 'snapshot');
+        assert.deepEqual(events.filter(event => event.type === 'site').map(event => event.data.progress.done), [1, 2]);
+        const last = events[events.length - 1];
+        assert.equal(last.type, 'status');
+        assert.equal(last.data.status, 'completed');
+        assert.equal(last.data.progress.percent, 100);
+    } finally {
+        answers.restore();
+        server.close();
+    }
+});
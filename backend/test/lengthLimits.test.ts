@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import { copyAnswer } from '../src/answers/providers';
+import { countWords, fitAnswer, fitsLimits, pickVariant, truncateAtSentence } from '../src/answers/lengthLimits';
+
+const answer = 'Directory Bot fills in forms. It respects limits! Works with v1.2 of example.com too.';
+
+test('characters and words are both checked', () => {
+    assert.equal(countWords('  one two\tthree\n'), 3);
+    assert.equal(countWords('   '), 0);
+    assert.ok(fitsLimits('one two', { maxLength: 7, maxWords: 2 }));
+    assert.ok(!fitsLimits('one two', { maxLength: 6 }));
+    assert.ok(!fitsLimits('one two', { maxWords: 1 }));
+    assert.ok(fitsLimits('anything at all', {}));
+});
+
+test('the longest variant that fits is picked, or else the shortest', () => {
+    const variants = ['Short.', 'A medium answer.', 'A much longer answer than the others.'];
+
+    assert.equal(pickVariant(variants, { maxLength: 20 }), 'A medium answer.');
+    assert.equal(pickVariant(variants, { maxLength: 100 }), 'A much longer answer than the others.');
+    assert.equal(pickVariant(variants, { maxLength: 3 }), 'Short.');
+    assert.equal(pickVariant([], { maxLength: 3 }), '');
+});
+
+test('truncation keeps whole sentences', () => {
+    assert.equal(truncateAtSentence(answer, { maxLength: 50 }), 'Directory Bot fills in forms. It respects limits!');
+    assert.equal(truncateAtSentence(answer, { maxWords: 5 }), 'Directory Bot fills in forms.');
+    // "v1.2" and "example.com" do not end a sentence
+    assert.equal(truncateAtSentence(answer, { maxLength: answer.length }), answer);
+    assert.equal(truncateAtSentence(answer, { maxLength: 10 }), null);
+});
+
+test('fitted answers report their length and whether they are still too long', () => {
+    assert.deepEqual(fitAnswer(answer, { maxLength: 50 }), {
+        answer: 'Directory Bot fills in forms. It respects limits!',
+        check: { maxLength: 50, length: 49, words: 8, truncated: true, overLimit: false }
+    });
+    assert.deepEqual(fitAnswer('Short enough.', { maxWords: 5 }).check, {
+        maxWords: 5, length: 13, words: 2, truncated: false, overLimit: false
+    });
+
+    const tooLong = fitAnswer('One very long opening sentence. Then more.', { maxLength: 10 });
+    assert.equal(tooLong.answer, 'One very long opening sentence. Then more.');
+    assert.equal(tooLong.check.truncated, false);
+    assert.equal(tooLong.check.overLimit, true);
+});
+
+test('copy mode answers with the description variant that fits the question', () => {
+    const appInfo = AppInfoSchema.parse({
+        name: 'Directory Bot',
+        description: 'Directory Bot fills in startup directory forms for you, answering every question from one profile.',
+        descriptionVariants: { short: 'Fills in directory forms.', medium: 'Fills in startup directory forms from one profile.' }
+    });
+
+    assert.equal(copyAnswer({ question: 'Description', maxLength: 60 }, appInfo), 'Fills in startup directory forms from one profile.');
+    assert.equal(copyAnswer({ question: 'Description', maxLength: 30 }, appInfo), 'Fills in directory forms.');
+    assert.equal(copyAnswer({ question: 'Description' }, appInfo), appInfo.description);
+});
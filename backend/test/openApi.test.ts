@@ -0,0 +1,99 @@
+import './useTempDatabase';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { after, before, mock, test } from 'node:test';
+import { CONTRACT_VERSION } from '@directory-bot/contract';
+import app from '../src/server';
+import { requireAdmin } from '../src/routes/adminAuth';
+import { buildOpenApiDocument } from '../src/routes/openApi';
+
+mock.method(console, 'log', () => {});
+
+interface Layer {
+    name: string;
+    regexp: RegExp;
+    handle: { stack?: Layer[] } & ((...args: unknown[]) => unknown);
+    route?: { path: string; methods: Record<string, boolean>; stack: Layer[] };
+}
+
+interface Operation {
+    operationId: string;
+    security: unknown[];
+    responses: Record<string, unknown>;
+}
+
+// Routes served by the app, e.g. "get /api/sites/{id}", and whether each one is behind requireAdmin
+function servedRoutes(stack: Layer[], prefix = ''): Map<string, boolean> {
+    const routes = new Map<string, boolean>();
+    stack.forEach(layer => {
+        if (layer.route) {
+            const routePath = `${prefix}${layer.route.path}`.replace(/\/$/, '').replace(/:(\w+)/g, '{$1}');
+            const admin = layer.route.stack.some(handler => handler.handle === requireAdmin);
+            Object.keys(layer.route.methods).forEach(method => routes.set(`${method} ${routePath}`, admin));
+        } else if (layer.name === 'router' && layer.handle.stack) {
+            // Express 4 keeps a router's mount path only as a regular expression, e.g. /^\/api\/sites\/?(?=\/|$)/i
+            const mountPath = layer.regexp.source.replace('\\/?(?=\\/|$)', '').replace(/^\^/, '').replace(/\\\//g, '/');
+            servedRoutes(layer.handle.stack, `${prefix}${mountPath}`).forEach((admin, route) => routes.set(route, admin));
+        }
+    });
+    return routes;
+}
+
+const document = buildOpenApiDocument() as { info: { version: string }; paths: Record<string, Record<string, Operation>> };
+
+const documented = new Map(Object.entries(document.paths).flatMap(([path, operations]) =>
+    Object.entries(operations).map(([method, operation]) => [`${method} ${path}`, operation] as const)));
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.close();
+});
+
+test('every route of the app is documented, and nothing else', () => {
+    const served = servedRoutes((app as unknown as { _router: { stack: Layer[] } })._router.stack);
+    // The document itself
+    served.delete('get /api/openapi.json');
+
+    assert.deepEqual([...documented.keys()].sort(), [...served.keys()].sort());
+});
+
+test('admin operations match the routes behind requireAdmin and list 401 and 503', () => {
+    const served = servedRoutes((app as unknown as { _router: { stack: Layer[] } })._router.stack);
+
+    documented.forEach((operation, route) => {
+        const admin = operation.security.length > 0;
+        assert.equal(admin, served.get(route), `${route} admin flag`);
+        assert.equal('401' in operation.responses, admin, `${route} 401`);
+        assert.equal('503' in operation.responses, admin, `${route} 503`);
+        assert.ok('500' in operation.responses, `${route} 500`);
+    });
+});
+
+test('operation ids are unique and schema references resolve', () => {
+    const ids = [...documented.values()].map(operation => operation.operationId);
+    assert.equal(new Set(ids).size, ids.length);
+
+    const json = JSON.stringify(document);
+    const schemas = (document as unknown as { components: { schemas: Record<string, unknown> } }).components.schemas;
+    const refs = [...json.matchAll(/"#\/components\/schemas\/([^"]+)"/g)].map(match => match[1]);
+    assert.ok(refs.length > 0);
+    refs.forEach(name => assert.ok(name in schemas, `missing schema ${name}`));
+});
+
+test('the document is served at /api/openapi.json', async () => {
+    const res = await fetch(`${baseUrl}/api/openapi.json`);
+
+    assert.equal(res.status, 200);
+    const served = await res.json();
+    assert.equal(served.info.version, CONTRACT_VERSION);
+    assert.deepEqual(Object.keys(served.paths), Object.keys(document.paths));
+});
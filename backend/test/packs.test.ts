@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mock, test } from 'node:test';
+import XLSX from 'xlsx';
+import { DirectoryCatalog } from '../src/catalog/catalogService';
+import { findUnknownPacks, isInPacks, listPacks, parsePackParam } from '../src/catalog/packs';
+import { normalizeQuestion } from '../src/catalog/questionSchema';
+import { DirectorySite } from '../src/types';
+
+mock.method(console, 'log', () => {});
+
+function site(id: string, pack: string, file: string, sheet?: string): DirectorySite {
+    return {
+        id,
+        url: `https://${id}.com`,
+        pack,
+        questions: [normalizeQuestion({ question: 'Product name' })],
+        source: { file, line: 2, ...(sheet && { sheet }) }
+    };
+}
+
+test('the pack parameter accepts names, ids and lists', () => {
+    assert.equal(parsePackParam(undefined), undefined);
+    assert.equal(parsePackParam(' , '), undefined);
+    assert.deepEqual(parsePackParam('AI Tools,saas'), ['ai-tools', 'saas']);
+    assert.deepEqual(parsePackParam(['SaaS', 'ai-tools,saas', 42]), ['saas', 'ai-tools']);
+});
+
+test('sites are grouped into packs in load order', () => {
+    const sites = [
+        site('a', 'AI Tools', 'Directory_Bot.xlsx', 'AI Tools'),
+        site('b', 'SaaS', 'Directory_Bot.xlsx', 'SaaS'),
+        site('c', 'AI Tools', 'Directory_Bot.xlsx', 'AI Tools'),
+        site('d', 'extra', 'extra.csv')
+    ];
+    const packs = listPacks(sites);
+
+    assert.deepEqual(packs, [
+        { id: 'ai-tools', name: 'AI Tools', siteCount: 2, sources: [{ file: 'Directory_Bot.xlsx', sheet: 'AI Tools' }] },
+        { id: 'saas', name: 'SaaS', siteCount: 1, sources: [{ file: 'Directory_Bot.xlsx', sheet: 'SaaS' }] },
+        { id: 'extra', name: 'extra', siteCount: 1, sources: [{ file: 'extra.csv' }] }
+    ]);
+    assert.equal(isInPacks(sites[0], ['saas', 'ai-tools']), true);
+    assert.equal(isInPacks(sites[1], ['ai-tools']), false);
+    assert.deepEqual(findUnknownPacks(['saas', 'games', 'extra'], packs), ['games']);
+});
+
+test('each workbook sheet is a pack and URL lookups can be limited to packs', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'packs-')), 'Directory_Bot.xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+        ['directory_website', 'list_of_questions'],
+        ['https://shared.com', 'Product name,Tagline'],
+        ['https://only-ai.com', 'Product name']
+    ]), 'AI Tools');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+        ['directory_website', 'list_of_questions'],
+        ['https://shared.com', 'Product name,Pricing']
+    ]), 'SaaS');
+    XLSX.writeFile(workbook, file);
+
+    const catalog = new DirectoryCatalog(file);
+
+    assert.deepEqual(catalog.getPacks().map(pack => [pack.id, pack.siteCount]), [['ai-tools', 2], ['saas', 1]]);
+    assert.equal(catalog.findSiteByUrl('https://shared.com')?.pack, 'AI Tools');
+    assert.deepEqual(catalog.findSiteByUrl('https://shared.com', ['saas'])?.questions.map(question => question.question), ['Product name', 'Pricing']);
+    assert.equal(catalog.findSiteByUrl('https://only-ai.com', ['saas']), undefined);
+});
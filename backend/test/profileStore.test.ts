@@ -0,0 +1,68 @@
+import './useTempDatabase';
+import assert from 'node:assert/strict';
+import { mock, test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import { SqliteDatabase } from '../src/db/database';
+import { MIGRATIONS } from '../src/db/migrations';
+import { AppProfileStore } from '../src/profiles/profileStore';
+
+mock.method(console, 'log', () => {});
+
+function newStore(revisionLimit = 20) {
+    const database = new SqliteDatabase(':memory:', MIGRATIONS);
+    return { database, profiles: new AppProfileStore(database, revisionLimit) };
+}
+
+const appInfo = (name: string, tagline = '') => AppInfoSchema.parse({ name, tagline });
+
+test('every change adds a revision, newest first', () => {
+    const { profiles } = newStore();
+    const created = profiles.create(appInfo('Directory Bot'));
+    assert.equal(created.revision, 1);
+    assert.equal(created.name, 'Directory Bot');
+
+    const updated = profiles.update(created.id, appInfo('Directory Bot', 'Fill in directory forms'))!;
+    assert.equal(updated.changed, true);
+    assert.equal(updated.profile.revision, 2);
+    assert.equal(profiles.getAppInfo(created.id)!.tagline, 'Fill in directory forms');
+
+    assert.deepEqual(profiles.revisions(created.id)!.map(revision => [revision.revision, revision.appInfo.tagline]), [
+        [2, 'Fill in directory forms'],
+        [1, '']
+    ]);
+});
+
+test('saving the same app info adds no revision', () => {
+    const { profiles } = newStore();
+    const created = profiles.create(appInfo('Directory Bot'));
+
+    const unchanged = profiles.update(created.id, appInfo('Directory Bot'))!;
+    assert.equal(unchanged.changed, false);
+    assert.equal(unchanged.profile.revision, 1);
+    assert.equal(profiles.revisions(created.id)!.length, 1);
+});
+
+test('only the last revisions are kept', () => {
+    const { profiles } = newStore(3);
+    const { id } = profiles.create(appInfo('v1'));
+    ['v2', 'v3', 'v4', 'v5'].forEach(name => profiles.update(id, appInfo(name)));
+
+    assert.deepEqual(profiles.revisions(id)!.map(revision => revision.revision), [5, 4, 3]);
+    assert.equal(profiles.get(id)!.name, 'v5');
+});
+
+test('profiles are listed by last update and removed with their revisions', () => {
+    const { database, profiles } = newStore();
+    const first = profiles.create(appInfo('First'));
+    const second = profiles.create(appInfo('Second'));
+    database.connection.prepare('UPDATE profiles SET updated_at = ? WHERE id = ?').run('2999-01-01T00:00:00.000Z', first.id);
+
+    assert.deepEqual(profiles.list().map(profile => profile.name), ['First', 'Second']);
+
+    assert.equal(profiles.remove(first.id)!.name, 'First');
+    assert.equal(profiles.get(first.id), undefined);
+    assert.equal(profiles.revisions(first.id), undefined);
+    assert.equal(profiles.update(first.id, appInfo('Again')), undefined);
+    assert.equal(database.connection.prepare('SELECT COUNT(*) FROM profile_revisions WHERE profile_id = ?').pluck().get(first.id), 0);
+    assert.deepEqual(profiles.list().map(profile => profile.id), [second.id]);
+});
@@ -0,0 +1,88 @@
+import './useTempDatabase';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { after, before, mock, test } from 'node:test';
+import app from '../src/server';
+
+mock.method(console, 'log', () => {});
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.close();
+});
+
+async function post(path: string, body: unknown) {
+    const res = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+    return { status: res.status, body: await res.json() };
+}
+
+function issues(body: { errors: { field: string; code: string }[] }): string[][] {
+    return body.errors.map(issue => [issue.field, issue.code]).sort();
+}
+
+test('each invalid AppInfo field is reported with its own code', async () => {
+    const { status, body } = await post('/api/profiles', {
+        appInfo: {
+            name: '',
+            type: 'spaceship',
+            email: 'not-an-email',
+            url: 'not a url',
+            launchDate: 'someday',
+            mainFeatures: 'one string',
+            isReleased: 'yes'
+        }
+    });
+
+    assert.equal(status, 400);
+    assert.match(body.error, /^Invalid request: /);
+    assert.deepEqual(issues(body), [
+        ['appInfo.email', 'invalid-email'],
+        ['appInfo.isReleased', 'invalid-type'],
+        ['appInfo.launchDate', 'invalid-date'],
+        ['appInfo.mainFeatures', 'invalid-type'],
+        ['appInfo.name', 'required'],
+        ['appInfo.type', 'invalid-option'],
+        ['appInfo.url', 'invalid-url']
+    ]);
+});
+
+test('limits on text and lists are enforced', async () => {
+    const { status, body } = await post('/api/profiles', {
+        appInfo: { name: 'x'.repeat(101), mainFeatures: Array.from({ length: 51 }, (_, index) => `Feature ${index}`) }
+    });
+
+    assert.equal(status, 400);
+    assert.deepEqual(issues(body), [
+        ['appInfo.mainFeatures', 'too-many'],
+        ['appInfo.name', 'too-long']
+    ]);
+});
+
+test('missing fields are reported as required', async () => {
+    const { status, body } = await post('/api/analyze-site', {});
+
+    assert.equal(status, 400);
+    assert.ok(body.errors.some((issue: { code: string }) => issue.code === 'required'));
+});
+
+test('a valid body is trimmed and filled with defaults', async () => {
+    const { status, body } = await post('/api/profiles', { appInfo: { name: '  Directory Bot  ', email: 'hello@example.com' } });
+
+    assert.equal(status, 201);
+    assert.equal(body.profile.appInfo.name, 'Directory Bot');
+    assert.equal(body.profile.appInfo.type, 'other');
+    assert.deepEqual(body.profile.appInfo.mainFeatures, []);
+});
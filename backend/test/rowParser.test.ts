@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { applyDirectoryEdits, parseDirectoryRows } from '../src/catalog/rowParser';
+
+const location = { file: 'Directory_Bot.xlsx', sheet: 'data' };
+
+test('a trailing "*" marks a question required and is dropped from its label', () => {
+    const { sites, issues } = parseDirectoryRows([
+        ['directory_website', 'list_of_questions'],
+        ['https://example.com', 'Your Name,Email*,Website URL *,Tagline']
+    ], location);
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(sites[0].questions.map(question => [question.question, question.type, question.required]), [
+        ['Your Name', 'text', false],
+        ['Email', 'email', true],
+        ['Website URL', 'url', true],
+        ['Tagline', 'text', false]
+    ]);
+});
+
+test('the marker works alongside a required column', () => {
+    const { sites } = parseDirectoryRows([
+        ['directory_website', 'question', 'required'],
+        ['https://example.com', 'Email*', ''],
+        ['', 'Website', 'yes'],
+        ['', 'Tagline', '']
+    ], location);
+
+    assert.deepEqual(sites[0].questions.map(question => [question.question, question.required]), [
+        ['Email', true],
+        ['Website', true],
+        ['Tagline', false]
+    ]);
+});
+
+test('a label that is only the marker is rejected', () => {
+    const { sites, issues } = parseDirectoryRows([
+        ['directory_website', 'question'],
+        ['https://example.com', '*']
+    ], location);
+
+    assert.deepEqual(sites[0].questions, []);
+    assert.equal(issues[0].code, 'empty-question');
+});
+
+test('required questions keep their marker when a one-cell list is written back', () => {
+    const rows = [
+        ['directory_website', 'list_of_questions'],
+        ['https://example.com', 'Your Name,Email*']
+    ];
+    const [site] = parseDirectoryRows(rows, location).sites;
+    const edited = applyDirectoryEdits(rows, [{ ...site, category: 'AI' }], location);
+
+    assert.deepEqual(parseDirectoryRows(edited, location).sites[0].questions, site.questions);
+    assert.equal(edited[1][1], 'Your Name\nEmail*');
+});
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import { analyzeSite } from '../src/answers/siteAnalysis';
+import { DEFAULT_ANSWER_FORMAT } from '../src/answers/fieldFormatters';
+import { directoryCatalog } from '../src/catalog/catalogService';
+import { MAX_QUESTIONS_PER_BATCH } from '../src/config';
+
+const appInfo = AppInfoSchema.parse({ name: 'Directory Bot', email: 'hello@example.com', tagline: 'Fill in directory forms' });
+
+test('every question of a long form is answered and summarized', async () => {
+    const site = directoryCatalog.findSite('alternative-me')!;
+    assert.ok(site.questions.length > MAX_QUESTIONS_PER_BATCH);
+
+    const analysis = await analyzeSite(site, appInfo, DEFAULT_ANSWER_FORMAT);
+    const { matched, partial, unmatched, manualQuestions, reviewQuestions } = analysis.summary;
+
+    assert.deepEqual(analysis.questions.map(question => question.id), site.questions.map((_, index) => index + 1));
+    assert.equal(matched + partial + unmatched, site.questions.length);
+    assert.equal(manualQuestions.length + reviewQuestions.length, partial + unmatched);
+    assert.ok(manualQuestions.some(question => question.id > MAX_QUESTIONS_PER_BATCH));
+});
+
+test('questions past the first batch can be answered on their own', async () => {
+    const site = directoryCatalog.findSite('alternative-me')!;
+    const analysis = await analyzeSite(site, appInfo, DEFAULT_ANSWER_FORMAT, [12]);
+
+    assert.deepEqual(analysis.questions.map(question => [question.id, question.question]), [[12, site.questions[11].question]]);
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MAX_ROWS } from '../src/config';
+import { normalizeQuestion } from '../src/catalog/questionSchema';
+import { parseSampleSize, parseSiteFilter, parseSiteQuery, querySites } from '../src/catalog/siteQuery';
+import { DirectorySite } from '../src/types';
+import { ValidationError } from '../src/validation';
+
+function site(id: string, category: string, questionCount: number, pack = 'AI Tools'): DirectorySite {
+    return {
+        id,
+        url: `https://${id}.com`,
+        pack,
+        category,
+        questions: Array.from({ length: questionCount }, (_, index) => normalizeQuestion({ question: `Question ${index + 1}` }))
+    };
+}
+
+const SITES = [
+    site('alpha', 'AI', 5),
+    site('bravo', 'SaaS', 2, 'SaaS'),
+    site('charlie', 'AI', 8),
+    site('delta', 'Startups', 0),
+    site('echo', 'saas', 3, 'SaaS')
+];
+
+function ids(params: Record<string, unknown>): string[] {
+    return querySites(SITES, parseSiteQuery(params)).sites.map(found => found.id);
+}
+
+function rejects(params: Record<string, unknown>, code: string): void {
+    assert.throws(() => parseSiteQuery(params), (error: unknown) => error instanceof ValidationError && error.code === code);
+}
+
+test('no parameters return the whole catalog in order', () => {
+    assert.deepEqual(parseSiteQuery({}), { offset: 0, limit: MAX_ROWS });
+
+    const page = querySites(SITES, parseSiteQuery({}));
+    assert.equal(page.total, 5);
+    assert.equal(page.nextCursor, null);
+    assert.deepEqual(page.sites, SITES);
+});
+
+test('search, category, pack and question counts narrow the list', () => {
+    assert.deepEqual(ids({ q: '  CHAR ' }), ['charlie']);
+    assert.deepEqual(ids({ q: 'question 6' }), ['charlie']);
+    assert.deepEqual(ids({ category: 'saas, startups' }), ['bravo', 'delta', 'echo']);
+    assert.deepEqual(ids({ pack: 'saas' }), ['bravo', 'echo']);
+    assert.deepEqual(ids({ minQuestions: '2', maxQuestions: '5' }), ['alpha', 'bravo', 'echo']);
+    assert.deepEqual(ids({ pack: 'ai-tools', category: 'ai', minQuestions: '6' }), ['charlie']);
+});
+
+test('sort works on each field in both directions', () => {
+    assert.deepEqual(ids({ sort: '-questionCount' }), ['charlie', 'alpha', 'echo', 'bravo', 'delta']);
+    assert.deepEqual(ids({ sort: 'category' }), ['alpha', 'charlie', 'bravo', 'echo', 'delta']);
+    assert.deepEqual(ids({ sort: '-id' }), ['echo', 'delta', 'charlie', 'bravo', 'alpha']);
+    assert.deepEqual(ids({ sort: '+url' }), ['alpha', 'bravo', 'charlie', 'delta', 'echo']);
+});
+
+test('the cursor walks through every page exactly once', () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+        const page = querySites(SITES, parseSiteQuery({ sort: '-questionCount', limit: '2', ...(cursor && { cursor }) }));
+        assert.equal(page.total, 5);
+        seen.push(...page.sites.map(found => found.id));
+        cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    assert.deepEqual(seen, ['charlie', 'alpha', 'echo', 'bravo', 'delta']);
+    assert.deepEqual(ids({ offset: '4' }), ['echo']);
+    assert.deepEqual(ids({ offset: '10' }), []);
+});
+
+test('bad parameters are rejected with their own codes', () => {
+    rejects({ limit: '0' }, 'invalid-limit');
+    rejects({ limit: String(MAX_ROWS + 1) }, 'invalid-limit');
+    rejects({ offset: '-1' }, 'invalid-offset');
+    rejects({ minQuestions: '2.5' }, 'invalid-minQuestions');
+    rejects({ minQuestions: '5', maxQuestions: '2' }, 'invalid-question-range');
+    rejects({ sort: 'popularity' }, 'invalid-sort');
+    rejects({ cursor: 'not-a-cursor' }, 'invalid-cursor');
+    rejects({ cursor: Buffer.from(JSON.stringify({ offset: -3 })).toString('base64url') }, 'invalid-cursor');
+});
+
+test('a JSON filter and the sample size are read the same way', () => {
+    assert.deepEqual(parseSiteFilter({ pack: ['AI Tools'], category: 'ai', limit: 1 }), {
+        packs: ['ai-tools'],
+        categories: ['ai'],
+        offset: 0,
+        limit: 1
+    });
+    assert.deepEqual(parseSiteFilter(undefined), parseSiteQuery({}));
+    assert.throws(() => parseSiteFilter(['ai']), (error: unknown) => error instanceof ValidationError && error.code === 'invalid-filter');
+
+    assert.equal(parseSampleSize(undefined), 3);
+    assert.equal(parseSampleSize('ALL'), Number.MAX_SAFE_INTEGER);
+    assert.equal(parseSampleSize(['0']), 0);
+    assert.throws(() => parseSampleSize('some'), ValidationError);
+});
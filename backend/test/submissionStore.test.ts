@@ -0,0 +1,60 @@
+import './useTempDatabase';
+import assert from 'node:assert/strict';
+import { mock, test } from 'node:test';
+import { AppInfoSchema } from '@directory-bot/contract';
+import { SqliteDatabase } from '../src/db/database';
+import { MIGRATIONS } from '../src/db/migrations';
+import { AppProfileStore } from '../src/profiles/profileStore';
+import { SubmissionStore } from '../src/profiles/submissionStore';
+
+mock.method(console, 'log', () => {});
+
+function newStores() {
+    const database = new SqliteDatabase(':memory:', MIGRATIONS);
+    const profiles = new AppProfileStore(database, 20);
+    const profile = profiles.create(AppInfoSchema.parse({ name: 'Directory Bot' }));
+    return { database, profiles, profileId: profile.id, submissions: new SubmissionStore(database) };
+}
+
+test('submittedAt is set once the status moves past planned and then kept', () => {
+    const { profileId, submissions } = newStores();
+
+    const planned = submissions.set(profileId, 'dang-ai', { status: 'planned' });
+    assert.equal(planned.submittedAt, null);
+    assert.equal(planned.note, null);
+
+    const submitted = submissions.set(profileId, 'dang-ai', { status: 'submitted', note: 'Sent via form' });
+    assert.equal(submitted.status, 'submitted');
+    assert.equal(submitted.note, 'Sent via form');
+    assert.ok(submitted.submittedAt);
+
+    const approved = submissions.set(profileId, 'dang-ai', { status: 'approved' });
+    assert.equal(approved.submittedAt, submitted.submittedAt);
+    assert.equal(approved.note, null);
+});
+
+test('submissions are listed per profile, most recently updated first', () => {
+    const { database, profileId, submissions } = newStores();
+    submissions.set(profileId, 'dang-ai', { status: 'submitted' });
+    submissions.set(profileId, 'wellfound-com', { status: 'planned' });
+    database.connection.prepare('UPDATE submissions SET updated_at = ? WHERE site_id = ?').run('2999-01-01T00:00:00.000Z', 'dang-ai');
+
+    assert.deepEqual(submissions.list(profileId).map(submission => submission.siteId), ['dang-ai', 'wellfound-com']);
+    assert.deepEqual(submissions.list('someone-else'), []);
+    assert.equal(submissions.get(profileId, 'unknown-site'), undefined);
+});
+
+test('removing a profile removes its submissions', () => {
+    const { profiles, profileId, submissions } = newStores();
+    submissions.set(profileId, 'dang-ai', { status: 'submitted' });
+
+    profiles.remove(profileId);
+
+    assert.deepEqual(submissions.list(profileId), []);
+});
+
+test('a submission needs an existing profile', () => {
+    const { submissions } = newStores();
+
+    assert.throws(() => submissions.set('no-such-profile', 'dang-ai', { status: 'planned' }), /FOREIGN KEY constraint failed/);
+});
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isSameDirectoryUrl, normalizeDirectoryUrl } from '../src/catalog/urlNormalizer';
+
+test('scheme, www, default port, trailing slash and host case are ignored', () => {
+    assert.equal(normalizeDirectoryUrl('HTTPS://www.Example.com:443/Submit/'), 'example.com/Submit');
+    assert.ok(isSameDirectoryUrl('http://example.com', 'https://WWW.EXAMPLE.COM/'));
+});
+
+test('paths keep their letter case', () => {
+    assert.ok(!isSameDirectoryUrl('https://example.com/Tools/Submit', 'https://example.com/tools/submit'));
+});
+
+test('only utm_* parameters are dropped', () => {
+    assert.equal(normalizeDirectoryUrl('https://example.com/submit?utm_source=x&UTM_Medium=y'), 'example.com/submit');
+    assert.equal(normalizeDirectoryUrl('https://example.com/submit?source=app&ref=launch'), 'example.com/submit?ref=launch&source=app');
+});
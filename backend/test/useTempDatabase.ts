@@ -0,0 +1,6 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Imported first by tests that use the backend's database, so they never write to data/directory-bot.sqlite
+process.env.DATABASE_PATH = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'directory-bot-')), 'test.sqlite');
@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { AppInfoSchema, WebUrlSchema } from './appInfo';
+import { TimestampSchema } from './common';
+import { QuestionConstraintsSchema } from './sites';
+
+export const AnswerFormatSchema = z.object({
+    style: z.enum(['plain', 'prose']).optional(),
+    dateFormat: z.enum(['iso', 'locale']).optional(),
+    // BCP 47 locale such as en-US
+    locale: z.string().optional()
+});
+
+// `/api/sites` options as a JSON object; lists may be arrays or comma-separated strings
+export const SiteFilterSchema = z.record(z.string(), z.union([z.string(), z.number(), z.array(z.string()), z.null()]));
+
+export const AnswerStatusSchema = z.enum(['matched', 'partial', 'unmatched']);
+
+export const AnswerStatusReasonSchema = z.enum(['no-rule', 'left-for-user', 'missing-data', 'low-confidence', 'over-limit']);
+
+// How an answer measures up against its question's length limits
+export const AnswerLengthCheckSchema = z.object({
+    maxLength: z.number().optional(),
+    maxWords: z.number().optional(),
+    length: z.number(),
+    words: z.number(),
+    // Cut back to whole sentences to fit
+    truncated: z.boolean(),
+    // Still too long; the user needs to shorten it
+    overLimit: z.boolean()
+});
+
+export const AnsweredQuestionSchema = QuestionConstraintsSchema.extend({
+    id: z.number().int(),
+    question: z.string(),
+    answer: z.string(),
+    // Key for recording a correction to this question, see POST /api/overrides
+    questionHash: z.string(),
+    // AppInfo field the question was mapped to, null when none
+    field: z.string().nullable(),
+    // Confidence (0-1) of the question-to-field match
+    confidence: z.number(),
+    status: AnswerStatusSchema,
+    reason: AnswerStatusReasonSchema.optional(),
+    lengthCheck: AnswerLengthCheckSchema.optional()
+});
+
+export const ManualQuestionSchema = z.object({
+    id: z.number().int(),
+    question: z.string(),
+    required: z.boolean(),
+    reason: AnswerStatusReasonSchema.optional()
+});
+
+export const AnswerSummarySchema = z.object({
+    matched: z.number().int(),
+    partial: z.number().int(),
+    unmatched: z.number().int(),
+    // No answer: fill these in by hand
+    manualQuestions: z.array(ManualQuestionSchema),
+    // Answered, but worth checking
+    reviewQuestions: z.array(ManualQuestionSchema)
+});
+
+// One directory's answers; returned by POST /api/analyze-site
+export const DirectoryAnalysisSchema = z.object({
+    siteId: z.string(),
+    siteUrl: z.string(),
+    siteName: z.string(),
+    pack: z.string().optional(),
+    questions: z.array(AnsweredQuestionSchema),
+    summary: AnswerSummarySchema,
+    metadata: z.object({
+        analyzedAt: TimestampSchema,
+        appName: z.string(),
+        mode: z.enum(['simple-copy', 'ai']),
+        provider: z.string(),
+        aiModel: z.string(),
+        // Questions answered by copy mode because the provider failed
+        fallbackQuestions: z.array(z.number().int()),
+        overLimitQuestions: z.array(z.number().int()),
+        answerFormat: AnswerFormatSchema.required(),
+        description: z.string()
+    })
+});
+
+// Analysis requests send the app inline, or name a saved profile whose latest revision is used
+const appSource = {
+    appInfo: AppInfoSchema.optional(),
+    profileId: z.string().trim().min(1).optional()
+};
+
+function checkAppSource(body: { appInfo?: unknown; profileId?: string }, ctx: z.RefinementCtx): void {
+    if (body.appInfo === undefined && body.profileId === undefined) {
+        ctx.addIssue({ code: 'custom', path: ['appInfo'], message: 'Send appInfo or a profileId', params: { code: 'required' } });
+    } else if (body.appInfo !== undefined && body.profileId !== undefined) {
+        ctx.addIssue({ code: 'custom', path: ['profileId'], message: 'Send appInfo or a profileId, not both', params: { code: 'conflict' } });
+    }
+}
+
+// POST /api/analyze-site: a directory by id or URL, optionally only some of its questions
+export const AnalyzeSiteRequestSchema = z.object({
+    ...appSource,
+    siteId: z.string().optional(),
+    siteUrl: WebUrlSchema.optional(),
+    // Pack ids the directory must belong to, as a list or comma-separated
+    pack: z.union([z.string(), z.array(z.string())]).optional(),
+    questionIds: z.array(z.number().int().positive()).min(1).optional(),
+    answerFormat: AnswerFormatSchema.optional()
+}).superRefine(checkAppSource);
+
+/**
+ * Body of POST /api/analyze-all, /api/generate-custom-answers and /api/jobs. `siteIds` and
+ * `siteUrls` narrow the catalog first, then `filter` applies to what is left.
+ */
+export const BulkAnalysisRequestSchema = z.object({
+    ...appSource,
+    answerFormat: AnswerFormatSchema.optional(),
+    siteIds: z.array(z.string()).optional(),
+    siteUrls: z.array(WebUrlSchema).optional(),
+    filter: SiteFilterSchema.optional(),
+    concurrency: z.number().int().positive().optional()
+}).superRefine(checkAppSource);
+
+// One entry per directory of a bulk run; a failed directory does not stop the others
+export const BulkSiteResultSchema = z.discriminatedUnion('status', [
+    DirectoryAnalysisSchema.extend({ status: z.literal('success') }),
+    z.object({ status: z.literal('error'), siteId: z.string(), siteUrl: z.string(), siteName: z.string(), error: z.string() })
+]);
+
+// POST /api/analyze-all
+export const AnalyzeAllResponseSchema = z.object({
+    results: z.array(BulkSiteResultSchema),
+    summary: z.object({
+        requested: z.number().int(),
+        succeeded: z.number().int(),
+        failed: z.number().int()
+    }),
+    total: z.number().int(),
+    offset: z.number().int(),
+    nextCursor: z.string().nullable(),
+    metadata: z.object({
+        analyzedAt: TimestampSchema,
+        appName: z.string(),
+        concurrency: z.number().int(),
+        durationMs: z.number(),
+        answerFormat: AnswerFormatSchema.required()
+    })
+});
+
+// The trimmed-down analysis of /api/generate-custom-answers: just the questions and answers
+export const SiteCustomAnswersSchema = z.object({
+    siteUrl: z.string(),
+    siteName: z.string(),
+    questions: z.array(z.object({ id: z.number().int(), question: z.string(), answer: z.string() }))
+});
+
+// POST /api/generate-custom-answers
+export const GenerateCustomAnswersResponseSchema = z.object({
+    appInfo: AppInfoSchema,
+    analyses: z.array(SiteCustomAnswersSchema),
+    // Directories that could not be analyzed
+    failed: z.array(z.object({ siteUrl: z.string(), siteName: z.string(), error: z.string() })),
+    // One page of the matching directories, as in /api/analyze-all; pass nextCursor as filter.cursor for the rest
+    total: z.number().int(),
+    offset: z.number().int(),
+    nextCursor: z.string().nullable(),
+    timestamp: TimestampSchema
+});
+
+export type AnswerFormat = z.output<typeof AnswerFormatSchema>;
+export type AnswerStatus = z.output<typeof AnswerStatusSchema>;
+export type AnswerLengthCheck = z.output<typeof AnswerLengthCheckSchema>;
+export type AnsweredQuestion = z.output<typeof AnsweredQuestionSchema>;
+export type AnswerSummary = z.output<typeof AnswerSummarySchema>;
+export type DirectoryAnalysis = z.output<typeof DirectoryAnalysisSchema>;
+export type AnalyzeSiteBody = z.output<typeof AnalyzeSiteRequestSchema>;
+export type BulkAnalysisBody = z.output<typeof BulkAnalysisRequestSchema>;
+export type BulkSiteResult = z.output<typeof BulkSiteResultSchema>;
+export type AnalyzeAllResponse = z.output<typeof AnalyzeAllResponseSchema>;
+export type SiteCustomAnswers = z.output<typeof SiteCustomAnswersSchema>;
+export type GenerateCustomAnswersResponse = z.output<typeof GenerateCustomAnswersResponseSchema>;
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+export const APP_TYPES = ['saas', 'ecommerce', 'blog', 'portfolio', 'webapp', 'other'] as const;
+
+// Longest value accepted per field, in characters; lists also cap their number of items
+const LIMITS = {
+    name: 100,
+    shortText: 200,
+    audience: 500,
+    longText: 5000,
+    url: 2048,
+    email: 254,
+    listItems: 50
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * An http(s) address; the scheme may be left out, as in `example.com`
+ */
+function isWebUrl(value: string): boolean {
+    try {
+        const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+        return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+    } catch {
+        return false;
+    }
+}
+
+const string = (max: number) => z.string().trim().max(max, `Must be at most ${max} characters`);
+
+// Format checks report their own `code` (see `validate`); optional fields accept '' as empty
+const text = (max: number) => string(max).default('');
+const list = () => z.array(string(LIMITS.shortText)).max(LIMITS.listItems, `Must have at most ${LIMITS.listItems} items`).default([]);
+const flag = () => z.boolean().default(false);
+const email = () => string(LIMITS.email).refine(value => !value || EMAIL_PATTERN.test(value), {
+    message: 'Must be an email address like name@example.com',
+    params: { code: 'invalid-email' }
+}).default('');
+const date = () => string(LIMITS.shortText).refine(value => !value || !Number.isNaN(Date.parse(value)), {
+    message: 'Must be a date like 2024-05-31',
+    params: { code: 'invalid-date' }
+}).default('');
+const url = (optional: boolean) => string(LIMITS.url).refine(value => (optional && !value) || isWebUrl(value), {
+    message: 'Must be a web address like https://example.com',
+    params: { code: 'invalid-url' }
+});
+const optionalUrl = () => url(true).default('');
+
+// A directory or app address in a request
+export const WebUrlSchema = url(false);
+
+export const TextVariantsSchema = z.object({
+    short: string(LIMITS.longText).optional(),
+    medium: string(LIMITS.longText).optional(),
+    long: string(LIMITS.longText).optional()
+});
+
+/**
+ * The app being submitted to directories, as collected by onboarding. Only `name` is required
+ * on input; other fields left out are read as empty, but a field that is sent must have the
+ * right type and format.
+ */
+export const AppInfoSchema = z.object({
+    // Basic Info
+    url: optionalUrl(),
+    name: string(LIMITS.name).min(1, 'App name is required'),
+    type: z.enum(APP_TYPES, `Must be one of ${APP_TYPES.join(', ')}`).default('other'),
+    description: text(LIMITS.longText),
+    targetAudience: text(LIMITS.audience),
+    mainFeatures: list(),
+    techStack: list(),
+
+    // Contact Information
+    email: email(),
+    companyName: text(LIMITS.shortText),
+    contactName: text(LIMITS.shortText),
+    location: text(LIMITS.shortText),
+    githubUrl: optionalUrl(),
+    launchDate: date(),
+
+    // Marketing & Categorization
+    tagline: text(LIMITS.shortText),
+    category: text(LIMITS.shortText),
+
+    // Social & Automation Fields
+    linkedinUrl: optionalUrl(),
+    enableGithubActions: flag(),
+    enableLinkedinSharing: flag(),
+    xUrl: optionalUrl(),
+    isReleased: flag(),
+
+    // Optional shorter/longer versions, picked to fit a directory's length limits
+    descriptionVariants: TextVariantsSchema.optional(),
+    taglineVariants: TextVariantsSchema.optional()
+});
+
+export type AppInfo = z.output<typeof AppInfoSchema>;
+export type AppInfoInput = z.input<typeof AppInfoSchema>;
+export type TextVariants = z.output<typeof TextVariantsSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Body of every 4xx/5xx response. Some errors carry extra fields, e.g. `unknownPacks` or `errors`.
+ */
+export const ErrorResponseSchema = z.looseObject({
+    error: z.string(),
+    details: z.string().optional()
+});
+
+export type ErrorResponse = z.output<typeof ErrorResponseSchema>;
+
+// One entry of a 400 response's `errors`, see `ContractIssue`
+export const FieldErrorSchema = z.object({
+    field: z.string(),
+    code: z.string(),
+    message: z.string()
+});
+
+// A request body that does not match its schema
+export const ValidationErrorResponseSchema = ErrorResponseSchema.extend({
+    errors: z.array(FieldErrorSchema)
+});
+
+export type ValidationErrorResponse = z.output<typeof ValidationErrorResponseSchema>;
+
+// ISO 8601 timestamp
+export const TimestampSchema = z.string();
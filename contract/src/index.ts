@@ -0,0 +1,11 @@
+export * from './version';
+export * from './validate';
+export * from './jsonSchema';
+export * from './common';
+export * from './appInfo';
+export * from './sites';
+export * from './analysis';
+export * from './jobs';
+export * from './overrides';
+export * from './profiles';
+export * from './submissions';
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { AnswerFormatSchema, DirectoryAnalysisSchema } from './analysis';
+import { TimestampSchema } from './common';
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+export const JobStatusSchema = z.enum(JOB_STATUSES);
+
+export const JobSiteStatusSchema = z.enum(['pending', 'running', 'success', 'error', 'cancelled']);
+
+export const JobSiteSchema = z.object({
+    siteId: z.string(),
+    siteUrl: z.string(),
+    siteName: z.string(),
+    status: JobSiteStatusSchema,
+    // Runs so far, counting retries
+    attempts: z.number().int(),
+    error: z.string().optional(),
+    analysis: DirectoryAnalysisSchema.optional(),
+    finishedAt: TimestampSchema.optional()
+});
+
+export const JobProgressSchema = z.object({
+    total: z.number().int(),
+    done: z.number().int(),
+    succeeded: z.number().int(),
+    failed: z.number().int(),
+    pending: z.number().int(),
+    // 0-100
+    percent: z.number()
+});
+
+/**
+ * A background bulk analysis as returned by the API. `failed` means the job itself broke;
+ * directories that failed are `error` entries of a completed job.
+ */
+export const AnalysisJobSchema = z.object({
+    id: z.string(),
+    status: JobStatusSchema,
+    appName: z.string(),
+    // The saved profile the app came from, when the request named one
+    profileId: z.string().optional(),
+    format: AnswerFormatSchema.required(),
+    concurrency: z.number().int(),
+    sites: z.array(JobSiteSchema),
+    // Directories matching the request beyond this job's page, see /api/analyze-all
+    total: z.number().int(),
+    nextCursor: z.string().nullable(),
+    progress: JobProgressSchema,
+    error: z.string().optional(),
+    createdAt: TimestampSchema,
+    updatedAt: TimestampSchema,
+    startedAt: TimestampSchema.optional(),
+    finishedAt: TimestampSchema.optional()
+});
+
+// POST /api/jobs, GET /api/jobs/:id, POST /api/jobs/:id/cancel and /retry
+export const JobResponseSchema = z.object({
+    job: AnalysisJobSchema
+});
+
+// A job without its directories, as listed by GET /api/jobs
+export const JobSummarySchema = AnalysisJobSchema.omit({ sites: true });
+
+// GET /api/jobs: past and current jobs, newest first
+export const JobListResponseSchema = z.object({
+    count: z.number().int(),
+    jobs: z.array(JobSummarySchema),
+    timestamp: TimestampSchema
+});
+
+// Events streamed by GET /api/jobs/:id/events after the initial `snapshot` (an AnalysisJob)
+export const JobSiteEventSchema = z.object({
+    type: z.literal('site'),
+    jobId: z.string(),
+    site: JobSiteSchema,
+    progress: JobProgressSchema
+});
+
+export const JobStatusEventSchema = z.object({
+    type: z.literal('status'),
+    jobId: z.string(),
+    status: JobStatusSchema,
+    progress: JobProgressSchema,
+    error: z.string().optional()
+});
+
+export const JobEventSchema = z.discriminatedUnion('type', [JobSiteEventSchema, JobStatusEventSchema]);
+
+export type JobStatus = z.output<typeof JobStatusSchema>;
+export type JobSiteStatus = z.output<typeof JobSiteStatusSchema>;
+export type JobSite = z.output<typeof JobSiteSchema>;
+export type JobProgress = z.output<typeof JobProgressSchema>;
+export type AnalysisJob = z.output<typeof AnalysisJobSchema>;
+export type JobResponse = z.output<typeof JobResponseSchema>;
+export type JobSummary = z.output<typeof JobSummarySchema>;
+export type JobListResponse = z.output<typeof JobListResponseSchema>;
+export type JobSiteEvent = z.output<typeof JobSiteEventSchema>;
+export type JobStatusEvent = z.output<typeof JobStatusEventSchema>;
+export type JobEvent = z.output<typeof JobEventSchema>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { ContractSchema } from './validate';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schemas (draft 2020-12, as used by OpenAPI 3.1) for a set of named schemas. A named
+ * schema used inside another is written as a `$ref` to `<refPrefix><name>` rather than repeated.
+ * Requests are described as sent (`input`: fields with defaults are optional), responses as
+ * returned (`output`).
+ */
+export function toJsonSchemas(
+    schemas: Record<string, ContractSchema>,
+    io: 'input' | 'output',
+    refPrefix: string
+): Record<string, JsonSchema> {
+    const registry = z.registry<{ id: string }>();
+    Object.entries(schemas).forEach(([id, schema]) => registry.add(schema, { id }));
+
+    const generated = z.toJSONSchema(registry, { io, uri: id => `${refPrefix}${id}`, unrepresentable: 'any' });
+    // Each schema is embedded in a larger document, so it carries no `$schema` or `$id` of its own
+    return Object.fromEntries(Object.entries(generated.schemas).map(([id, schema]) => {
+        const { $schema, $id, ...rest } = schema;
+        return [id, rest];
+    }));
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { TimestampSchema } from './common';
+
+// POST /api/overrides: question text or its hash, and either a field (null leaves it blank) or literal text
+export const AnswerOverrideInputSchema = z.object({
+    question: z.string().optional(),
+    questionHash: z.string().optional(),
+    // Without a siteId the correction applies to every directory; either way once an admin approved it
+    siteId: z.string().nullable().optional(),
+    field: z.string().nullable().optional(),
+    literal: z.string().optional()
+});
+
+export const AnswerOverrideSchema = z.object({
+    id: z.string(),
+    questionHash: z.string(),
+    question: z.string().optional(),
+    siteId: z.string().nullable(),
+    field: z.string().nullable().optional(),
+    literal: z.string().optional(),
+    // How many times users recorded this correction
+    count: z.number().int(),
+    status: z.enum(['pending', 'active', 'promoted']),
+    promotedRuleId: z.string().optional(),
+    createdAt: TimestampSchema,
+    updatedAt: TimestampSchema
+});
+
+export const AnswerOverrideResponseSchema = z.object({
+    override: AnswerOverrideSchema
+});
+
+// GET /api/overrides (admin)
+export const AnswerOverrideListResponseSchema = z.object({
+    count: z.number().int(),
+    overrides: z.array(AnswerOverrideSchema),
+    timestamp: TimestampSchema
+});
+
+// POST /api/overrides/:id/promote (admin)
+export const PromoteOverrideRequestSchema = z.object({
+    priority: z.number().optional()
+});
+
+export type AnswerOverrideInput = z.output<typeof AnswerOverrideInputSchema>;
+export type AnswerOverride = z.output<typeof AnswerOverrideSchema>;
+export type AnswerOverrideResponse = z.output<typeof AnswerOverrideResponseSchema>;
+export type AnswerOverrideListResponse = z.output<typeof AnswerOverrideListResponseSchema>;
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { AppInfoSchema } from './appInfo';
+import { TimestampSchema } from './common';
+
+// POST /api/profiles and PUT /api/profiles/:id; every change is kept as a new revision
+export const ProfileInputSchema = z.object({
+    appInfo: AppInfoSchema
+});
+
+export const ProfileRevisionSchema = z.object({
+    // Counts up from 1; old revisions past the history limit are dropped
+    revision: z.number().int(),
+    appInfo: AppInfoSchema,
+    createdAt: TimestampSchema
+});
+
+// A saved app, as its latest revision
+export const AppProfileSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    revision: z.number().int(),
+    appInfo: AppInfoSchema,
+    createdAt: TimestampSchema,
+    updatedAt: TimestampSchema
+});
+
+export const ProfileSummarySchema = AppProfileSchema.omit({ appInfo: true }).extend({
+    url: z.string()
+});
+
+// GET, POST and PUT /api/profiles/:id
+export const ProfileResponseSchema = z.object({
+    profile: AppProfileSchema
+});
+
+// GET /api/profiles, most recently updated first
+export const ProfileListResponseSchema = z.object({
+    count: z.number().int(),
+    profiles: z.array(ProfileSummarySchema),
+    timestamp: TimestampSchema
+});
+
+// GET /api/profiles/:id/revisions, newest first
+export const ProfileRevisionListResponseSchema = z.object({
+    profileId: z.string(),
+    count: z.number().int(),
+    revisions: z.array(ProfileRevisionSchema)
+});
+
+// GET /api/profiles/:id/revisions/:revision
+export const ProfileRevisionResponseSchema = z.object({
+    profileId: z.string(),
+    revision: ProfileRevisionSchema
+});
+
+// DELETE /api/profiles/:id
+export const ProfileDeletedResponseSchema = z.object({
+    deleted: z.string()
+});
+
+export type ProfileInput = z.output<typeof ProfileInputSchema>;
+export type ProfileRevision = z.output<typeof ProfileRevisionSchema>;
+export type AppProfile = z.output<typeof AppProfileSchema>;
+export type ProfileSummary = z.output<typeof ProfileSummarySchema>;
+export type ProfileResponse = z.output<typeof ProfileResponseSchema>;
+export type ProfileListResponse = z.output<typeof ProfileListResponseSchema>;
+export type ProfileRevisionListResponse = z.output<typeof ProfileRevisionListResponseSchema>;
+export type ProfileRevisionResponse = z.output<typeof ProfileRevisionResponseSchema>;
@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { TimestampSchema } from './common';
+
+export const QUESTION_FIELD_TYPES = [
+    'text', 'textarea', 'url', 'email', 'select', 'multiselect', 'date', 'number', 'boolean', 'file'
+] as const;
+
+export const QuestionFieldTypeSchema = z.enum(QUESTION_FIELD_TYPES);
+
+// Form constraints a directory attaches to a question
+export const QuestionConstraintsSchema = z.object({
+    type: QuestionFieldTypeSchema,
+    required: z.boolean(),
+    maxLength: z.number().optional(),
+    // Some directories limit long answers by words rather than characters
+    maxWords: z.number().optional(),
+    options: z.array(z.string()).optional(),
+    placeholder: z.string().optional(),
+    // Answer template combining several AppInfo fields
+    template: z.string().optional()
+});
+
+// A directory question as returned by the API; ids are 1-based positions
+export const DirectoryQuestionSchema = QuestionConstraintsSchema.extend({
+    id: z.number().int(),
+    question: z.string()
+});
+
+export const SiteSummarySchema = z.object({
+    id: z.string(),
+    url: z.string(),
+    // Hostname without www, for display
+    name: z.string(),
+    category: z.string().optional(),
+    pack: z.string().optional(),
+    questionCount: z.number().int()
+});
+
+export const SiteSchema = SiteSummarySchema.extend({
+    questions: z.array(DirectoryQuestionSchema)
+});
+
+// GET /api/sites
+export const SiteListResponseSchema = z.object({
+    count: z.number().int(),
+    total: z.number().int(),
+    offset: z.number().int(),
+    limit: z.number().int(),
+    nextCursor: z.string().nullable(),
+    sites: z.array(SiteSummarySchema),
+    timestamp: TimestampSchema
+});
+
+// GET /api/directory-details
+export const DirectoryDetailsResponseSchema = SiteListResponseSchema.extend({
+    sites: z.array(SiteSummarySchema.extend({ sampleQuestions: z.array(z.string()) }))
+});
+
+// GET /api/sites/:id, and the result of every change to a directory
+export const SiteResponseSchema = z.object({
+    site: SiteSchema
+});
+
+// A question in a request: plain text, or text with its constraints (the type may be an alias such as "link")
+export const QuestionInputSchema = z.union([
+    z.string(),
+    z.object({
+        question: z.string(),
+        type: z.string().optional(),
+        required: z.boolean().optional(),
+        maxLength: z.number().int().positive().optional(),
+        maxWords: z.number().int().positive().optional(),
+        options: z.array(z.string()).optional(),
+        placeholder: z.string().optional(),
+        template: z.string().optional()
+    })
+]);
+
+// POST /api/sites
+export const SiteInputSchema = z.object({
+    id: z.string().optional(),
+    url: z.string(),
+    category: z.string().optional(),
+    pack: z.string().optional(),
+    questions: z.array(QuestionInputSchema).min(1)
+});
+
+// PUT /api/sites/:id; only the given fields change
+export const SiteUpdateSchema = SiteInputSchema.pick({ url: true, category: true, questions: true }).partial();
+
+// DELETE /api/sites/:id
+export const SiteDeletedResponseSchema = z.object({
+    deleted: z.string()
+});
+
+export const PackSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    siteCount: z.number().int(),
+    sources: z.array(z.object({ file: z.string(), sheet: z.string().optional() }))
+});
+
+// GET /api/packs
+export const PackListResponseSchema = z.object({
+    count: z.number().int(),
+    packs: z.array(PackSchema),
+    timestamp: TimestampSchema
+});
+
+// The catalog as loaded at one point in time; a new snapshot is kept whenever its content changes
+export const CatalogSnapshotSchema = z.object({
+    id: z.number().int(),
+    siteCount: z.number().int(),
+    questionCount: z.number().int(),
+    sourceFiles: z.array(z.string()),
+    // SHA-256 of the loaded directories
+    contentHash: z.string(),
+    createdAt: TimestampSchema
+});
+
+// GET /api/catalog/snapshots, newest first
+export const CatalogSnapshotListResponseSchema = z.object({
+    count: z.number().int(),
+    snapshots: z.array(CatalogSnapshotSchema)
+});
+
+export type QuestionFieldType = z.output<typeof QuestionFieldTypeSchema>;
+export type DirectoryQuestion = z.output<typeof DirectoryQuestionSchema>;
+export type SiteSummary = z.output<typeof SiteSummarySchema>;
+export type Site = z.output<typeof SiteSchema>;
+export type SiteListResponse = z.output<typeof SiteListResponseSchema>;
+export type DirectoryDetailsResponse = z.output<typeof DirectoryDetailsResponseSchema>;
+export type SiteResponse = z.output<typeof SiteResponseSchema>;
+export type QuestionInput = z.output<typeof QuestionInputSchema>;
+export type SiteInput = z.output<typeof SiteInputSchema>;
+export type SiteUpdate = z.output<typeof SiteUpdateSchema>;
+export type Pack = z.output<typeof PackSchema>;
+export type PackListResponse = z.output<typeof PackListResponseSchema>;
+export type CatalogSnapshot = z.output<typeof CatalogSnapshotSchema>;
+export type CatalogSnapshotListResponse = z.output<typeof CatalogSnapshotListResponseSchema>;
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { TimestampSchema } from './common';
+
+export const SUBMISSION_STATUSES = ['planned', 'submitted', 'approved', 'rejected'] as const;
+
+export const SubmissionStatusSchema = z.enum(SUBMISSION_STATUSES);
+
+// PUT /api/profiles/:id/submissions/:siteId
+export const SubmissionInputSchema = z.object({
+    status: SubmissionStatusSchema,
+    note: z.string().trim().max(1000).optional()
+});
+
+// Where an app stands with one directory
+export const SubmissionSchema = z.object({
+    profileId: z.string(),
+    siteId: z.string(),
+    status: SubmissionStatusSchema,
+    note: z.string().nullable(),
+    // First time the status moved past `planned`
+    submittedAt: TimestampSchema.nullable(),
+    updatedAt: TimestampSchema
+});
+
+export const SubmissionResponseSchema = z.object({
+    submission: SubmissionSchema
+});
+
+// GET /api/profiles/:id/submissions, most recently updated first
+export const SubmissionListResponseSchema = z.object({
+    profileId: z.string(),
+    count: z.number().int(),
+    submissions: z.array(SubmissionSchema)
+});
+
+export type SubmissionStatus = z.output<typeof SubmissionStatusSchema>;
+export type SubmissionInput = z.output<typeof SubmissionInputSchema>;
+export type Submission = z.output<typeof SubmissionSchema>;
+export type SubmissionResponse = z.output<typeof SubmissionResponseSchema>;
+export type SubmissionListResponse = z.output<typeof SubmissionListResponseSchema>;
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+// Any request or response schema of this package, and the value it parses to
+export type ContractSchema = z.ZodType;
+export type ContractOutput<S extends ContractSchema> = z.output<S>;
+
+/**
+ * One problem with a value, as listed in a 400 response's `errors`. `code` is one of `required`,
+ * `invalid-type`, `invalid-option`, `invalid-email`, `invalid-url`, `invalid-date`, `too-short`,
+ * `too-long`, `too-few`, `too-many`, `too-small`, `too-large`, `conflict` or `invalid`.
+ */
+export interface ContractIssue {
+    // Dotted path to the offending value, e.g. `appInfo.mainFeatures.0`; empty for the whole body
+    field: string;
+    code: string;
+    message: string;
+}
+
+export type ContractResult<T> =
+    | { success: true; data: T }
+    | { success: false; issues: ContractIssue[] };
+
+function issueCode(issue: z.core.$ZodIssue): string {
+    switch (issue.code) {
+        case 'invalid_type':
+            return issue.input === undefined ? 'required' : 'invalid-type';
+        case 'invalid_value':
+            return 'invalid-option';
+        case 'too_small':
+            if (issue.origin === 'array') {
+                return 'too-few';
+            }
+            if (issue.origin === 'string') {
+                return issue.minimum === 1 ? 'required' : 'too-short';
+            }
+            return 'too-small';
+        case 'too_big':
+            return issue.origin === 'array' ? 'too-many' : issue.origin === 'string' ? 'too-long' : 'too-large';
+        case 'custom':
+            return typeof issue.params?.code === 'string' ? issue.params.code : 'invalid';
+        default:
+            return 'invalid';
+    }
+}
+
+/**
+ * Check a value against a schema without throwing; on success `data` has defaults filled in
+ * and unknown keys dropped.
+ */
+export function validate<S extends ContractSchema>(schema: S, value: unknown): ContractResult<ContractOutput<S>> {
+    // The input is only read to tell a missing value from a wrong one, and is not returned
+    const result = schema.safeParse(value, { reportInput: true });
+    if (result.success) {
+        return { success: true, data: result.data };
+    }
+    return {
+        success: false,
+        issues: result.error.issues.map(issue => ({
+            field: issue.path.map(String).join('.'),
+            code: issueCode(issue),
+            message: issue.message
+        }))
+    };
+}
+
+/**
+ * One line per issue, for error messages and logs
+ */
+export function formatIssues(issues: ContractIssue[]): string {
+    return issues.map(issue => issue.field ? `${issue.field}: ${issue.message}` : issue.message).join('; ');
+}
@@ -0,0 +1,20 @@
+/**
+ * Version of the request and response shapes in this package. Bump the major version for
+ * changes an older client or server cannot read (removed or renamed fields, new required ones).
+ */
+export const CONTRACT_VERSION = '1.0.0';
+
+// Sent by clients with every request and by the server with every response
+export const CONTRACT_VERSION_HEADER = 'X-Contract-Version';
+
+function majorVersion(version: string): number {
+    return Number(version.trim().split('.')[0]);
+}
+
+/**
+ * Whether two sides can talk: the same major version. Minor versions only add optional fields.
+ */
+export function isCompatibleContractVersion(version: string, other: string = CONTRACT_VERSION): boolean {
+    const major = majorVersion(version);
+    return Number.isInteger(major) && major === majorVersion(other);
+}
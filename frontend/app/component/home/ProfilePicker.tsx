@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useOnboarding } from '../../context/OnboardingContext';
+import { ProfileService } from '../../services/profileService';
+import { ProfileSummary } from '../../types/onboarding';
+
+/**
+ * Switch between the apps saved on the server, start a new one, or delete the current one
+ */
+export const ProfilePicker = () => {
+  const { profileId, switchProfile, resetOnboarding } = useOnboarding();
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    ProfileService.listProfiles()
+      .then(setProfiles)
+      .catch((err) => console.error('Could not load saved apps:', err));
+  }, [profileId]);
+
+  const chooseProfile = async (id: string) => {
+    setError('');
+    if (!id) {
+      resetOnboarding();
+      return;
+    }
+    setBusy(true);
+    try {
+      switchProfile(await ProfileService.getProfile(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the app');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!profileId) return;
+    setError('');
+    setBusy(true);
+    try {
+      await ProfileService.deleteProfile(profileId);
+      resetOnboarding();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the app');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="profile-picker">
+      <select
+        value={profileId ?? ''}
+        onChange={(event) => chooseProfile(event.target.value)}
+        disabled={busy}
+        aria-label="Saved apps"
+      >
+        <option value="">New app</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      {profileId && (
+        <button className="secondary-btn" onClick={deleteProfile} disabled={busy}>
+          Delete
+        </button>
+      )}
+      {error && <span className="profile-picker-error">{error}</span>}
+    </div>
+  );
+};
@@ -31,7 +31,7 @@ export const SiteCard = ({ site }: SiteCardProps) => {
   }, []); // Dependencies are correct
 
   return (
-    <Link href={`/site/${encodeURIComponent(site.url)}`} passHref>
+    <Link href={`/site/${encodeURIComponent(site.id)}`} passHref>
       <div 
         className="site-card"
         ref={cardRef}
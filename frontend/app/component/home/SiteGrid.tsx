@@ -22,7 +22,7 @@ export const SiteGrid = forwardRef<HTMLDivElement, SiteGridProps>(
     return (
       <div ref={ref} className="sites-grid">
         {sites.map((site) => (
-          <SiteCard key={site.url} site={site} />
+          <SiteCard key={site.id} site={site} />
         ))}
       </div>
     );
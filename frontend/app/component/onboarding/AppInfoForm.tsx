@@ -2,15 +2,21 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { gsap } from 'gsap';
-import { AppInfo } from '../../types/onboarding';
+import { AppInfoSchema, ContractIssue, formatIssues, validate } from '@directory-bot/contract';
+import { AppInfo, TextVariants } from '../../types/onboarding';
+import { ApiError } from '../../services/apiClient';
+import { JobService } from '../../services/jobService';
 import { FormProgress } from './FormProgress';
 import './AppInfoForm.css';
 import { useRouter } from 'next/navigation';
 import React from 'react'; // Import React for event typing
 
 interface AppInfoFormProps {
-  onSubmit: (appInfo: AppInfo) => Promise<void>;
-  onBack: () => void;
+  // Saves the app; resolves to its profile id, or null when it could not be saved
+  onSubmit: (appInfo: AppInfo) => Promise<string | null>;
+  onBack: () => void;
+  // The current app, to edit it rather than start a new one
+  initialAppInfo?: AppInfo | null;
 }
 
 interface SiteAnalysis {
@@ -23,13 +29,6 @@ interface SiteAnalysis {
   }[];
 }
 
-// 168:46 Error: Unexpected any. Specify a different type.  @typescript-eslint/no-explicit-any
-// Define SiteData interface for sitesData.sites elements
-interface SiteData {
-  url: string;
-  [key: string]: unknown; // Allow other properties
-}
-
 const appTypes: { value: AppInfo['type']; label: string; icon: string }[] = [
   { value: 'saas', label: 'SaaS Application', icon: '💼' },
   { value: 'ecommerce', label: 'E-commerce Store', icon: '🛒' },
@@ -50,15 +49,37 @@ const categoryOptions = [
   'Shopping', 'News', 'Music', 'Photography', 'Gaming'
 ];
 
-export const AppInfoForm = ({ onSubmit, onBack }: AppInfoFormProps) => {
+// Step holding each field, to take the user to the first field with an error
+const fieldSteps: Record<string, number> = {
+  url: 1, name: 1, tagline: 1, type: 1,
+  description: 2, descriptionVariants: 2, category: 2, targetAudience: 2,
+  mainFeatures: 3, techStack: 3,
+  email: 4, companyName: 4, contactName: 4, location: 4, githubUrl: 4, xUrl: 4, linkedinUrl: 4, launchDate: 4, isReleased: 4,
+  enableGithubActions: 5, enableLinkedinSharing: 5,
+};
+
+const stepOf = (field: string) => fieldSteps[field.split('.')[0]];
+
+// First message per field, keyed like `email` or `descriptionVariants.short`; list items report on their list
+const toFieldErrors = (issues: ContractIssue[], prefix = ''): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  issues.forEach((issue) => {
+    const field = issue.field.replace(prefix, '').split('.').filter((part) => !/^\d+$/.test(part)).join('.');
+    errors[field] = errors[field] || issue.message;
+  });
+  return errors;
+};
+
+export const AppInfoForm = ({ onSubmit, onBack, initialAppInfo }: AppInfoFormProps) => {
   const router = useRouter();
   const [currentStep, setCurrentStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [analysisResult, setAnalysisResult] = useState<SiteAnalysis[] | null>(null);
   
-  // Initialize form data with ALL fields
-  const [formData, setFormData] = useState<AppInfo>({
+  // Initialize form data with ALL fields
+  const [formData, setFormData] = useState<AppInfo>(() => initialAppInfo ?? {
     // Basic Info
     url: '',
     name: '',
@@ -85,8 +106,8 @@ export const AppInfoForm = ({ onSubmit, onBack }: AppInfoFormProps) => {
     enableGithubActions: false,
     enableLinkedinSharing: false,
     xUrl: '', // Add X (Twitter) URL field
-    isReleased: false, // Add released toggle
-  });
+    isReleased: false, // Add released toggle
+  });
 
   const formRef = useRef<HTMLDivElement>(null);
   const stepContentRef = useRef<HTMLDivElement>(null);
@@ -159,114 +180,70 @@ export const AppInfoForm = ({ onSubmit, onBack }: AppInfoFormProps) => {
     }
   }, [analysisResult]);
 
+  // Show field errors and go to the first step that has one
+  const showFieldErrors = (errors: Record<string, string>) => {
+    setFieldErrors(errors);
+    const errorSteps = Object.keys(errors).map(stepOf).filter(Boolean);
+    if (errorSteps.length > 0) {
+      setCurrentStep(Math.min(...errorSteps));
+    }
+  };
+
+  // Check the form against the API contract, for one step or by default all of them
+  const checkFields = (step?: number): ContractIssue[] => {
+    const result = validate(AppInfoSchema, formData);
+    const issues = result.success ? [] : result.issues.filter((issue) => !step || stepOf(issue.field) === step);
+    showFieldErrors(toFieldErrors(issues));
+    return issues;
+  };
+
   const handleSubmit = async () => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      console.log('🚀 Submitting app info for analysis:', formData);
-      
-      // Get sites first
-      const sitesResponse = await fetch('https://directory-bot.onrender.com/api/sites');
-      if (!sitesResponse.ok) {
-        throw new Error(`Failed to fetch sites: ${sitesResponse.status}`);
-      }
-      const sitesData = await sitesResponse.json();
-     
-// FIX: Applied type definition SiteData
-const sitesArray = Array.isArray(sitesData.sites) ? sitesData.sites as SiteData[] : [];
-const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: string) => url);
-      if (siteUrls.length === 0) {
-        throw new Error('No directory sites found to analyze');
-      }
-      // LIMIT to only 3-5 sites for now to avoid overloading
-      const limitedSiteUrls = siteUrls.slice(0, 20);
-      
-      console.log('📋 Sites to analyze (limited):', limitedSiteUrls);
-      
-      const allAnalyses: SiteAnalysis[] = [];
-      
-      // Process sites ONE BY ONE with delays
-      for (let i = 0; i < limitedSiteUrls.length; i++) {
-        const siteUrl = limitedSiteUrls[i];
-        try {
-          console.log(`📍 Analyzing site ${i + 1}/${limitedSiteUrls.length}: ${siteUrl}`);
-          
-          const analysisResponse = await fetch('https://directory-bot.onrender.com/api/analyze-site', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ 
-              appInfo: formData,
-              siteUrl: siteUrl
-            }),
-          });
-
-          if (!analysisResponse.ok) {
-            console.warn(`⚠️ Failed to analyze ${siteUrl}: ${analysisResponse.status}`);
-            continue;
-          }
+    const issues = checkFields();
+    if (issues.length > 0) {
+      setError(`Please fix these details first: ${formatIssues(issues)}`);
+      return;
+    }
 
-          // 291:56 Error: Unexpected any. Specify a different type.  @typescript-eslint/no-explicit-any
-          // Assuming result is of type { questions: SiteAnalysis['questions'] }
-          const result = await analysisResponse.json() as { questions: SiteAnalysis['questions'] }; 
-          
-          // Add site analysis if it has questions
-          if (result.questions && result.questions.length > 0) {
-            allAnalyses.push({
-              siteUrl: siteUrl,
-              siteName: getSiteDisplayName(siteUrl),
-              questions: result.questions
-            });
-          }
-          
-          // Add delay between requests to avoid overloading
-          if (i < limitedSiteUrls.length - 1) {
-            console.log(`⏳ Waiting 1 second before next site...`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-          
-        } catch (siteError) {
-          console.warn(`⚠️ Error analyzing ${siteUrl}:`, siteError);
-        }
-      }
-      
-      if (allAnalyses.length === 0) {
-        throw new Error('No analyses generated for any site');
-      }
-      
-      console.log('✅ All analyses received:', allAnalyses);
-      
-      // Save to localStorage with more detailed structure
-      saveAnalysisToStorage(allAnalyses);
-      
-      // Call parent onSubmit
-      await onSubmit(formData);
-      
-      // REDIRECT TO RESULTS PAGE IMMEDIATELY
-      console.log('🔀 Redirecting to results page...');
-      router.push('/results');
-      
-    } catch (err) {
-      console.error('❌ Analysis error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to generate analysis';
-      setError(errorMessage);
-      
-      // Add error animation
-      
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      console.log('🚀 Submitting app info for analysis:', formData);
+      
+      // Save the app first so the job can refer to its profile; unsaved, the app goes along inline
+      const profileId = await onSubmit(formData);
+
+      // The server works through the directories in the background; the results page follows along
+      const job = await JobService.startJob(profileId ? { profileId } : { appInfo: formData });
+      console.log(`📋 Started analysis job ${job.id} for ${job.progress.total} sites`);
+
+      saveAnalysisToStorage([], job.id);
+      
+      // REDIRECT TO RESULTS PAGE IMMEDIATELY
+      console.log('🔀 Redirecting to results page...');
+      router.push('/results');
+      
+    } catch (err) {
+      console.error('❌ Analysis error:', err);
+      if (err instanceof ApiError && err.errors.length > 0) {
+        showFieldErrors(toFieldErrors(err.errors, 'appInfo.'));
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Failed to generate analysis';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  const saveAnalysisToStorage = (result: SiteAnalysis[]) => {
+  const saveAnalysisToStorage = (result: SiteAnalysis[], jobId?: string) => {
     try {
       const timestamp = new Date().toISOString();
       const analysisWithMetadata = {
         analyses: result,
         appInfo: formData,
         timestamp,
+        // Results of a background job are filled in by the results page
+        ...(jobId && { jobId }),
         metadata: {
           totalSites: result.length,
           totalQuestions: result.reduce((total, site) => total + site.questions.length, 0),
@@ -290,21 +267,32 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
     }
   };
 
-  const getSiteDisplayName = (url: string): string => {
-    try {
-      const domain = new URL(url).hostname;
-      return domain.replace(/^www\./, '');
-    } catch {
-      return url.replace(/^https?:\/\//, '').replace(/\/$/, '');
-    }
-  };
-
   const updateFormData = <K extends keyof AppInfo>(field: K, value: AppInfo[K]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    clearFieldError(field);
   };
+
+  const updateDescriptionVariant = (length: keyof TextVariants, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      descriptionVariants: { ...prev.descriptionVariants, [length]: value }
+    }));
+    clearFieldError(`descriptionVariants.${length}`);
+  };
+
+  const clearFieldError = (field: string) => {
+    setFieldErrors(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== field)));
+  };
+
+  const renderFieldError = (field: string) => fieldErrors[field] && (
+    <div className="aif-validation-error">{fieldErrors[field]}</div>
+  );
   
   const handleNext = () => {
     if (currentStep < steps.length) {
+      if (checkFields(currentStep).length > 0) {
+        return;
+      }
       if (stepContentRef.current) {
         gsap.to(stepContentRef.current, {
           opacity: 0,
@@ -409,6 +397,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   Please include http:// or https://
                 </div>
               )}
+              {renderFieldError('url')}
             </div>
 
             <div className="aif-form-group">
@@ -426,6 +415,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   Name must be at least 3 characters
                 </div>
               )}
+              {renderFieldError('name')}
             </div>
 
             <div className="aif-form-group">
@@ -446,6 +436,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   Keep it short and catchy (10-60 characters)
                 </div>
               )}
+              {renderFieldError('tagline')}
             </div>
 
             <div className="aif-form-group">
@@ -468,6 +459,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
             </button>
                 ))}
               </div>
+              {renderFieldError('type')}
             </div>
           </div>
         );
@@ -493,8 +485,39 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   Please provide more details (at least 50 characters)
                 </div>
               )}
+              {renderFieldError('description')}
             </div>
 
+            <div className="aif-form-group">
+              <label className="aif-label">Short Description (optional)</label>
+              <input
+                type="text"
+                value={formData.descriptionVariants?.short || ''}
+                onChange={(e) => updateDescriptionVariant('short', e.target.value)}
+                placeholder="One sentence for directories with tight limits"
+                className="aif-input"
+              />
+              <div className="aif-char-counter">
+                {(formData.descriptionVariants?.short || '').length}/160 characters
+              </div>
+              {renderFieldError('descriptionVariants.short')}
+            </div>
+
+            <div className="aif-form-group">
+              <label className="aif-label">Long Description (optional)</label>
+              <textarea
+                value={formData.descriptionVariants?.long || ''}
+                onChange={(e) => updateDescriptionVariant('long', e.target.value)}
+                placeholder="A fuller write-up for directories that ask for more detail"
+                rows={6}
+                className="aif-input aif-textarea"
+              />
+              <div className="aif-char-counter">
+                {(formData.descriptionVariants?.long || '').trim().split(/\s+/).filter(Boolean).length}/500 words
+              </div>
+              {renderFieldError('descriptionVariants.long')}
+            </div>
+
             <div className="aif-form-group">
               <label className="aif-label">Category *</label>
               <div className="aif-category-grid">
@@ -519,6 +542,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   Selected: <strong>{formData.category}</strong>
                 </div>
               )}
+              {renderFieldError('category')}
             </div>
 
             <div className="aif-form-group">
@@ -536,6 +560,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   Be more specific about your target audience
                 </div>
               )}
+              {renderFieldError('targetAudience')}
             </div>
           </div>
         );
@@ -568,6 +593,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   Select at least one main feature
                 </div>
               )}
+              {renderFieldError('mainFeatures')}
             </div>
 
             <div className="aif-form-group">
@@ -592,6 +618,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
               <div className="aif-selection-count">
                 Selected: {formData.techStack.length} technologies
               </div>
+              {renderFieldError('techStack')}
             </div>
           </div>
         );
@@ -616,11 +643,12 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   className="aif-input"
                   required
                 />
-                {formData.email && !validateEmail(formData.email) && (
+                {formData.email && !validateEmail(formData.email) && !fieldErrors.email && (
                   <div className="aif-validation-error">
                     Please enter a valid email address
                   </div>
                 )}
+                {renderFieldError('email')}
               </div>
         
               <div className="aif-form-group">
@@ -632,6 +660,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   placeholder="Your Company Name"
                   className="aif-input"
                 />
+                {renderFieldError('companyName')}
               </div>
         
               <div className="aif-form-group">
@@ -649,6 +678,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                     Please enter your full name
                   </div>
                 )}
+                {renderFieldError('contactName')}
               </div>
         
               <div className="aif-form-group">
@@ -660,6 +690,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   placeholder="City, Country"
                   className="aif-input"
                 />
+                {renderFieldError('location')}
               </div>
         
               <div className="aif-form-group">
@@ -671,7 +702,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   placeholder="https://github.com/yourusername"
                   className="aif-input"
                 />
-                {formData.githubUrl && !validateUrl(formData.githubUrl) && (
+                {formData.githubUrl && !validateUrl(formData.githubUrl) && !fieldErrors.githubUrl && (
                   <div className="aif-validation-error">
                     Please enter a valid URL
                   </div>
@@ -681,6 +712,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                     Make sure this is a GitHub URL
                   </div>
                 )}
+                {renderFieldError('githubUrl')}
               </div>
         
               {/* X (Twitter) URL Field */}
@@ -693,12 +725,13 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   placeholder="https://x.com/yourusername"
                   className="aif-input"
                 />
-                {formData.xUrl && !validateUrl(formData.xUrl) && (
+                {formData.xUrl && !validateUrl(formData.xUrl) && !fieldErrors.xUrl && (
                   <div className="aif-validation-error">
                     Please enter a valid URL
                   </div>
                 )}
                
+                {renderFieldError('xUrl')}
               </div>
         
               {/* LinkedIn URL Field */}
@@ -711,7 +744,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                   placeholder="https://linkedin.com/in/yourprofile"
                   className="aif-input"
                 />
-                {formData.linkedinUrl && !validateLinkedinUrl(formData.linkedinUrl) && (
+                {formData.linkedinUrl && !validateLinkedinUrl(formData.linkedinUrl) && !fieldErrors.linkedinUrl && (
                   <div className="aif-validation-error">
                     Please enter a valid LinkedIn URL
                   </div>
@@ -719,6 +752,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                 <div className="aif-validation-hint">
                   Optional: We will use this for social sharing if enabled in automation settings
                 </div>
+                {renderFieldError('linkedinUrl')}
               </div>
         
               <div className="aif-form-group">
@@ -732,6 +766,7 @@ const siteUrls = sitesArray.map((site: SiteData) => site.url).filter((url: strin
                 <div className="aif-validation-hint">
                   If your app is not launched yet, enter your estimated launch date
                 </div>
+                {renderFieldError('launchDate')}
               </div>
         
               {/* Is Released Toggle Field */}
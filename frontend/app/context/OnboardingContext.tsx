@@ -2,13 +2,22 @@
 
 "use client";
 
-import { createContext, useContext, useState, ReactNode } from "react";
-import { AppInfo } from "../types/onboarding";
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { AppInfo, AppProfile, AppSource } from "../types/onboarding";
+import { ApiError } from "../services/apiClient";
+import { ProfileService } from "../services/profileService";
 
 interface OnboardingContextType {
   isOnboardingComplete: boolean;
   appInfo: AppInfo | null;
-  completeOnboarding: (appInfo: AppInfo) => void;
+  // The server-side profile holding appInfo, once saved
+  profileId: string | null;
+  // What analyses send: the saved profile, or appInfo itself while there is none
+  appSource: AppSource | null;
+  // Resolves to the saved profile's id, or null when the server could not save it
+  completeOnboarding: (appInfo: AppInfo) => Promise<string | null>;
+  // Carry on with another saved app
+  switchProfile: (profile: AppProfile) => void;
   resetOnboarding: () => void;
 }
 
@@ -42,14 +51,41 @@ const getInitialAppInfo = (): AppInfo | null => {
   return null;
 };
 
+const getInitialProfileId = (): string | null =>
+  typeof window === 'undefined' ? null : localStorage.getItem("directoryBot_profileId");
+
 export const OnboardingProvider = ({ children }: OnboardingProviderProps) => {
   // State initialization remains correct (lazy)
   const [appInfo, setAppInfo] = useState<AppInfo | null>(getInitialAppInfo);
   const [isOnboardingComplete, setIsOnboardingComplete] = useState(
-    Boolean(getInitialAppInfo())
-  );
+    Boolean(getInitialAppInfo())
+  );
+  const [profileId, setProfileId] = useState<string | null>(getInitialProfileId);
+
+  const rememberProfileId = (id: string | null) => {
+    setProfileId(id);
+    if (id) {
+      localStorage.setItem("directoryBot_profileId", id);
+    } else {
+      localStorage.removeItem("directoryBot_profileId");
+    }
+  };
+
+  // Forget a saved id the server no longer knows, so the app is sent inline and saved afresh next time
+  useEffect(() => {
+    const savedId = getInitialProfileId();
+    if (!savedId) return;
+    ProfileService.getProfile(savedId).catch((error) => {
+      if (error instanceof ApiError && error.status === 404) {
+        setProfileId((current) => (current === savedId ? null : current));
+        if (localStorage.getItem("directoryBot_profileId") === savedId) {
+          localStorage.removeItem("directoryBot_profileId");
+        }
+      }
+    });
+  }, []);
 
-  const completeOnboarding = (newAppInfo: AppInfo) => {
+  const completeOnboarding = async (newAppInfo: AppInfo): Promise<string | null> => {
     setAppInfo(newAppInfo);
     setIsOnboardingComplete(true);
     // FIX: Add check to all setters if they are called during SSR/Prerendering,
@@ -57,22 +93,54 @@ export const OnboardingProvider = ({ children }: OnboardingProviderProps) => {
     // However, for consistency and safety:
     if (typeof window !== 'undefined') {
       localStorage.setItem("directoryBot_appInfo", JSON.stringify(newAppInfo));
-      localStorage.setItem("directoryBot_onboardingComplete", "true");
+      localStorage.setItem("directoryBot_onboardingComplete", "true");
     }
-  };
+
+    // Keep the app on the server too, as a new revision of the same profile when there is one;
+    // a profile deleted meanwhile is created again. The local copy above is enough to carry on
+    // if the backend cannot be reached.
+    try {
+      const profile = profileId
+        ? await ProfileService.updateProfile(profileId, newAppInfo).catch((error) => {
+            if (error instanceof ApiError && error.status === 404) {
+              return ProfileService.createProfile(newAppInfo);
+            }
+            throw error;
+          })
+        : await ProfileService.createProfile(newAppInfo);
+      rememberProfileId(profile.id);
+      return profile.id;
+    } catch (error) {
+      console.error("Could not save the app profile:", error);
+      return null;
+    }
+  };
+
+  const switchProfile = (profile: AppProfile) => {
+    setAppInfo(profile.appInfo);
+    setIsOnboardingComplete(true);
+    localStorage.setItem("directoryBot_appInfo", JSON.stringify(profile.appInfo));
+    localStorage.setItem("directoryBot_onboardingComplete", "true");
+    rememberProfileId(profile.id);
+  };
+
+  const appSource: AppSource | null = profileId ? { profileId } : appInfo && { appInfo };
 
   const resetOnboarding = () => {
     setAppInfo(null);
-    setIsOnboardingComplete(false);
+    setIsOnboardingComplete(false);
+    // The saved profile stays on the server; the next onboarding starts a new one
+    setProfileId(null);
     if (typeof window !== 'undefined') {
       localStorage.removeItem("directoryBot_appInfo");
-      localStorage.removeItem("directoryBot_onboardingComplete");
+      localStorage.removeItem("directoryBot_onboardingComplete");
+      localStorage.removeItem("directoryBot_profileId");
     }
-  };
+  };
 
   return (
     <OnboardingContext.Provider
-      value={{ isOnboardingComplete, appInfo, completeOnboarding, resetOnboarding }}
+      value={{ isOnboardingComplete, appInfo, profileId, appSource, completeOnboarding, switchProfile, resetOnboarding }}
     >
       {children}
     </OnboardingContext.Provider>
@@ -2,15 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-
-interface AppInfo {
-  url: string;
-  name: string;
-  type: string;
-  description: string;
-  targetAudience: string;
-  mainFeatures: string[];
-}
+import { AppInfo } from '../types/onboarding';
 
 export default function Dashboard() {
   const router = useRouter();
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import {
+  AnalysisJobSchema,
+  ContractOutput,
+  ContractSchema,
+  JobSiteEventSchema,
+  JobStatusEventSchema,
+  validate,
+} from '@directory-bot/contract';
+import { AnalysisJob, isJobFinished } from '../types/job';
+import { JobService } from '../services/jobService';
+
+// Stream events are checked against the contract like any other response
+const parseEvent = <S extends ContractSchema>(event: Event, schema: S): ContractOutput<S> | null => {
+  const result = validate(schema, JSON.parse((event as MessageEvent).data));
+  if (!result.success) {
+    console.error(`Unexpected ${event.type} event:`, result.issues);
+    return null;
+  }
+  return result.data;
+};
+
+/**
+ * Follow a background analysis job over Server-Sent Events. The stream starts with a
+ * snapshot of the job, so reconnecting (e.g. after a page reload) picks up where it is.
+ */
+export const useAnalysisJob = (jobId: string | null) => {
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const [error, setError] = useState<string>('');
+  // Bumped to reopen the stream after a retry
+  const [connection, setConnection] = useState(0);
+
+  useEffect(() => {
+    if (!jobId) {
+      return;
+    }
+
+    const source = new EventSource(JobService.eventsUrl(jobId));
+
+    source.addEventListener('snapshot', (event) => {
+      const snapshot = parseEvent(event, AnalysisJobSchema);
+      if (!snapshot) {
+        setError('Unexpected response from the backend while following the analysis job.');
+        return;
+      }
+      setError('');
+      setJob(snapshot);
+      if (isJobFinished(snapshot.status)) {
+        source.close();
+      }
+    });
+
+    source.addEventListener('site', (event) => {
+      const siteEvent = parseEvent(event, JobSiteEventSchema);
+      if (!siteEvent) return;
+      const { site, progress } = siteEvent;
+      setJob((current) => current && {
+        ...current,
+        progress,
+        sites: current.sites.map((entry) => (entry.siteId === site.siteId ? site : entry)),
+      });
+    });
+
+    source.addEventListener('status', (event) => {
+      const statusEvent = parseEvent(event, JobStatusEventSchema);
+      if (!statusEvent) return;
+      const { status, progress, error: jobError } = statusEvent;
+      setJob((current) => current && { ...current, status, progress, error: jobError });
+      if (isJobFinished(status)) {
+        source.close();
+      }
+    });
+
+    // The browser reconnects by itself unless the server refused the stream (e.g. unknown job)
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Lost track of the analysis job. It may have expired on the server.');
+      }
+    };
+
+    return () => source.close();
+  }, [jobId, connection]);
+
+  const cancel = async () => {
+    if (!jobId) return;
+    setJob(await JobService.cancelJob(jobId));
+  };
+
+  const retry = async () => {
+    if (!jobId) return;
+    setJob(await JobService.retryJob(jobId));
+    setConnection((count) => count + 1);
+  };
+
+  return {
+    job,
+    error,
+    cancel,
+    retry
+  };
+};
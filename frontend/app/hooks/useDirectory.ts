@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DirectoryDetails } from '../types/site';
+import { SiteService } from '../services/siteService';
+
+export const useDirectory = (idOrUrl: string) => {
+  const [directory, setDirectory] = useState<DirectoryDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  const fetchDirectory = useCallback(async () => {
+    try {
+      setError('');
+      setLoading(true);
+      setDirectory(await SiteService.fetchSite(idOrUrl));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [idOrUrl]);
+
+  useEffect(() => {
+    fetchDirectory();
+  }, [fetchDirectory]);
+
+  return {
+    directory,
+    loading,
+    error,
+    refetch: fetchDirectory
+  };
+};
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from "react";
 import { useOnboarding } from "./context/OnboardingContext";
 import { AppInfoForm } from "./component/onboarding/AppInfoForm";
+import { ProfilePicker } from "./component/home/ProfilePicker";
 import { AppInfo } from "./types/onboarding";
 import { gsap } from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
@@ -13,7 +14,7 @@ if (typeof window !== "undefined") {
 }
 
 export default function Home() {
-  const { completeOnboarding } = useOnboarding();
+  const { appInfo, completeOnboarding } = useOnboarding();
   const [showForm, setShowForm] = useState(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
@@ -27,10 +28,8 @@ export default function Home() {
 
   const handleGetStarted = () => setShowForm(true);
 
-  const handleFormSubmit = async (data: AppInfo) => {
-    await completeOnboarding(data);
-    setShowForm(false);
-  };
+  // The form goes on to the results page once the analysis has started
+  const handleFormSubmit = (data: AppInfo) => completeOnboarding(data);
 
   useEffect(() => {
     if (showForm) return;
@@ -97,7 +96,7 @@ export default function Home() {
   if (showForm) {
     return (
       <div className="fullscreen dark-bg">
-        <AppInfoForm onSubmit={handleFormSubmit} onBack={() => setShowForm(false)} />
+        <AppInfoForm onSubmit={handleFormSubmit} onBack={() => setShowForm(false)} initialAppInfo={appInfo} />
       </div>
     );
   }
@@ -109,9 +108,12 @@ export default function Home() {
       {/* NAV */}
       <nav ref={navRef} className="nav">
         <div className="logo">Directory Bot</div>
-        <button className="primary-btn" onClick={handleGetStarted}>
-          Get Analysis
-        </button>
+        <div className="nav-actions">
+          <ProfilePicker />
+          <button className="primary-btn" onClick={handleGetStarted}>
+            Get Analysis
+          </button>
+        </div>
       </nav>
 
       {/* HERO */}
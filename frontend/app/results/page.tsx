@@ -3,6 +3,9 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { useAnalysisJob } from "../hooks/useAnalysisJob";
+import { isJobFinished } from "../types/job";
+import { AppInfo } from "../types/onboarding";
 import "./results.css";
 
 // Define the structure for site analysis results
@@ -13,16 +16,21 @@ siteName: string;
  id: number;
  question: string;
  answer: string;
+ lengthCheck?: AnswerLengthCheck;
+ field?: string | null;
+ confidence?: number;
+ status?: 'matched' | 'partial' | 'unmatched';
 }[];
 }
 
-// Define the structure for app information
-interface AppInfo {
-  name?: string;
-  targetAudience?: string;
-  type?: string;
-  mainFeatures?: string[];
- // [key: string]: unknown; // FIX: Removing the index signature should resolve the error if all used properties are listed above.
+// Present on questions with a character or word limit
+interface AnswerLengthCheck {
+  maxLength?: number;
+  maxWords?: number;
+  length: number;
+  words: number;
+  truncated: boolean;
+  overLimit: boolean;
 }
 
 // Define the structure for the stored analysis
@@ -30,6 +38,8 @@ interface StoredAnalysis {
  appInfo: AppInfo;
  analyses: SiteAnalysis[];
  timestamp?: string;
+ // Background job filling in `analyses`, see /api/jobs
+ jobId?: string;
  [key: string]: unknown; // We leave this one as it defines the structure of the JSON object itself
 }
 
@@ -40,11 +50,34 @@ export default function ResultsPage() {
   const [analysisResults, setAnalysisResults] = useState<SiteAnalysis[]>([]);
   const [appInfo, setAppInfo] = useState<AppInfo | null>(null);
   const [selectedSite, setSelectedSite] = useState<SiteAnalysis | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { job, error: jobError, cancel: cancelJob, retry: retryJob } = useAnalysisJob(jobId);
 
   useEffect(() => {
     loadAnalysisResults();
   }, []);
 
+  // While a job runs its results come from the server; once it finishes they are kept locally
+  const siteResults: SiteAnalysis[] = job
+    ? job.sites.flatMap((site) => (site.status === "success" && site.analysis ? [site.analysis] : []))
+    : analysisResults;
+
+  useEffect(() => {
+    if (!job || !isJobFinished(job.status)) return;
+    try {
+      const saved: StoredAnalysis[] = JSON.parse(localStorage.getItem("app_analysis_results") || "[]");
+      const analyses = job.sites.flatMap((site) => (site.status === "success" && site.analysis ? [site.analysis] : []));
+      localStorage.setItem(
+        "app_analysis_results",
+        JSON.stringify(saved.map((entry) => (entry.jobId === job.id ? { ...entry, analyses } : entry)))
+      );
+    } catch (error) {
+      console.error("Error saving job results:", error);
+    }
+  }, [job]);
+
+  const retryableSites = job?.sites.filter((site) => site.status === "error" || site.status === "cancelled").length || 0;
+
   const loadAnalysisResults = async () => {
     setIsLoading(true);
     try {
@@ -59,6 +92,9 @@ export default function ResultsPage() {
       if (!latestAnalysis?.analyses) {
         throw new Error("Invalid analysis data format.");
       }
+      if (latestAnalysis.jobId) {
+        setJobId(latestAnalysis.jobId);
+      }
 
       const uniqueAnalyses = latestAnalysis.analyses.filter(
         (site, index, self) => index === self.findIndex((s) => s.siteUrl === site.siteUrl)
@@ -91,6 +127,9 @@ export default function ResultsPage() {
 
   const getSiteInitial = (siteName: string) => siteName.charAt(0).toUpperCase();
 
+  const countByStatus = (site: SiteAnalysis, status: 'matched' | 'partial' | 'unmatched') =>
+    site.questions.filter((q) => q.status === status).length;
+
   if (isLoading) {
     return (
       <div className="results-loading">
@@ -139,12 +178,12 @@ export default function ResultsPage() {
 
       <div className="results-stats">
         <div className="stat-card">
-          <div className="stat-number">{analysisResults.length}</div>
+          <div className="stat-number">{siteResults.length}</div>
           <div className="stat-label">Sites Analyzed</div>
         </div>
         <div className="stat-card">
           <div className="stat-number">
-            {analysisResults.reduce((total, site) => total + site.questions.length, 0)}
+            {siteResults.reduce((total, site) => total + site.questions.length, 0)}
           </div>
           <div className="stat-label">Questions Answered</div>
         </div>
@@ -154,6 +193,42 @@ export default function ResultsPage() {
         </div>
       </div>
 
+      {job && (
+        <div className="job-progress">
+          <div className="job-progress-header">
+            <span className="job-progress-status">
+              {job.status === "queued" && "⏳ Waiting to start..."}
+              {job.status === "running" && "🔄 Analyzing directories..."}
+              {job.status === "completed" && "✅ Analysis complete"}
+              {job.status === "cancelled" && "🛑 Analysis stopped"}
+              {job.status === "failed" && `❌ Analysis failed${job.error ? `: ${job.error}` : ""}`}
+            </span>
+            <span className="job-progress-count">
+              {job.progress.done}/{job.progress.total} directories
+            </span>
+          </div>
+          <div className="job-progress-bar">
+            <div className="job-progress-fill" style={{ width: `${job.progress.percent}%` }} />
+          </div>
+          {job.progress.failed > 0 && (
+            <p className="job-progress-failed">⚠️ {job.progress.failed} directories could not be analyzed</p>
+          )}
+          <div className="job-progress-actions">
+            {!isJobFinished(job.status) && (
+              <button onClick={() => cancelJob().catch((err) => console.error("Error cancelling job:", err))} className="action-btn secondary">
+                Stop
+              </button>
+            )}
+            {isJobFinished(job.status) && retryableSites > 0 && (
+              <button onClick={() => retryJob().catch((err) => console.error("Error retrying job:", err))} className="action-btn secondary">
+                🔁 Retry {retryableSites} directories
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      {jobError && !job && <p className="job-progress-failed">{jobError}</p>}
+
       <div className="sites-analysis-section">
         <h2>Site-Specific Analysis</h2>
         <p className="section-description">
@@ -161,7 +236,7 @@ export default function ResultsPage() {
         </p>
 
         <div className="sites-grid-container">
-          {analysisResults.map((siteAnalysis, index) => (
+          {siteResults.map((siteAnalysis, index) => (
             <div
               key={`${siteAnalysis.siteUrl}-${index}`}
               className={`site-grid-card ${selectedSite?.siteUrl === siteAnalysis.siteUrl ? "active" : ""}`}
@@ -172,6 +247,9 @@ export default function ResultsPage() {
                 <h3 className="site-domain">{getSiteDomain(siteAnalysis.siteUrl)}</h3>
                 <p className="site-url">{siteAnalysis.siteUrl}</p>
                 <span className="questions-badge">{siteAnalysis.questions.length} questions</span>
+                {countByStatus(siteAnalysis, 'unmatched') > 0 && (
+                  <span className="manual-badge">✍️ {countByStatus(siteAnalysis, 'unmatched')} to answer yourself</span>
+                )}
               </div>
             </div>
           ))}
@@ -203,7 +281,25 @@ export default function ResultsPage() {
                       <span>Q{q.id}:</span> {q.question}
                     </h3>
                     <div className="modal-answer">
-                      <p>{q.answer}</p>
+                      {q.status === 'unmatched' ? (
+                        <p className="answer-unmatched">✍️ No matching info - answer this one yourself</p>
+                      ) : (
+                        <p>{q.answer}</p>
+                      )}
+                      {q.status === 'partial' && (
+                        <p className="answer-partial">🔍 Please review - this may not be quite what the directory asks for</p>
+                      )}
+                      {q.lengthCheck?.overLimit && (
+                        <p className="answer-over-limit">
+                          ⚠️ Too long for this directory
+                          {q.lengthCheck.maxLength !== undefined && ` (${q.lengthCheck.length}/${q.lengthCheck.maxLength} characters)`}
+                          {q.lengthCheck.maxWords !== undefined && ` (${q.lengthCheck.words}/${q.lengthCheck.maxWords} words)`}
+                          {' '}- please shorten it before submitting
+                        </p>
+                      )}
+                      {q.lengthCheck?.truncated && !q.lengthCheck.overLimit && (
+                        <p className="answer-truncated">✂️ Shortened to fit this directory&apos;s limit</p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,75 @@
+// app/services/apiClient.ts
+import {
+  CONTRACT_VERSION,
+  CONTRACT_VERSION_HEADER,
+  ContractOutput,
+  ContractIssue,
+  ContractSchema,
+  ErrorResponseSchema,
+  formatIssues,
+  isCompatibleContractVersion,
+  validate,
+  ValidationErrorResponseSchema,
+} from '@directory-bot/contract';
+
+export const API_BASE_URL = 'https://directory-bot.onrender.com/api';
+
+/**
+ * An error response from the backend. A request that failed validation also lists what was
+ * wrong with each field, e.g. `{ field: 'appInfo.email', code: 'invalid-email', ... }`.
+ */
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly errors: ContractIssue[] = []) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Call the backend and parse the response with its contract schema. Every request carries the
+ * contract version; a server on another major version is reported before its response is read.
+ */
+export async function apiRequest<S extends ContractSchema>(
+  path: string,
+  schema: S,
+  init: RequestInit = {}
+): Promise<ContractOutput<S>> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+        [CONTRACT_VERSION_HEADER]: CONTRACT_VERSION,
+        ...init.headers,
+      },
+    });
+  } catch (error: unknown) {
+    console.error(`Error calling ${path}:`, error);
+    throw new Error('Could not reach the backend. Make sure it is running.');
+  }
+
+  const serverVersion = response.headers.get(CONTRACT_VERSION_HEADER);
+  if (serverVersion && !isCompatibleContractVersion(serverVersion)) {
+    throw new Error(
+      `The backend speaks API contract ${serverVersion} but this app expects ${CONTRACT_VERSION}. Reload the page or update the app.`
+    );
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const invalid = validate(ValidationErrorResponseSchema, body);
+    if (invalid.success) {
+      throw new ApiError(invalid.data.error, response.status, invalid.data.errors);
+    }
+    const parsed = validate(ErrorResponseSchema, body);
+    throw new ApiError(parsed.success ? parsed.data.error : `HTTP error! status: ${response.status}`, response.status);
+  }
+
+  const result = validate(schema, body);
+  if (!result.success) {
+    console.error(`Unexpected response from ${path}:`, result.issues);
+    throw new Error(`Unexpected response from the backend (${formatIssues(result.issues)})`);
+  }
+  return result.data;
+}
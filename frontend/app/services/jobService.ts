@@ -0,0 +1,40 @@
+// app/services/jobService.ts
+import { JobResponseSchema } from '@directory-bot/contract';
+import { AppSource } from '../types/onboarding';
+import { AnalysisJob } from '../types/job';
+import { API_BASE_URL, apiRequest } from './apiClient';
+
+/* ---------- Service ---------- */
+
+export class JobService {
+  /**
+   * Start analyzing directories in the background, for a saved profile or the given app info.
+   * The server takes as many as one run allows; the job's `nextCursor` points at the rest.
+   */
+  static async startJob(app: AppSource): Promise<AnalysisJob> {
+    return this.request('/jobs', {
+      method: 'POST',
+      body: JSON.stringify(app),
+    });
+  }
+
+  /** Stop a running job; directories already analyzed are kept */
+  static async cancelJob(jobId: string): Promise<AnalysisJob> {
+    return this.request(`/jobs/${jobId}/cancel`, { method: 'POST' });
+  }
+
+  /** Analyze the failed and cancelled directories of a finished job again */
+  static async retryJob(jobId: string): Promise<AnalysisJob> {
+    return this.request(`/jobs/${jobId}/retry`, { method: 'POST' });
+  }
+
+  /** Server-Sent Events stream with the job's progress */
+  static eventsUrl(jobId: string): string {
+    return `${API_BASE_URL}/jobs/${jobId}/events`;
+  }
+
+  private static async request(path: string, init: RequestInit): Promise<AnalysisJob> {
+    const { job } = await apiRequest(path, JobResponseSchema, init);
+    return job;
+  }
+}
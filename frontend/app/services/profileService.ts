@@ -0,0 +1,44 @@
+// app/services/profileService.ts
+import {
+  ProfileDeletedResponseSchema,
+  ProfileListResponseSchema,
+  ProfileResponseSchema,
+} from '@directory-bot/contract';
+import { AppInfo, AppProfile, ProfileSummary } from '../types/onboarding';
+import { apiRequest } from './apiClient';
+
+/* ---------- Service ---------- */
+
+export class ProfileService {
+  /** Saved apps, most recently updated first */
+  static async listProfiles(): Promise<ProfileSummary[]> {
+    const { profiles } = await apiRequest('/profiles', ProfileListResponseSchema);
+    return profiles;
+  }
+
+  static async getProfile(profileId: string): Promise<AppProfile> {
+    const { profile } = await apiRequest(`/profiles/${encodeURIComponent(profileId)}`, ProfileResponseSchema);
+    return profile;
+  }
+
+  static async createProfile(appInfo: AppInfo): Promise<AppProfile> {
+    const { profile } = await apiRequest('/profiles', ProfileResponseSchema, {
+      method: 'POST',
+      body: JSON.stringify({ appInfo }),
+    });
+    return profile;
+  }
+
+  /** Save a new revision of an app; the earlier ones stay in its history */
+  static async updateProfile(profileId: string, appInfo: AppInfo): Promise<AppProfile> {
+    const { profile } = await apiRequest(`/profiles/${encodeURIComponent(profileId)}`, ProfileResponseSchema, {
+      method: 'PUT',
+      body: JSON.stringify({ appInfo }),
+    });
+    return profile;
+  }
+
+  static async deleteProfile(profileId: string): Promise<void> {
+    await apiRequest(`/profiles/${encodeURIComponent(profileId)}`, ProfileDeletedResponseSchema, { method: 'DELETE' });
+  }
+}
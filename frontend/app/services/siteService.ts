@@ -1,99 +1,39 @@
 // app/services/siteService.ts
-import { Site } from '../types/site';
-import { AppInfo } from '../types/onboarding';
-
-/* ---------- Types ---------- */
-
-interface CustomAnswer {
-  id: number;
-  question: string;
-  answer: string;
-}
-
-interface SiteCustomAnswers {
-  siteUrl: string;
-  siteName: string;
-  questions: CustomAnswer[];
-}
-
-interface GenerateCustomAnswersResponse {
-  appInfo: AppInfo;
-  analyses: SiteCustomAnswers[];
-  timestamp: string;
-}
-
-interface FetchSitesResponse {
-  sites: string[];
-}
+import {
+  DirectoryAnalysis,
+  DirectoryAnalysisSchema,
+  SiteListResponseSchema,
+  SiteResponseSchema,
+} from '@directory-bot/contract';
+import { DirectoryDetails, Site } from '../types/site';
+import { AppSource } from '../types/onboarding';
+import { apiRequest } from './apiClient';
 
 /* ---------- Service ---------- */
 
 export class SiteService {
-  private static readonly API_BASE_URL =
-    'https://directory-bot.onrender.com/api';
-
   /** Fetch all sites */
   static async fetchSites(): Promise<Site[]> {
-    try {
-      const response = await fetch(`${this.API_BASE_URL}/sites`);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = (await response.json()) as FetchSitesResponse;
-
-      return data.sites.map((url) => ({
-        url,
-        name: this.getDisplayName(url),
-      }));
-    } catch (error: unknown) {
-      // ✅ FIX: no implicit `any`
-      console.error('Error fetching sites:', error);
-      throw new Error(
-        'Failed to fetch sites. Make sure the backend is running.'
-      );
-    }
+    const { sites } = await apiRequest('/sites', SiteListResponseSchema);
+    return sites;
   }
 
-  /** Generate custom answers for a given app info */
-  static async generateCustomAnswers(
-    appInfo: AppInfo
-  ): Promise<GenerateCustomAnswersResponse> {
-    try {
-      const response = await fetch(
-        `${this.API_BASE_URL}/generate-custom-answers`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ appInfo }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      return (await response.json()) as GenerateCustomAnswersResponse;
-    } catch (error: unknown) {
-      // ✅ FIX: no implicit `any`
-      console.error('Error generating custom answers:', error);
-      throw new Error(
-        'Failed to generate custom answers. Make sure the backend is running.'
-      );
-    }
+  /** Fetch one directory with its questions, by id or URL */
+  static async fetchSite(idOrUrl: string): Promise<DirectoryDetails> {
+    const { site } = await apiRequest(`/sites/${encodeURIComponent(idOrUrl)}`, SiteResponseSchema);
+    return site;
   }
 
-  /** Get display name for a site URL */
-  static getDisplayName(url: string): string {
-    try {
-      const domain = new URL(url).hostname;
-      return domain.replace(/^www\./, '');
-    } catch {
-      return url.replace(/^https?:\/\//, '').replace(/\/$/, '');
-    }
+  /** Answer a directory's questions, or only `questionIds`, for a saved profile or the given app info */
+  static async analyzeSite(
+    siteId: string,
+    app: AppSource,
+    questionIds?: number[]
+  ): Promise<DirectoryAnalysis> {
+    return apiRequest('/analyze-site', DirectoryAnalysisSchema, {
+      method: 'POST',
+      body: JSON.stringify({ ...app, siteId, ...(questionIds && { questionIds }) }),
+    });
   }
 
   /** Get icon (first letter) for a site URL */
@@ -1,126 +1,99 @@
 "use client";
 
 import { useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useOnboarding } from '../../context/OnboardingContext';
+import { useDirectory } from '../../hooks/useDirectory';
 import { SiteService } from '../../services/siteService';
+import { AnsweredQuestion } from '../../types/job';
+import { DirectoryQuestion } from '../../types/site';
 
-// Define the interfaces locally since they might differ from SiteService
-interface SiteQuestion {
-  id: number;
-  question: string;
-  answer: string;
-  sources: { uri: string; title: string }[];
-}
-
-interface SiteResult {
-  siteUrl: string;
-  questions: SiteQuestion[];
-}
-
-// Interface for the custom answers response
-interface CustomAnswersResponse {
-  appInfo: any; // You might want to define a proper type
-  analyses: {
-    siteUrl: string;
-    siteName: string;
-    questions: Array<{
-      id: number;
-      question: string;
-      answer: string;
-    }>;
-  }[];
-  timestamp: string;
-}
+const STATUS_LABELS: Record<AnsweredQuestion['status'], string> = {
+  matched: '✅ Matched',
+  partial: '🔍 Review',
+  unmatched: '✍️ Answer yourself',
+};
 
 export default function SitePage() {
   const params = useParams();
-  
-  const { appInfo } = useOnboarding();
-  const [siteData, setSiteData] = useState<SiteResult | null>(null);
-  const [loading, setLoading] = useState(false);
+  const { appInfo, appSource } = useOnboarding();
+
+  // The route holds a directory id, or a URL for links that only know the URL; Next has already decoded it
+  const idOrUrl = params.url as string;
+  const { directory, loading, error: loadError } = useDirectory(idOrUrl);
+
+  const [answers, setAnswers] = useState<Record<number, AnsweredQuestion>>({});
+  const [generating, setGenerating] = useState(false);
+  // Questions being regenerated one at a time
+  const [regenerating, setRegenerating] = useState<number[]>([]);
   const [error, setError] = useState<string>('');
-  const [answersGenerated, setAnswersGenerated] = useState(false);
 
-  // Decode the URL from the route parameter
-  const siteUrl = decodeURIComponent(params.url as string);
-  
-  // Check if this is a custom analysis
-  const isCustomAnalysis = siteUrl.startsWith('custom-analysis-') || 
-                          (appInfo && siteUrl.includes(appInfo.name.toLowerCase().replace(/\s+/g, '-')));
+  const mergeAnswers = (questions: AnsweredQuestion[]) => {
+    setAnswers((current) => ({
+      ...current,
+      ...Object.fromEntries(questions.map((question) => [question.id, question])),
+    }));
+  };
 
   const generateAnswers = async () => {
-    setLoading(true);
+    if (!directory || !appSource) return;
+    setGenerating(true);
     setError('');
-
     try {
-      let data: SiteResult;
-      
-      if (isCustomAnalysis && appInfo) {
-        // Use custom analysis endpoint - returns multiple sites
-        const customResponse = await SiteService.generateCustomAnswers(appInfo);
-        
-        // Find the site that matches our current URL or use the first one
-        // Since custom analysis returns multiple sites, we need to select one
-        const matchedSite = customResponse.analyses.find(
-          analysis => analysis.siteUrl === siteUrl || 
-                     analysis.siteName.toLowerCase().includes(appInfo.name.toLowerCase())
-        ) || customResponse.analyses[0]; // Fallback to first site
-        
-        if (!matchedSite) {
-          throw new Error('No site data found in custom analysis response');
-        }
-        
-        // Convert the response format to match SiteResult
-        data = {
-          siteUrl: matchedSite.siteUrl,
-          questions: matchedSite.questions.map(q => ({
-            ...q,
-            sources: [] // Add empty sources array if not present
-          }))
-        };
-      } else {
-        // Use regular site analysis endpoint
-        const response = await fetch('http://localhost:3003/api/generate-answers', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ siteUrl }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to generate answers');
-        }
-
-        data = await response.json();
-      }
-
-      setSiteData(data);
-      setAnswersGenerated(true);
+      const analysis = await SiteService.analyzeSite(directory.id, appSource);
+      mergeAnswers(analysis.questions);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      setError(err instanceof Error ? err.message : 'Failed to generate answers');
       console.error('Error generating answers:', err);
     } finally {
-      setLoading(false);
+      setGenerating(false);
     }
   };
 
-  const getDisplayName = (url: string): string => {
-    if (isCustomAnalysis && appInfo) {
-      return `${appInfo.name} - Custom Analysis`;
-    }
-    
+  const regenerateAnswer = async (questionId: number) => {
+    if (!directory || !appSource) return;
+    setRegenerating((ids) => [...ids, questionId]);
+    setError('');
     try {
-      const domain = new URL(url).hostname;
-      return domain.replace(/^www\./, '');
-    } catch {
-      return url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+      const analysis = await SiteService.analyzeSite(directory.id, appSource, [questionId]);
+      mergeAnswers(analysis.questions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate answer');
+      console.error('Error regenerating answer:', err);
+    } finally {
+      setRegenerating((ids) => ids.filter((id) => id !== questionId));
     }
   };
 
+  if (loading) {
+    return (
+      <div className="container">
+        <div className="loading-section">
+          <div className="loading-spinner"></div>
+          <p>Loading directory...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loadError || !directory) {
+    return (
+      <div className="container">
+        <header className="header">
+          <Link href="/" className="back-button">
+            ← Back to Sites
+          </Link>
+        </header>
+        <div className="error-message">{loadError || 'Directory not found'}</div>
+      </div>
+    );
+  }
+
+  const answered = Object.values(answers);
+  const countByStatus = (status: AnsweredQuestion['status']) =>
+    answered.filter((answer) => answer.status === status).length;
+
   return (
     <div className="container">
       {/* Header */}
@@ -128,35 +101,37 @@ export default function SitePage() {
         <Link href="/" className="back-button">
           ← Back to Sites
         </Link>
-        <h1 className="title">{getDisplayName(siteUrl)}</h1>
-        {isCustomAnalysis && appInfo ? (
-          <div className="app-info">
-            <p className="app-type">{appInfo.type.toUpperCase()} Application</p>
-            <p className="app-description">{appInfo.description}</p>
-            <p className="app-audience">Target Audience: {appInfo.targetAudience}</p>
-          </div>
-        ) : (
-          <p className="site-url">{siteUrl}</p>
-        )}
+        <h1 className="title">{directory.name}</h1>
+        <p className="site-url">{directory.url}</p>
+        <p className="directory-meta">
+          {directory.questionCount} questions
+          {directory.category && ` · ${directory.category}`}
+          {directory.pack && ` · ${directory.pack}`}
+        </p>
       </header>
 
       {/* Generate Answers Section */}
-      {!answersGenerated && (
+      {!appInfo ? (
+        <div className="generate-section">
+          <div className="generate-card">
+            <h2>Tell us about your app first</h2>
+            <p>Answers are generated from your app profile. Complete onboarding to fill in this directory.</p>
+            <Link href="/" className="generate-button">
+              Start onboarding
+            </Link>
+          </div>
+        </div>
+      ) : answered.length === 0 && (
         <div className="generate-section">
           <div className="generate-card">
-            <h2>Generate AI Answers</h2>
-            <p>
-              {isCustomAnalysis && appInfo 
-                ? `Generate personalized insights and recommendations for ${appInfo.name} based on your app profile.`
-                : 'Click the button below to generate AI-powered answers for all questions about this site.'
-              }
-            </p>
+            <h2>Generate Answers</h2>
+            <p>Fill in {directory.name}&apos;s questions from the {appInfo.name} profile.</p>
             <button
               onClick={generateAnswers}
-              disabled={loading}
+              disabled={generating}
               className="generate-button"
             >
-              {loading ? 'Generating Answers...' : 'Generate Answers'}
+              {generating ? 'Generating Answers...' : 'Generate Answers'}
             </button>
           </div>
         </div>
@@ -170,86 +145,118 @@ export default function SitePage() {
       )}
 
       {/* Loading State */}
-      {loading && (
+      {generating && (
         <div className="loading-section">
           <div className="loading-spinner"></div>
-          <p>Generating AI answers... This may take a moment.</p>
+          <p>Generating answers... This may take a moment.</p>
         </div>
       )}
 
-      {/* Results Display */}
-      {siteData && (
-        <div className="results-section">
-          <div className="results-header">
-            <h2>Generated Answers</h2>
-            <button 
-              onClick={generateAnswers}
-              disabled={loading}
-              className="regenerate-button"
-            >
-              Regenerate All
-            </button>
-          </div>
-          
-          <div className="questions-grid">
-            {siteData.questions.map((questionItem) => (
-              <QuestionCard 
-                key={questionItem.id} 
-                question={questionItem} 
-              />
-            ))}
-          </div>
+      {/* Questions, with their answers once generated */}
+      <div className="results-section">
+        <div className="results-header">
+          <h2>Questions</h2>
+          {answered.length > 0 && (
+            <div className="answer-counts">
+              <span>{countByStatus('matched')} matched</span>
+              <span>{countByStatus('partial')} to review</span>
+              <span>{countByStatus('unmatched')} to answer yourself</span>
+              <button
+                onClick={generateAnswers}
+                disabled={generating || !appInfo}
+                className="regenerate-button"
+              >
+                Regenerate All
+              </button>
+            </div>
+          )}
         </div>
-      )}
+
+        <div className="questions-grid">
+          {directory.questions.map((question) => (
+            <QuestionCard
+              key={question.id}
+              question={question}
+              answer={answers[question.id]}
+              regenerating={regenerating.includes(question.id)}
+              onRegenerate={appInfo ? () => regenerateAnswer(question.id) : undefined}
+            />
+          ))}
+        </div>
+      </div>
     </div>
   );
 }
 
+interface QuestionCardProps {
+  question: DirectoryQuestion;
+  answer?: AnsweredQuestion;
+  regenerating: boolean;
+  onRegenerate?: () => void;
+}
+
 // Question Card Component
-function QuestionCard({ question }: { question: SiteQuestion }) {
+function QuestionCard({ question, answer, regenerating, onRegenerate }: QuestionCardProps) {
   const [expanded, setExpanded] = useState(false);
+  const status = answer?.status;
 
   return (
     <div className={`question-card ${expanded ? 'expanded' : ''}`}>
-      <div 
+      <div
         className="question-header"
         onClick={() => setExpanded(!expanded)}
       >
-        <h3 className="question-text">Q{question.id}: {question.question}</h3>
+        <h3 className="question-text">
+          Q{question.id}: {question.question}
+          {question.required && <span className="question-required"> *</span>}
+        </h3>
+        {status && (
+          <span className={`answer-status answer-status-${status}`}>{STATUS_LABELS[status]}</span>
+        )}
         <div className="expand-icon">
           {expanded ? '−' : '+'}
         </div>
       </div>
-      
+
       {expanded && (
         <div className="answer-content">
+          <p className="question-meta">
+            {question.type}
+            {question.maxLength !== undefined && ` · max ${question.maxLength} characters`}
+            {question.maxWords !== undefined && ` · max ${question.maxWords} words`}
+            {answer?.field && ` · from ${answer.field}`}
+          </p>
+
           <div className="answer-section">
             <strong>Answer:</strong>
-            <p className="answer-text">{question.answer}</p>
+            {!answer ? (
+              <p className="answer-text answer-empty">Not generated yet</p>
+            ) : status === 'unmatched' ? (
+              <p className="answer-text answer-empty">No matching info - answer this one yourself</p>
+            ) : (
+              <p className="answer-text">{answer.answer}</p>
+            )}
+            {answer?.lengthCheck?.overLimit && (
+              <p className="answer-warning">
+                ⚠️ Too long for this directory ({answer.lengthCheck.length} characters, {answer.lengthCheck.words} words) - please shorten it before submitting
+              </p>
+            )}
+            {answer?.lengthCheck?.truncated && !answer.lengthCheck.overLimit && (
+              <p className="answer-warning">✂️ Shortened to fit this directory&apos;s limit</p>
+            )}
           </div>
 
-          {/* Sources */}
-          {question.sources.length > 0 && (
-            <div className="sources-section">
-              <strong>Sources:</strong>
-              <ul className="sources-list">
-                {question.sources.map((source, index) => (
-                  <li key={index} className="source-item">
-                    <a
-                      href={source.uri}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="source-link"
-                    >
-                      {source.title}
-                    </a>
-                  </li>
-                ))}
-              </ul>
-            </div>
+          {onRegenerate && answer && (
+            <button
+              onClick={onRegenerate}
+              disabled={regenerating}
+              className="regenerate-button"
+            >
+              {regenerating ? 'Regenerating...' : 'Regenerate'}
+            </button>
           )}
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+// Background bulk analysis jobs (/api/jobs); shapes come from the shared API contract
+import { JobStatus } from '@directory-bot/contract';
+
+export type {
+  AnalysisJob,
+  AnsweredQuestion,
+  DirectoryAnalysis,
+  JobProgress,
+  JobSite,
+  JobSiteEvent,
+  JobSiteStatus,
+  JobStatus,
+  JobStatusEvent,
+} from '@directory-bot/contract';
+
+export const isJobFinished = (status: JobStatus) =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
@@ -1,25 +1,10 @@
-export interface AppInfo {
-  url: string;
-  name: string;
-  type: 'saas' | 'ecommerce' | 'blog' | 'portfolio' | 'webapp' | 'other';
-  description: string;
-  targetAudience: string;
-  mainFeatures: string[];
-  techStack: string[];
+import type { AppInfo } from '@directory-bot/contract';
 
-  email: string;
-  companyName: string;
-  contactName: string;
-  location: string;
-  githubUrl: string;
-  launchDate: string;
+// The app profile collected by onboarding; its schema lives in the shared API contract
+export type { AppInfo, TextVariants } from '@directory-bot/contract';
 
-  tagline: string;
-  category: string;
+// Apps saved on the server
+export type { AppProfile, ProfileSummary } from '@directory-bot/contract';
 
-  linkedinUrl: string;
-  enableGithubActions: boolean;
-  enableLinkedinSharing: boolean;
-  xUrl: string;
-  isReleased: boolean;
-}
+// Where an analysis takes the app from: its saved profile, or the app itself when it could not be saved
+export type AppSource = { profileId: string } | { appInfo: AppInfo };
@@ -1,8 +1,9 @@
-export interface Site {
-    url: string;
-    name: string;
-  }
-  
-  export interface SiteApiResponse {
-    sites: string[];
-  }
\ No newline at end of file
+// Directories as returned by /api/sites, see the shared API contract
+import { DirectoryQuestion, Site as SiteWithQuestions, SiteSummary } from '@directory-bot/contract';
+
+export type Site = SiteSummary;
+
+// One directory from GET /api/sites/:id
+export type DirectoryDetails = SiteWithQuestions;
+
+export type { DirectoryQuestion };